@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { useAuth } from '../contexts/AuthContext';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  expires_at?: string;
+  last_used_at?: string;
+  last_used_ip?: string;
+  created_at: string;
+}
+
+const SCOPE_LABELS: Record<string, string> = {
+  'tasks:read': 'Read tasks',
+  'tasks:write': 'Create and update tasks',
+  'gmail:read': 'Read Gmail messages',
+};
+
+const EXPIRY_OPTIONS = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null },
+];
+
+const ApiTokens: React.FC = () => {
+  const { token } = useAuth();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>(['tasks:read']);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/auth/tokens', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setTokens(response.data.tokens);
+      setAvailableScopes(response.data.available_scopes);
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to fetch API tokens');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (token) {
+      fetchTokens();
+    }
+  }, [token, fetchTokens]);
+
+  const toggleScope = (scope: string) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || scopes.length === 0) return;
+
+    try {
+      setCreating(true);
+      setError('');
+      const response = await axios.post('/api/auth/tokens',
+        { name: name.trim(), scopes, expires_in_days: expiresInDays },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+
+      setNewToken(response.data.token);
+      setTokens(prev => [response.data.api_token, ...prev]);
+      setName('');
+    } catch (error: any) {
+      console.error('Create API token error:', error);
+      setError(error.response?.data?.error || 'Failed to create API token');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiToken: ApiToken) => {
+    if (!window.confirm(`Revoke "${apiToken.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+
+    try {
+      await axios.delete(`/api/auth/tokens/${apiToken.id}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setTokens(prev => prev.filter(t => t.id !== apiToken.id));
+    } catch (error: any) {
+      console.error('Revoke API token error:', error);
+      setError(error.response?.data?.error || 'Failed to revoke API token');
+    }
+  };
+
+  const isExpired = (apiToken: ApiToken) => !!apiToken.expires_at && new Date(apiToken.expires_at) < new Date();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-8">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">API Tokens</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+        Use a token as <code>Authorization: Bearer &lt;token&gt;</code> to call the API from scripts.
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 text-sm text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {newToken && (
+        <div className="mb-6 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+          <p className="text-sm font-medium text-green-800 dark:text-green-200 mb-2">
+            Copy your new token now. It won't be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 break-all text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-white px-3 py-2 rounded border border-green-200 dark:border-green-800">
+              {newToken}
+            </code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newToken)}
+              className="bg-green-600 text-white px-3 py-2 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors"
+            >
+              Copy
+            </button>
+            <button
+              onClick={() => setNewToken(null)}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 text-sm px-2 py-2"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="mb-8 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              placeholder="e.g. Nightly export script"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Expires</label>
+            <select
+              value={expiresInDays ?? ''}
+              onChange={(e) => setExpiresInDays(e.target.value ? parseInt(e.target.value, 10) : null)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Scopes</label>
+          <div className="flex flex-wrap gap-4">
+            {availableScopes.map(scope => (
+              <label key={scope} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>{SCOPE_LABELS[scope] || scope}</span>
+                <code className="text-xs text-gray-500 dark:text-gray-400">{scope}</code>
+              </label>
+            ))}
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={creating || !name.trim() || scopes.length === 0}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {creating ? 'Creating...' : 'Create Token'}
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="text-gray-500 dark:text-gray-400">Loading API tokens...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No API tokens yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {tokens.map(apiToken => (
+            <li key={apiToken.id} className="py-4 flex items-center justify-between">
+              <div>
+                <div className="font-medium text-gray-900 dark:text-white">
+                  {apiToken.name}
+                  <code className="ml-2 text-xs text-gray-500 dark:text-gray-400">{apiToken.token_prefix}…</code>
+                  {isExpired(apiToken) && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
+                      Expired
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  {apiToken.scopes.join(', ')}
+                  {' · '}{apiToken.expires_at ? `Expires ${new Date(apiToken.expires_at).toLocaleDateString()}` : 'Never expires'}
+                  {' · '}{apiToken.last_used_at ? `Last used ${new Date(apiToken.last_used_at).toLocaleString()}` : 'Never used'}
+                </div>
+              </div>
+              <button
+                onClick={() => handleRevoke(apiToken)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium px-3 py-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ApiTokens;
@@ -1,7 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { Link } from 'react-router-dom';
 import Header from './Header';
+import SuggestionQueue from './SuggestionQueue';
+import DuplicateQueue, { PossibleDuplicate } from './DuplicateQueue';
+import TaskEditForm, { TaskEditValues } from './TaskEditForm';
+import TaskSearchResults, { TaskSearchResult } from './TaskSearchResults';
+import { formatDueDate } from '../utils/dueDates';
 import axios from 'axios';
 
 interface Task {
@@ -11,15 +16,21 @@ interface Task {
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
   status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
   due_date?: string;
+  due_at?: string; // Exact deadline, when the email gave a time of day
+  due_phrase?: string; // Deadline as written in the email
   source: string;
   source_id?: string;
+  source_url?: string;
   integration_id?: string;
   account_email?: string;
   account_name?: string;
+  notes?: string;
   created_at: string;
+  updated_at: string; // Sent back on edits to detect concurrent changes
   email_received_at?: string; // When the email was received
   email_sender?: string; // Who sent the email
   email_recipients?: string; // Who received the email (to/cc)
+  confidence?: number | string; // AI confidence for extracted tasks
 }
 
 interface EmailContent {
@@ -47,6 +58,13 @@ interface GmailAccountCounts {
   };
 }
 
+interface TaskCounts {
+  total: number;
+  byStatus: Record<string, number>;
+  byPriority: Record<string, number>;
+  byAccount: Record<string, number>;
+}
+
 interface GmailMessageCounts {
   accounts: GmailAccountCounts[];
   totals: {
@@ -61,6 +79,22 @@ const Dashboard: React.FC = () => {
   const { token } = useAuth();
   const [gmailData, setGmailData] = useState<GmailMessageCounts | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [taskCounts, setTaskCounts] = useState<TaskCounts>({ total: 0, byStatus: {}, byPriority: {}, byAccount: {} });
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const taskRequestId = useRef(0);
+  const [suggestions, setSuggestions] = useState<Task[]>([]);
+  const [duplicates, setDuplicates] = useState<PossibleDuplicate[]>([]);
+  const [view, setView] = useState<'tasks' | 'review' | 'duplicates'>('tasks');
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [savingTask, setSavingTask] = useState(false);
+  const [editError, setEditError] = useState('');
+  const [quickAddText, setQuickAddText] = useState('');
+  const [addingTask, setAddingTask] = useState(false);
+  const [quickAddNotice, setQuickAddNotice] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<TaskSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
   const [loading, setLoading] = useState(true);
   const [parsingTasks, setParsingTasks] = useState(false);
   const [parsingProgress, setParsingProgress] = useState({ 
@@ -105,7 +139,9 @@ const Dashboard: React.FC = () => {
   useEffect(() => {
     if (token) {
       fetchGmailData();
-      fetchTasks();
+      fetchTaskCounts();
+      fetchSuggestions();
+      fetchDuplicates();
     }
   }, [token]);
 
@@ -124,15 +160,112 @@ const Dashboard: React.FC = () => {
     };
   }, [showStatusFilter]);
 
-  const fetchTasks = async () => {
+  // Filters are applied by the server; without a cursor the list is replaced, with one the next page is appended
+  const fetchTasks = useCallback(async (cursor?: string) => {
+    const requestId = ++taskRequestId.current;
+    const statuses = (Object.keys(statusFilter) as Task['status'][]).filter(status => statusFilter[status]);
+
     try {
       const response = await axios.get('/api/tasks', {
-        headers: { Authorization: `Bearer ${token}` }
+        headers: { Authorization: `Bearer ${token}` },
+        params: {
+          status: statuses.join(','),
+          priority: showAllPriorities ? undefined : 'HIGH,URGENT',
+          account_email: selectedAccount === 'all' ? undefined : selectedAccount,
+          exclude_self_sent: true,
+          cursor,
+        }
       });
-      setTasks(response.data.tasks);
+
+      // Ignore responses for filters that have since changed
+      if (requestId !== taskRequestId.current) return;
+
+      setTasks(prev => cursor ? [...prev, ...response.data.tasks] : response.data.tasks);
+      setNextCursor(response.data.nextCursor);
     } catch (error) {
       console.error('Failed to fetch tasks:', error);
     }
+  }, [token, statusFilter, showAllPriorities, selectedAccount]);
+
+  useEffect(() => {
+    if (token) {
+      fetchTasks();
+    }
+  }, [token, fetchTasks]);
+
+  // Debounced full-text search; an empty query goes back to the normal task list
+  useEffect(() => {
+    const text = searchQuery.trim();
+    if (!token || !text) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await axios.get('/api/tasks/search', {
+          headers: { Authorization: `Bearer ${token}` },
+          params: { q: text }
+        });
+        if (!cancelled) setSearchResults(response.data.results);
+      } catch (error) {
+        console.error('Failed to search tasks:', error);
+        if (!cancelled) setSearchResults([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [token, searchQuery]);
+
+  const fetchTaskCounts = async () => {
+    try {
+      const response = await axios.get('/api/tasks/counts', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setTaskCounts(response.data);
+    } catch (error) {
+      console.error('Failed to fetch task counts:', error);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      await fetchTasks(nextCursor);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const fetchSuggestions = async () => {
+    try {
+      const response = await axios.get('/api/tasks/suggestions', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setSuggestions(response.data.suggestions);
+    } catch (error) {
+      console.error('Failed to fetch suggestions:', error);
+    }
+  };
+
+  const fetchDuplicates = async () => {
+    try {
+      const response = await axios.get('/api/tasks/duplicates', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setDuplicates(response.data.duplicates);
+    } catch (error) {
+      console.error('Failed to fetch possible duplicates:', error);
+    }
   };
 
   const fetchEmailContent = async (messageId: string, integrationId?: string) => {
@@ -217,6 +350,12 @@ const Dashboard: React.FC = () => {
             body: JSON.stringify({ integrationId: account.integrationId })
           });
           
+          // The background monitor (or another tab) is syncing this account right now
+          if (response.status === 409) {
+            setParsingProgress(prev => ({ ...prev, message: `${account.accountEmail} is already being synced` }));
+            continue;
+          }
+
           if (!response.ok) {
             throw new Error(`HTTP error! status: ${response.status}`);
           }
@@ -275,8 +414,8 @@ const Dashboard: React.FC = () => {
                         created: data.createdCount,
                         recentTasks: [...prev.recentTasks.slice(-4), data.taskTitle] // Keep last 5 tasks
                       }));
-                      // Refresh tasks and counts in real-time
-                      fetchTasks();
+                      // Refresh suggestions and counts in real-time
+                      fetchSuggestions();
                       fetchGmailData();
                       break;
                     case 'complete':
@@ -287,6 +426,8 @@ const Dashboard: React.FC = () => {
                         extracted: data.extracted,
                         created: data.created
                       }));
+                      fetchSuggestions();
+                      fetchDuplicates();
                       break;
                     case 'error':
                       setError(data.error);
@@ -349,6 +490,7 @@ const Dashboard: React.FC = () => {
       
       await fetchGmailData();
       await fetchTasks();
+      await fetchTaskCounts();
     } catch (error: any) {
       setError(error.response?.data?.error || 'Failed to reset message tracking');
     } finally {
@@ -358,19 +500,78 @@ const Dashboard: React.FC = () => {
 
   const handleUpdateTaskStatus = async (taskId: string, newStatus: Task['status']) => {
     try {
-      await axios.patch(`/api/tasks/${taskId}/status`, 
+      const response = await axios.patch(`/api/tasks/${taskId}/status`, 
         { status: newStatus },
         { headers: { Authorization: `Bearer ${token}` } }
       );
       
+      // Use the server's copy so updated_at stays current for later edits
       setTasks(tasks.map(task => 
-        task.id === taskId ? { ...task, status: newStatus } : task
+        task.id === taskId ? response.data.task : task
       ));
+      fetchTaskCounts();
     } catch (error) {
       console.error('Failed to update task status:', error);
     }
   };
 
+  const handleQuickAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quickAddText.trim()) return;
+
+    setAddingTask(true);
+    setQuickAddNotice('');
+
+    try {
+      const response = await axios.post('/api/tasks', 
+        { text: quickAddText, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      
+      const task: Task = response.data.task;
+      setTasks([task, ...tasks]);
+      setQuickAddText('');
+      fetchTaskCounts();
+      fetchDuplicates();
+
+      const hiddenByFilters = !statusFilter[task.status] || (!showAllPriorities && task.priority !== 'HIGH' && task.priority !== 'URGENT');
+      setQuickAddNotice(hiddenByFilters
+        ? `Added "${task.title}" (hidden by the current filters)`
+        : `Added "${task.title}"`);
+      setTimeout(() => setQuickAddNotice(''), 4000);
+    } catch (error: any) {
+      console.error('Failed to create task:', error);
+      setQuickAddNotice(error.response?.data?.error || 'Failed to create task');
+    } finally {
+      setAddingTask(false);
+    }
+  };
+
+  const handleSaveTask = async (task: Task, values: TaskEditValues) => {
+    setSavingTask(true);
+    setEditError('');
+
+    try {
+      const response = await axios.patch(`/api/tasks/${task.id}`, 
+        { ...values, updated_at: task.updated_at },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      
+      setTasks(tasks.map(t => t.id === task.id ? response.data.task : t));
+      setEditingTaskId(null);
+    } catch (error: any) {
+      if (error.response?.status === 409) {
+        // Someone else changed the task: show their version and let the user re-apply the edit
+        setTasks(tasks.map(t => t.id === task.id ? error.response.data.task : t));
+        setEditingTaskId(null);
+      }
+      console.error('Failed to update task:', error);
+      setEditError(error.response?.data?.error || 'Failed to update task');
+    } finally {
+      setSavingTask(false);
+    }
+  };
+
   const handleDeleteTask = async (taskId: string) => {
     if (!window.confirm('Are you sure you want to delete this task?')) return;
 
@@ -380,11 +581,74 @@ const Dashboard: React.FC = () => {
       });
       
       setTasks(tasks.filter(task => task.id !== taskId));
+      fetchTaskCounts();
     } catch (error) {
       console.error('Failed to delete task:', error);
     }
   };
 
+  const handleAcceptSuggestion = async (suggestionId: string, edits?: TaskEditValues) => {
+    try {
+      const response = await axios.post(`/api/tasks/suggestions/${suggestionId}/accept`, 
+        edits || {},
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      
+      setSuggestions(suggestions.filter(suggestion => suggestion.id !== suggestionId));
+      setTasks([response.data.task, ...tasks]);
+      fetchTaskCounts();
+    } catch (error: any) {
+      console.error('Failed to accept suggestion:', error);
+      setError(error.response?.data?.error || 'Failed to accept suggestion');
+    }
+  };
+
+  const handleRejectSuggestion = async (suggestionId: string) => {
+    try {
+      await axios.post(`/api/tasks/suggestions/${suggestionId}/reject`, 
+        {},
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      
+      setSuggestions(suggestions.filter(suggestion => suggestion.id !== suggestionId));
+    } catch (error: any) {
+      console.error('Failed to reject suggestion:', error);
+      setError(error.response?.data?.error || 'Failed to reject suggestion');
+    }
+  };
+
+  const handleMergeDuplicate = async (duplicateId: string, keep: 'task' | 'duplicate_of') => {
+    try {
+      await axios.post(`/api/tasks/duplicates/${duplicateId}/merge`, 
+        { keep },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      
+      // The removed task's other pairs are gone too, and the kept task may have been accepted
+      await fetchDuplicates();
+      fetchSuggestions();
+      fetchTasks();
+      fetchTaskCounts();
+    } catch (error: any) {
+      console.error('Failed to merge tasks:', error);
+      setError(error.response?.data?.error || 'Failed to merge tasks');
+    }
+  };
+
+  const handleDismissDuplicate = async (duplicateId: string) => {
+    try {
+      await axios.post(`/api/tasks/duplicates/${duplicateId}/dismiss`, 
+        {},
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      
+      setDuplicates(duplicates.filter(duplicate => duplicate.id !== duplicateId));
+    } catch (error: any) {
+      console.error('Failed to dismiss possible duplicate:', error);
+      setError(error.response?.data?.error || 'Failed to dismiss possible duplicate');
+    }
+  };
+
   const handleSelectTask = (taskId: string) => {
     const newSelected = new Set(selectedTasks);
     if (newSelected.has(taskId)) {
@@ -431,16 +695,15 @@ const Dashboard: React.FC = () => {
         }
       });
 
-      await Promise.all(promises);
+      const responses = await Promise.all(promises);
       
       if (action === 'delete') {
         setTasks(tasks.filter(task => !selectedTasks.has(task.id)));
       } else {
-        const status = action === 'complete' ? 'COMPLETED' : 'CANCELLED';
-        setTasks(tasks.map(task => 
-          selectedTasks.has(task.id) ? { ...task, status } : task
-        ));
+        const updatedTasks = new Map<string, Task>(responses.map(response => [response.data.task.id, response.data.task]));
+        setTasks(tasks.map(task => updatedTasks.get(task.id) || task));
       }
+      fetchTaskCounts();
       
       setSelectedTasks(new Set());
       setSelectAll(false);
@@ -470,7 +733,12 @@ const Dashboard: React.FC = () => {
     return `https://mail.google.com/mail/u/0/#inbox/${messageId}`;
   };
 
-  // Filter tasks based on selected account, priority, and sender
+  const getOutlookUrl = (messageId: string) => {
+    return `https://outlook.office.com/mail/deeplink/read/${encodeURIComponent(messageId)}`;
+  };
+
+  // The server already filters by account, priority, sender and status; re-applying the
+  // filters here hides loaded tasks that stop matching after a local change
   const filteredTasks = tasks
     .filter(task => selectedAccount === 'all' || task.account_email === selectedAccount)
     .filter(task => {
@@ -490,8 +758,8 @@ const Dashboard: React.FC = () => {
     })
     .filter(task => statusFilter[task.status]); // Apply status filter
 
-  // Get unique accounts from tasks
-  const taskAccounts = Array.from(new Set(tasks.map(task => task.account_email).filter(Boolean)));
+  // Accounts that have tasks
+  const taskAccounts = Object.keys(taskCounts.byAccount);
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-gray-900">
@@ -509,11 +777,54 @@ const Dashboard: React.FC = () => {
 
           {/* Account Filters */}
           <div className="flex-1 p-6">
+            {/* Review Queue */}
+            <div className="mb-6">
+              <h3 className="text-sm font-medium text-slate-900 dark:text-white mb-3">Review</h3>
+              <button
+                onClick={() => setView(view === 'review' ? 'tasks' : 'review')}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  view === 'review'
+                    ? 'bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300 border border-indigo-200 dark:border-indigo-700'
+                    : 'text-slate-700 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span>📥 Suggested Tasks</span>
+                  <span className={`px-2 py-1 rounded-full text-xs ${
+                    suggestions.length > 0
+                      ? 'bg-indigo-100 dark:bg-indigo-900/20 text-indigo-800 dark:text-indigo-300'
+                      : 'bg-slate-100 dark:bg-gray-600 text-slate-700 dark:text-gray-300'
+                  }`}>
+                    {suggestions.length}
+                  </span>
+                </div>
+              </button>
+              <button
+                onClick={() => setView(view === 'duplicates' ? 'tasks' : 'duplicates')}
+                className={`w-full text-left px-3 py-2 mt-2 rounded-lg text-sm font-medium transition-colors ${
+                  view === 'duplicates'
+                    ? 'bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300 border border-indigo-200 dark:border-indigo-700'
+                    : 'text-slate-700 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span>🔁 Possible Duplicates</span>
+                  <span className={`px-2 py-1 rounded-full text-xs ${
+                    duplicates.length > 0
+                      ? 'bg-amber-100 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300'
+                      : 'bg-slate-100 dark:bg-gray-600 text-slate-700 dark:text-gray-300'
+                  }`}>
+                    {duplicates.length}
+                  </span>
+                </div>
+              </button>
+            </div>
+
             <div className="mb-6">
               <h3 className="text-sm font-medium text-slate-900 dark:text-white mb-3">Filter by Account</h3>
               <div className="space-y-2">
                 <button
-                  onClick={() => setSelectedAccount('all')}
+                  onClick={() => { setSelectedAccount('all'); setView('tasks'); }}
                   className={`w-full text-left px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
                     selectedAccount === 'all'
                       ? 'bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300 border border-indigo-200 dark:border-indigo-700'
@@ -523,17 +834,16 @@ const Dashboard: React.FC = () => {
                   <div className="flex items-center justify-between">
                     <span>All Tasks</span>
                     <span className="bg-slate-100 dark:bg-gray-600 text-slate-700 dark:text-gray-300 px-2 py-1 rounded-full text-xs">
-                      {tasks.length}
+                      {taskCounts.total}
                     </span>
                   </div>
                 </button>
                 
                 {taskAccounts.map((accountEmail) => {
-                  const accountTasks = tasks.filter(task => task.account_email === accountEmail);
                   return (
                     <button
                       key={accountEmail}
-                      onClick={() => setSelectedAccount(accountEmail!)}
+                      onClick={() => { setSelectedAccount(accountEmail!); setView('tasks'); }}
                       className={`w-full text-left px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
                         selectedAccount === accountEmail
                           ? 'bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300 border border-indigo-200 dark:border-indigo-700'
@@ -546,7 +856,7 @@ const Dashboard: React.FC = () => {
                           <span className="truncate">{accountEmail}</span>
                         </div>
                         <span className="bg-slate-100 dark:bg-gray-600 text-slate-700 dark:text-gray-300 px-2 py-1 rounded-full text-xs">
-                          {accountTasks.length}
+                          {taskCounts.byAccount[accountEmail]}
                         </span>
                       </div>
                     </button>
@@ -572,7 +882,7 @@ const Dashboard: React.FC = () => {
                       <span>🔥 High & Urgent Only</span>
                     </div>
                     <span className="bg-slate-100 dark:bg-gray-600 text-slate-700 dark:text-gray-300 px-2 py-1 rounded-full text-xs">
-                      {tasks.filter(task => task.priority === 'HIGH' || task.priority === 'URGENT').length}
+                      {(taskCounts.byPriority.HIGH || 0) + (taskCounts.byPriority.URGENT || 0)}
                     </span>
                   </div>
                 </button>
@@ -589,7 +899,7 @@ const Dashboard: React.FC = () => {
                       <span>📋 All Priorities</span>
                     </div>
                     <span className="bg-slate-100 dark:bg-gray-600 text-slate-700 dark:text-gray-300 px-2 py-1 rounded-full text-xs">
-                      {tasks.length}
+                      {taskCounts.total}
                     </span>
                   </div>
                 </button>
@@ -606,7 +916,7 @@ const Dashboard: React.FC = () => {
                     <span className="text-sm text-slate-700 dark:text-gray-300">Pending</span>
                   </div>
                   <span className="bg-orange-100 dark:bg-orange-900/20 text-orange-800 dark:text-orange-300 px-2 py-1 rounded-full text-xs font-medium">
-                    {tasks.filter(task => task.status === 'PENDING').length}
+                    {taskCounts.byStatus.PENDING || 0}
                   </span>
                 </div>
                 <div className="flex items-center justify-between px-3 py-2 rounded-lg bg-slate-50 dark:bg-gray-700">
@@ -615,7 +925,7 @@ const Dashboard: React.FC = () => {
                     <span className="text-sm text-slate-700 dark:text-gray-300">In Progress</span>
                   </div>
                   <span className="bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300 px-2 py-1 rounded-full text-xs font-medium">
-                    {tasks.filter(task => task.status === 'IN_PROGRESS').length}
+                    {taskCounts.byStatus.IN_PROGRESS || 0}
                   </span>
                 </div>
               </div>
@@ -808,15 +1118,31 @@ const Dashboard: React.FC = () => {
           {/* Top Bar with Gmail Summary */}
           <div className="bg-white dark:bg-gray-800 border-b border-slate-200 dark:border-gray-700 p-4">
             <div className="flex items-center justify-between">
-              <div>
-                <h1 className="text-2xl font-bold text-slate-900 dark:text-white">
-                  {selectedAccount === 'all' ? 'All Tasks' : `Tasks from ${selectedAccount}`}
-                </h1>
-                <p className="text-sm text-slate-600 dark:text-gray-400">
-                  {filteredTasks.length} task{filteredTasks.length !== 1 ? 's' : ''} • 
-                  {filteredTasks.filter(t => t.status === 'COMPLETED').length} completed
-                </p>
-              </div>
+              {view === 'review' ? (
+                <div>
+                  <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Suggested Tasks</h1>
+                  <p className="text-sm text-slate-600 dark:text-gray-400">
+                    {suggestions.length} suggestion{suggestions.length !== 1 ? 's' : ''} waiting for review
+                  </p>
+                </div>
+              ) : view === 'duplicates' ? (
+                <div>
+                  <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Possible Duplicates</h1>
+                  <p className="text-sm text-slate-600 dark:text-gray-400">
+                    Merging keeps one task with the source emails of both
+                  </p>
+                </div>
+              ) : (
+                <div>
+                  <h1 className="text-2xl font-bold text-slate-900 dark:text-white">
+                    {selectedAccount === 'all' ? 'All Tasks' : `Tasks from ${selectedAccount}`}
+                  </h1>
+                  <p className="text-sm text-slate-600 dark:text-gray-400">
+                    {filteredTasks.length}{nextCursor ? '+' : ''} task{filteredTasks.length !== 1 ? 's' : ''} • 
+                    {filteredTasks.filter(t => t.status === 'COMPLETED').length} completed
+                  </p>
+                </div>
+              )}
 
 
 
@@ -869,7 +1195,66 @@ const Dashboard: React.FC = () => {
 
           {/* Tasks List */}
           <div className="flex-1 overflow-auto p-6">
-            {filteredTasks.length === 0 ? (
+            {/* Search */}
+            {view === 'tasks' && (
+              <div className="relative mb-3">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm">🔎</span>
+                <input
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  maxLength={200}
+                  placeholder='Search tasks and their emails, e.g. "invoice acme"'
+                  className="w-full pl-9 pr-4 py-2 border border-slate-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            )}
+
+            {/* Quick Add */}
+            {view === 'tasks' && !searchQuery.trim() && (
+              <form onSubmit={handleQuickAdd} className="mb-4">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={quickAddText}
+                    onChange={(e) => setQuickAddText(e.target.value)}
+                    maxLength={1000}
+                    placeholder='Quick add, e.g. "Call Bob tomorrow 3pm high"'
+                    className="flex-1 px-4 py-2 border border-slate-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={addingTask || !quickAddText.trim()}
+                    className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {addingTask ? 'Adding...' : 'Add Task'}
+                  </button>
+                </div>
+                {quickAddNotice && (
+                  <p className="text-xs text-slate-600 dark:text-gray-400 mt-1.5">{quickAddNotice}</p>
+                )}
+              </form>
+            )}
+
+            {view === 'review' ? (
+              <SuggestionQueue
+                suggestions={suggestions}
+                onAccept={handleAcceptSuggestion}
+                onReject={handleRejectSuggestion}
+              />
+            ) : view === 'duplicates' ? (
+              <DuplicateQueue
+                duplicates={duplicates}
+                onMerge={handleMergeDuplicate}
+                onDismiss={handleDismissDuplicate}
+              />
+            ) : searchQuery.trim() ? (
+              <TaskSearchResults
+                query={searchQuery.trim()}
+                results={searchResults}
+                searching={searching}
+              />
+            ) : filteredTasks.length === 0 ? (
               <div className="text-center py-12">
                 <div className="w-16 h-16 bg-slate-100 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
                   <span className="text-2xl">📝</span>
@@ -879,7 +1264,7 @@ const Dashboard: React.FC = () => {
                 </h3>
                 <p className="text-slate-600 dark:text-gray-400 max-w-sm mx-auto">
                   {gmailData?.accounts && gmailData.accounts.length > 0
-                    ? 'Click "Parse New Tasks" in the sidebar to extract tasks from your Gmail inbox'
+                    ? 'Click "Parse New Tasks" in the sidebar to extract tasks from your Gmail inbox, then review them under Suggested Tasks'
                     : 'Connect your Gmail account to start extracting tasks'
                   }
                 </p>
@@ -917,8 +1302,24 @@ const Dashboard: React.FC = () => {
                   </div>
                 )}
 
+                {editError && (
+                  <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg px-4 py-3 flex items-center justify-between">
+                    <span className="text-sm text-red-700 dark:text-red-300">{editError}</span>
+                    <button onClick={() => setEditError('')} className="text-red-400 hover:text-red-600 text-xs">✕</button>
+                  </div>
+                )}
+
                 {filteredTasks.map((task) => (
                   <div key={task.id} className="bg-white dark:bg-gray-800 rounded-xl border border-slate-200 dark:border-gray-700 p-4 hover:shadow-md transition-shadow">
+                    {editingTaskId === task.id ? (
+                      <TaskEditForm
+                        initial={task}
+                        showNotes
+                        saving={savingTask}
+                        onSave={(values) => handleSaveTask(task, values)}
+                        onCancel={() => setEditingTaskId(null)}
+                      />
+                    ) : (
                     <div className="flex items-start justify-between">
                       <div className="flex-1 min-w-0">
                         <div className="flex items-start space-x-3 mb-1.5">
@@ -935,6 +1336,9 @@ const Dashboard: React.FC = () => {
                             {task.description && (
                               <p className="text-slate-600 dark:text-gray-400 mt-1 line-clamp-2">{task.description}</p>
                             )}
+                            {task.notes && (
+                              <p className="text-sm text-slate-500 dark:text-gray-400 mt-1 italic line-clamp-2">📝 {task.notes}</p>
+                            )}
                           </div>
                           <div className="flex items-center space-x-1 flex-shrink-0">
                             <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getPriorityColor(task.priority)}`}>
@@ -950,10 +1354,10 @@ const Dashboard: React.FC = () => {
                               <span className="text-emerald-700 dark:text-emerald-400 font-medium">{task.account_email}</span>
                             </div>
                           )}
-                          {task.source === 'gmail' && task.source_id && (
+                          {(task.source === 'gmail' || task.source === 'outlook') && task.source_id && (
                             <div className="relative">
                               <a 
-                                href={getGmailUrl(task.source_id, task.account_email)} 
+                                href={task.source === 'outlook' ? getOutlookUrl(task.source_id) : getGmailUrl(task.source_id, task.account_email)} 
                                 target="_blank" 
                                 rel="noopener noreferrer"
                                 onMouseEnter={(e) => handleEmailPreview(e, task)}
@@ -998,10 +1402,21 @@ const Dashboard: React.FC = () => {
                               )}
                             </div>
                           )}
+                          {task.source === 'slack' && task.source_url && (
+                            <a
+                              href={task.source_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-indigo-600 hover:text-indigo-800 font-medium flex items-center space-x-1"
+                              title="View in Slack"
+                            >
+                              <span className="text-lg">💬</span>
+                            </a>
+                          )}
                           {task.due_date && (
-                            <div className="flex items-center space-x-1">
+                            <div className="flex items-center space-x-1" title={task.due_phrase ? `"${task.due_phrase}"` : undefined}>
                               <span>📅</span>
-                              <span>{new Date(task.due_date).toLocaleDateString()}</span>
+                              <span>{formatDueDate(task.due_date, task.due_at)}</span>
                             </div>
                           )}
                           <div className="flex items-center space-x-1">
@@ -1058,6 +1473,13 @@ const Dashboard: React.FC = () => {
                             ❌
                           </button>
                         </div>
+                        <button
+                          onClick={() => { setEditingTaskId(task.id); setEditError(''); }}
+                          className="text-slate-500 hover:text-slate-700 p-1 rounded hover:bg-slate-50 transition-colors"
+                          title="Edit task"
+                        >
+                          ✏️
+                        </button>
                         <button
                           onClick={() => handleDeleteTask(task.id)}
                           className="text-red-600 hover:text-red-800 p-1 rounded hover:bg-red-50 transition-colors"
@@ -1067,8 +1489,21 @@ const Dashboard: React.FC = () => {
                         </button>
                       </div>
                     </div>
+                    )}
                   </div>
                 ))}
+
+                {nextCursor && (
+                  <div className="text-center pt-2">
+                    <button
+                      onClick={handleLoadMore}
+                      disabled={loadingMore}
+                      className="px-4 py-2 bg-slate-100 dark:bg-gray-700 text-slate-700 dark:text-gray-300 text-sm rounded-lg hover:bg-slate-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+                    >
+                      {loadingMore ? 'Loading...' : 'Load more'}
+                    </button>
+                  </div>
+                )}
               </div>
             )}
           </div>
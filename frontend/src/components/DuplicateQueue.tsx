@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { formatDueDate } from '../utils/dueDates';
+
+interface TaskSource {
+  id: string;
+  source: string;
+  source_id: string;
+  source_url?: string;
+  account_email?: string;
+  email_sender?: string;
+  email_subject?: string;
+  email_received_at?: string;
+}
+
+interface DuplicateTask {
+  id: string;
+  title: string;
+  description?: string;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+  due_date?: string;
+  due_at?: string;
+  review_status?: 'suggested' | 'accepted' | 'rejected';
+  created_at: string;
+  sources: TaskSource[];
+}
+
+export interface PossibleDuplicate {
+  id: string;
+  reason: 'message_id' | 'title' | 'embedding';
+  score: number;
+  created_at: string;
+  task: DuplicateTask; // The newer task
+  duplicate_of: DuplicateTask;
+}
+
+interface DuplicateQueueProps {
+  duplicates: PossibleDuplicate[];
+  onMerge: (duplicateId: string, keep: 'task' | 'duplicate_of') => Promise<void>;
+  onDismiss: (duplicateId: string) => Promise<void>;
+}
+
+const REASON_LABELS: Record<PossibleDuplicate['reason'], string> = {
+  message_id: 'Same email',
+  title: 'Similar title',
+  embedding: 'Similar meaning',
+};
+
+const getSourceUrl = (source: TaskSource): string | undefined => {
+  if (source.source_url) return source.source_url;
+  if (source.source === 'outlook') {
+    return `https://outlook.office.com/mail/deeplink/read/${encodeURIComponent(source.source_id)}`;
+  }
+  if (source.source === 'gmail') {
+    return source.account_email
+      ? `https://mail.google.com/mail/u/?authuser=${encodeURIComponent(source.account_email)}#inbox/${source.source_id}`
+      : `https://mail.google.com/mail/u/0/#inbox/${source.source_id}`;
+  }
+  return undefined;
+};
+
+const DuplicateQueue: React.FC<DuplicateQueueProps> = ({ duplicates, onMerge, onDismiss }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handle = async (duplicateId: string, action: () => Promise<void>) => {
+    setBusyId(duplicateId);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (duplicates.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 bg-slate-100 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
+          <span className="text-2xl">🔁</span>
+        </div>
+        <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">No possible duplicates</h3>
+        <p className="text-slate-600 dark:text-gray-400 max-w-sm mx-auto">
+          Tasks that look like one you already have, such as the same email in two accounts, show up here
+        </p>
+      </div>
+    );
+  }
+
+  const renderTask = (duplicate: PossibleDuplicate, side: 'task' | 'duplicate_of') => {
+    const task = duplicate[side];
+
+    return (
+      <div className="flex-1 min-w-0 bg-slate-50 dark:bg-gray-900/40 rounded-lg p-3">
+        <div className="flex items-center space-x-2 mb-1">
+          <h4 className="font-semibold text-slate-900 dark:text-white truncate">{task.title}</h4>
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-700 border border-slate-200">
+            {task.priority}
+          </span>
+        </div>
+        {task.description && (
+          <p className="text-sm text-slate-600 dark:text-gray-400 line-clamp-2">{task.description}</p>
+        )}
+        <div className="flex items-center space-x-3 mt-1.5 text-xs text-slate-500 dark:text-gray-400">
+          <span>{task.review_status === 'suggested' ? 'Suggestion' : task.status.replace('_', ' ').toLowerCase()}</span>
+          {task.due_date && <span>📅 {formatDueDate(task.due_date, task.due_at)}</span>}
+          <span>Added {new Date(task.created_at).toLocaleDateString()}</span>
+        </div>
+        {task.sources.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {task.sources.map(source => {
+              const url = getSourceUrl(source);
+              const label = `${source.email_subject || source.source}${source.account_email ? ` · ${source.account_email}` : ''}`;
+              return (
+                <li key={source.id} className="text-xs truncate">
+                  {url ? (
+                    <a href={url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                      {label}
+                    </a>
+                  ) : (
+                    <span className="text-slate-600 dark:text-gray-400">{label}</span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <button
+          onClick={() => handle(duplicate.id, () => onMerge(duplicate.id, side))}
+          disabled={busyId === duplicate.id}
+          className="mt-3 px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          Merge into this one
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {duplicates.map((duplicate) => (
+        <div key={duplicate.id} className="bg-white dark:bg-gray-800 rounded-xl border border-dashed border-amber-300 dark:border-amber-700 p-4">
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-sm text-slate-600 dark:text-gray-400">
+              {REASON_LABELS[duplicate.reason]} · {Math.round(duplicate.score * 100)}% match
+            </span>
+            <button
+              onClick={() => handle(duplicate.id, () => onDismiss(duplicate.id))}
+              disabled={busyId === duplicate.id}
+              className="px-3 py-1.5 text-slate-600 dark:text-gray-300 text-sm rounded-lg hover:bg-slate-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+            >
+              Not a duplicate
+            </button>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:space-x-3 space-y-3 sm:space-y-0">
+            {renderTask(duplicate, 'duplicate_of')}
+            {renderTask(duplicate, 'task')}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DuplicateQueue;
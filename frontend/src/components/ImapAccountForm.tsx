@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { useAuth } from '../contexts/AuthContext';
+
+interface ImapServer {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+}
+
+interface ImapAccountFormProps {
+  // Set when editing an existing account; its password is kept unless a new one is entered
+  integrationId?: string;
+  server?: ImapServer;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const ImapAccountForm: React.FC<ImapAccountFormProps> = ({ integrationId, server, onSaved, onCancel }) => {
+  const { token } = useAuth();
+  const [host, setHost] = useState(server?.host || '');
+  const [port, setPort] = useState(String(server?.port || 993));
+  const [secure, setSecure] = useState(server?.secure ?? true);
+  const [username, setUsername] = useState(server?.username || '');
+  const [password, setPassword] = useState('');
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSecureChange = (checked: boolean) => {
+    setSecure(checked);
+    // Follow the usual port for the connection type unless a custom one was entered
+    if (port === '993' || port === '143') {
+      setPort(checked ? '993' : '143');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError('');
+      const settings = { host, port: parseInt(port, 10), secure, username, password };
+      const headers = { Authorization: `Bearer ${token}` };
+
+      if (integrationId) {
+        await axios.put(`/api/integrations/${integrationId}/imap`, settings, { headers });
+      } else {
+        await axios.post('/api/integrations/imap', { ...settings, email, name }, { headers });
+      }
+      onSaved();
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to connect to the IMAP server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-slate-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+  const labelClassName = 'block text-sm font-medium text-slate-700 dark:text-gray-300 mb-1';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-gray-400">
+        {integrationId
+          ? 'Update the server settings or password. Leave the password blank to keep the current one.'
+          : 'Connect any mailbox that supports IMAP. Use an app password if your provider offers them.'}
+      </p>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="sm:col-span-2">
+          <label className={labelClassName}>IMAP server</label>
+          <input
+            type="text"
+            value={host}
+            onChange={(e) => setHost(e.target.value)}
+            placeholder="imap.example.com"
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Port</label>
+          <input
+            type="number"
+            value={port}
+            onChange={(e) => setPort(e.target.value)}
+            min={1}
+            max={65535}
+            required
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-slate-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={secure}
+          onChange={(e) => handleSecureChange(e.target.checked)}
+          className="rounded border-slate-300"
+        />
+        <span>Use SSL/TLS (otherwise STARTTLS is used when the server offers it)</span>
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClassName}>Username</label>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required={!integrationId}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {!integrationId && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClassName}>Email address (optional)</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Defaults to the username"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>Account name (optional)</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Connecting...' : integrationId ? 'Save' : 'Connect'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm text-slate-600 dark:text-gray-300 hover:text-slate-800 px-3 py-2"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ImapAccountForm;
@@ -1,8 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import Header from './Header';
+import SlackChannels from './SlackChannels';
+import ImapAccountForm from './ImapAccountForm';
 import axios from 'axios';
 
+interface SyncStatus {
+  status: 'idle' | 'running' | 'ok' | 'error';
+  last_run_at?: string;
+  last_success_at?: string;
+  last_error?: string;
+  last_result?: { processed?: number; created?: number };
+  consecutive_failures: number;
+  next_run_at?: string;
+}
+
+interface IntegrationHealth {
+  status: 'ok' | 'needs_reauth' | 'quota_exceeded' | 'error';
+  last_error_at?: string;
+  last_error_message?: string;
+}
+
 interface Integration {
   id: string;
   provider: string;
@@ -10,6 +28,8 @@ interface Integration {
   account_email: string;
   is_active: boolean;
   metadata?: any;
+  sync?: SyncStatus | null;
+  health?: IntegrationHealth;
   created_at: string;
   updated_at: string;
 }
@@ -19,6 +39,11 @@ const Integrations: React.FC = () => {
   const [integrations, setIntegrations] = useState<Integration[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [keepTasks, setKeepTasks] = useState(false);
+  const [channelsOpenId, setChannelsOpenId] = useState<string | null>(null);
+  // 'new' while adding an IMAP account, or the ID of the IMAP account being edited
+  const [imapFormId, setImapFormId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchIntegrations();
@@ -38,10 +63,17 @@ const Integrations: React.FC = () => {
     }
   };
 
-  const handleAddAccount = async () => {
+  const handleAddAccount = async (provider: string = 'google', reconnectIntegrationId?: string) => {
+    // IMAP accounts sign in with a password instead of OAuth
+    if (provider === 'imap') {
+      setImapFormId(reconnectIntegrationId || 'new');
+      return;
+    }
+
     try {
-      const response = await axios.get('/api/integrations/add-account-url?provider=google', {
-        headers: { Authorization: `Bearer ${token}` }
+      const response = await axios.get('/api/integrations/add-account-url', {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { provider, integration_id: reconnectIntegrationId }
       });
       
       // Open the OAuth URL in a new window
@@ -57,16 +89,21 @@ const Integrations: React.FC = () => {
     }
   };
 
-  const handleRemoveIntegration = async (integrationId: string) => {
-    if (!window.confirm('Are you sure you want to remove this account? This will delete all associated data.')) {
-      return;
-    }
+  const handleImapSaved = async () => {
+    setImapFormId(null);
+    await fetchIntegrations();
+  };
 
+  const handleRemoveIntegration = async (integrationId: string) => {
     try {
       await axios.delete(`/api/integrations/${integrationId}`, {
-        headers: { Authorization: `Bearer ${token}` }
+        headers: { Authorization: `Bearer ${token}` },
+        params: { tasks: keepTasks ? 'keep' : 'delete' }
       });
       
+      setRemovingId(null);
+      setKeepTasks(false);
+
       // Refresh integrations
       await fetchIntegrations();
       
@@ -98,6 +135,8 @@ const Integrations: React.FC = () => {
         return '📧';
       case 'microsoft':
         return '📧';
+      case 'imap':
+        return '📬';
       case 'slack':
         return '💬';
       default:
@@ -105,12 +144,25 @@ const Integrations: React.FC = () => {
     }
   };
 
+  const getHealthLabel = (health: IntegrationHealth) => {
+    switch (health.status) {
+      case 'needs_reauth':
+        return 'Access was revoked or has expired. Reconnect to resume syncing.';
+      case 'quota_exceeded':
+        return 'Usage limits reached. Syncing resumes automatically later.';
+      default:
+        return 'The last request to this account failed.';
+    }
+  };
+
   const getProviderName = (provider: string) => {
     switch (provider) {
       case 'google':
         return 'Gmail';
       case 'microsoft':
         return 'Outlook';
+      case 'imap':
+        return 'IMAP';
       case 'slack':
         return 'Slack';
       default:
@@ -138,16 +190,46 @@ const Integrations: React.FC = () => {
                   </p>
                 </div>
               </div>
-              <button
-                onClick={handleAddAccount}
-                className="bg-emerald-600 text-white px-6 py-3 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors flex items-center space-x-2 shadow-sm"
-              >
-                <span className="text-lg">+</span>
-                <span>Add Account</span>
-              </button>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => handleAddAccount('google')}
+                  className="bg-emerald-600 text-white px-6 py-3 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors flex items-center space-x-2 shadow-sm"
+                >
+                  <span className="text-lg">+</span>
+                  <span>Add Gmail</span>
+                </button>
+                <button
+                  onClick={() => handleAddAccount('microsoft')}
+                  className="bg-sky-600 text-white px-6 py-3 rounded-lg text-sm font-medium hover:bg-sky-700 transition-colors flex items-center space-x-2 shadow-sm"
+                >
+                  <span className="text-lg">+</span>
+                  <span>Add Outlook</span>
+                </button>
+                <button
+                  onClick={() => handleAddAccount('imap')}
+                  className="bg-slate-600 text-white px-6 py-3 rounded-lg text-sm font-medium hover:bg-slate-700 transition-colors flex items-center space-x-2 shadow-sm"
+                >
+                  <span className="text-lg">+</span>
+                  <span>Add IMAP</span>
+                </button>
+                <button
+                  onClick={() => handleAddAccount('slack')}
+                  className="bg-purple-600 text-white px-6 py-3 rounded-lg text-sm font-medium hover:bg-purple-700 transition-colors flex items-center space-x-2 shadow-sm"
+                >
+                  <span className="text-lg">+</span>
+                  <span>Add Slack</span>
+                </button>
+              </div>
             </div>
           </div>
 
+          {imapFormId === 'new' && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-8">
+              <h3 className="text-xl font-semibold text-slate-900 dark:text-white mb-4">Connect an IMAP account</h3>
+              <ImapAccountForm onSaved={handleImapSaved} onCancel={() => setImapFormId(null)} />
+            </div>
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4">
@@ -190,14 +272,34 @@ const Integrations: React.FC = () => {
                 <h3 className="text-xl font-medium text-slate-900 dark:text-white mb-2">No accounts connected</h3>
                 <p className="text-slate-600 dark:text-gray-400 mb-6 max-w-md mx-auto">
                   Connect your first account to start managing tasks from multiple sources. 
-                  You can add Gmail, Outlook, Slack, and more.
+                  You can add Gmail, Outlook, any IMAP mailbox, Slack, and more.
                 </p>
-                <button
-                  onClick={handleAddAccount}
-                  className="bg-indigo-600 text-white px-6 py-3 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm"
-                >
-                  Connect Your First Account
-                </button>
+                <div className="flex justify-center space-x-3">
+                  <button
+                    onClick={() => handleAddAccount('google')}
+                    className="bg-indigo-600 text-white px-6 py-3 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm"
+                  >
+                    Connect Gmail
+                  </button>
+                  <button
+                    onClick={() => handleAddAccount('microsoft')}
+                    className="bg-sky-600 text-white px-6 py-3 rounded-lg text-sm font-medium hover:bg-sky-700 transition-colors shadow-sm"
+                  >
+                    Connect Outlook
+                  </button>
+                  <button
+                    onClick={() => handleAddAccount('imap')}
+                    className="bg-slate-600 text-white px-6 py-3 rounded-lg text-sm font-medium hover:bg-slate-700 transition-colors shadow-sm"
+                  >
+                    Connect IMAP
+                  </button>
+                  <button
+                    onClick={() => handleAddAccount('slack')}
+                    className="bg-purple-600 text-white px-6 py-3 rounded-lg text-sm font-medium hover:bg-purple-700 transition-colors shadow-sm"
+                  >
+                    Connect Slack
+                  </button>
+                </div>
               </div>
             ) : (
               <div className="space-y-6">
@@ -236,10 +338,47 @@ const Integrations: React.FC = () => {
                             <p className="text-xs text-slate-400 dark:text-gray-500 mt-1">
                               Connected {new Date(integration.created_at).toLocaleDateString()}
                             </p>
+                            {integration.sync && (
+                              <p title={integration.sync.last_error} className={`text-xs mt-1 ${
+                                integration.sync.status === 'error'
+                                  ? 'text-amber-600 dark:text-amber-400'
+                                  : 'text-slate-500 dark:text-gray-400'
+                              }`}>
+                                {integration.sync.status === 'running'
+                                  ? 'Auto-sync running...'
+                                  : integration.sync.last_run_at
+                                    ? `Auto-sync ${integration.sync.status === 'error' ? 'failed' : 'checked'} ${new Date(integration.sync.last_run_at).toLocaleString()}`
+                                    : 'Auto-sync pending'}
+                                {integration.sync.status === 'ok' && integration.sync.last_result?.created
+                                  ? ` • ${integration.sync.last_result.created} new task${integration.sync.last_result.created !== 1 ? 's' : ''}`
+                                  : ''}
+                                {integration.sync.status === 'error' && integration.sync.next_run_at
+                                  ? ` • retrying ${new Date(integration.sync.next_run_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                                  : ''}
+                              </p>
+                            )}
                           </div>
                         </div>
                         
                         <div className="flex items-center space-x-3">
+                          {integration.provider === 'slack' && (
+                            <button
+                              onClick={() => setChannelsOpenId(channelsOpenId === integration.id ? null : integration.id)}
+                              className="text-indigo-600 hover:text-indigo-800 text-sm font-medium px-3 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+                            >
+                              Channels
+                            </button>
+                          )}
+
+                          {integration.provider === 'imap' && (
+                            <button
+                              onClick={() => setImapFormId(imapFormId === integration.id ? null : integration.id)}
+                              className="text-indigo-600 hover:text-indigo-800 text-sm font-medium px-3 py-2 rounded-lg hover:bg-indigo-50 transition-colors"
+                            >
+                              Settings
+                            </button>
+                          )}
+
                           <button
                             onClick={() => handleToggleIntegration(integration.id, integration.is_active)}
                             className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
@@ -252,7 +391,7 @@ const Integrations: React.FC = () => {
                           </button>
                           
                           <button
-                            onClick={() => handleRemoveIntegration(integration.id)}
+                            onClick={() => { setRemovingId(integration.id); setKeepTasks(false); }}
                             className="text-red-600 hover:text-red-800 text-sm font-medium px-3 py-2 rounded-lg hover:bg-red-50 transition-colors"
                           >
                             Remove
@@ -260,7 +399,85 @@ const Integrations: React.FC = () => {
                         </div>
                       </div>
                       
-                      {integration.metadata?.error && (
+                      {channelsOpenId === integration.id && (
+                        <div className="mt-4 p-4 bg-slate-50 dark:bg-gray-700/50 border border-slate-200 dark:border-gray-600 rounded-lg">
+                          <SlackChannels integrationId={integration.id} />
+                        </div>
+                      )}
+
+                      {imapFormId === integration.id && (
+                        <div className="mt-4 p-4 bg-slate-50 dark:bg-gray-700/50 border border-slate-200 dark:border-gray-600 rounded-lg">
+                          <ImapAccountForm
+                            integrationId={integration.id}
+                            server={integration.metadata?.imapServer}
+                            onSaved={handleImapSaved}
+                            onCancel={() => setImapFormId(null)}
+                          />
+                        </div>
+                      )}
+
+                      {removingId === integration.id && (
+                        <div className="mt-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                          <p className="text-sm font-medium text-red-800 dark:text-red-200">
+                            Remove {integration.account_email}? {integration.provider === 'imap'
+                              ? 'The stored password and message history are deleted.'
+                              : `Access is revoked with ${getProviderName(integration.provider)} and message history is deleted.`}
+                          </p>
+                          <label className="flex items-center space-x-2 mt-3 text-sm text-slate-700 dark:text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={keepTasks}
+                              onChange={(e) => setKeepTasks(e.target.checked)}
+                              className="rounded border-slate-300"
+                            />
+                            <span>Keep tasks from this account</span>
+                          </label>
+                          <div className="flex items-center space-x-3 mt-3">
+                            <button
+                              onClick={() => handleRemoveIntegration(integration.id)}
+                              className="bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 transition-colors"
+                            >
+                              Remove Account
+                            </button>
+                            <button
+                              onClick={() => setRemovingId(null)}
+                              className="text-sm text-slate-600 dark:text-gray-300 hover:text-slate-800 px-3 py-2"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      )}
+
+                      {integration.health && integration.health.status !== 'ok' ? (
+                        <div className={`mt-4 p-4 rounded-lg border flex items-center justify-between ${
+                          integration.health.status === 'needs_reauth'
+                            ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                            : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'
+                        }`}>
+                          <div>
+                            <p className={`text-sm font-medium ${
+                              integration.health.status === 'needs_reauth' ? 'text-red-800 dark:text-red-200' : 'text-amber-800 dark:text-amber-200'
+                            }`}>
+                              {getHealthLabel(integration.health)}
+                            </p>
+                            {integration.health.last_error_message && (
+                              <p className="text-xs text-slate-600 dark:text-gray-400 mt-1">
+                                {integration.health.last_error_message}
+                                {integration.health.last_error_at && ` • ${new Date(integration.health.last_error_at).toLocaleString()}`}
+                              </p>
+                            )}
+                          </div>
+                          {integration.health.status === 'needs_reauth' && (
+                            <button
+                              onClick={() => handleAddAccount(integration.provider, integration.id)}
+                              className="ml-4 flex-shrink-0 bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 transition-colors"
+                            >
+                              Reconnect
+                            </button>
+                          )}
+                        </div>
+                      ) : integration.metadata?.error && (
                         <div className="mt-4 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
                           <div className="flex items-center space-x-2">
                             <svg className="h-4 w-4 text-amber-400" fill="currentColor" viewBox="0 0 20 20">
@@ -285,12 +502,32 @@ const Integrations: React.FC = () => {
                   <p className="text-slate-600 dark:text-gray-400 mb-4">
                     Connect more accounts to manage tasks from multiple sources
                   </p>
-                  <button
-                    onClick={handleAddAccount}
-                    className="bg-slate-100 dark:bg-gray-700 text-slate-700 dark:text-gray-300 px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-200 dark:hover:bg-gray-600 transition-colors"
-                  >
-                    + Add Account
-                  </button>
+                  <div className="flex justify-center space-x-3">
+                    <button
+                      onClick={() => handleAddAccount('google')}
+                      className="bg-slate-100 dark:bg-gray-700 text-slate-700 dark:text-gray-300 px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-200 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      + Add Gmail
+                    </button>
+                    <button
+                      onClick={() => handleAddAccount('microsoft')}
+                      className="bg-slate-100 dark:bg-gray-700 text-slate-700 dark:text-gray-300 px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-200 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      + Add Outlook
+                    </button>
+                    <button
+                      onClick={() => handleAddAccount('imap')}
+                      className="bg-slate-100 dark:bg-gray-700 text-slate-700 dark:text-gray-300 px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-200 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      + Add IMAP
+                    </button>
+                    <button
+                      onClick={() => handleAddAccount('slack')}
+                      className="bg-slate-100 dark:bg-gray-700 text-slate-700 dark:text-gray-300 px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-200 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      + Add Slack
+                    </button>
+                  </div>
                 </div>
               </div>
             )}
@@ -311,7 +548,7 @@ const Integrations: React.FC = () => {
                 <ul className="mt-3 text-sm text-slate-700 dark:text-gray-300 space-y-2">
                   <li className="flex items-center space-x-2">
                     <span className="w-1.5 h-1.5 bg-blue-600 rounded-full"></span>
-                    <span>Connect multiple Gmail accounts to your keychain</span>
+                    <span>Connect multiple Gmail, Outlook, IMAP and Slack accounts to your keychain</span>
                   </li>
                   <li className="flex items-center space-x-2">
                     <span className="w-1.5 h-1.5 bg-blue-600 rounded-full"></span>
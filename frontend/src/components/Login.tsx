@@ -4,7 +4,7 @@ import { useAuth } from '../contexts/AuthContext';
 const Login: React.FC = () => {
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const { loginWithGoogle } = useAuth();
+  const { loginWithGoogle, loginWithMicrosoft } = useAuth();
 
   const handleGoogleLogin = async () => {
     setError('');
@@ -18,12 +18,24 @@ const Login: React.FC = () => {
     }
   };
 
+  const handleMicrosoftLogin = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      await loginWithMicrosoft();
+    } catch (error: any) {
+      setError(error.message);
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary-50 to-primary-100 flex items-center justify-center p-4">
       <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Welcome to Task Management</h1>
-          <p className="text-gray-600">Sign in with your Google account to continue</p>
+          <p className="text-gray-600">Sign in with your Google or Microsoft account to continue</p>
         </div>
 
         {error && (
@@ -47,6 +59,21 @@ const Login: React.FC = () => {
           Continue with Google
         </button>
 
+        <button 
+          type="button" 
+          onClick={handleMicrosoftLogin}
+          disabled={loading}
+          className="mt-3 w-full flex items-center justify-center gap-3 bg-white border border-gray-300 text-gray-700 py-3 px-4 rounded-lg font-medium hover:bg-gray-50 focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <svg className="w-5 h-5" viewBox="0 0 24 24">
+            <path fill="#F25022" d="M1 1h10.5v10.5H1z"/>
+            <path fill="#7FBA00" d="M12.5 1H23v10.5H12.5z"/>
+            <path fill="#00A4EF" d="M1 12.5h10.5V23H1z"/>
+            <path fill="#FFB900" d="M12.5 12.5H23V23H12.5z"/>
+          </svg>
+          Continue with Microsoft
+        </button>
+
         <div className="text-center mt-6">
           <p className="text-gray-600 text-sm">
             By signing in, you agree to our terms of service and privacy policy
@@ -11,18 +11,25 @@ const OAuthCallback: React.FC = () => {
         // Get token from URL
         const urlParams = new URLSearchParams(location.search);
         const token = urlParams.get('token');
+        const refreshToken = urlParams.get('refresh_token');
         
         if (token) {
           console.log('Processing OAuth callback with token...');
           
-          // Store the token
+          // Store the tokens
           localStorage.setItem('authToken', token);
+          if (refreshToken) {
+            localStorage.setItem('refreshToken', refreshToken);
+          }
           
           // Remove token from URL
           window.history.replaceState({}, document.title, '/oauth-callback');
           
           // Redirect to dashboard
           navigate('/dashboard', { replace: true });
+        } else if (urlParams.get('action') === 'add-account' && localStorage.getItem('authToken')) {
+          // Adding a mailbox keeps the current session
+          navigate('/integrations', { replace: true });
         } else {
           console.error('No token found in OAuth callback');
           navigate('/login', { replace: true });
@@ -1,11 +1,106 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import Header from './Header';
+import ApiTokens from './ApiTokens';
+import SenderRules from './SenderRules';
+
+interface LoginSession {
+  id: string;
+  user_agent?: string;
+  ip_address?: string;
+  last_seen_at?: string;
+  expires_at: string;
+  created_at: string;
+  current: boolean;
+}
+
+// Rough "Browser on OS" label from a user agent string
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Unknown browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+
+  return `${browser} on ${os}`;
+};
 
 const Profile: React.FC = () => {
-  const { user } = useAuth();
+  const { user, token, logoutEverywhere, updateTimezone } = useAuth();
   const { theme, setTheme } = useTheme();
+  const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const [timezone, setTimezone] = useState(user?.timezone || deviceTimezone);
+  const [timezoneStatus, setTimezoneStatus] = useState('');
+  const [sessions, setSessions] = useState<LoginSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(true);
+  const [sessionsError, setSessionsError] = useState('');
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setSessionsLoading(true);
+      const response = await axios.get('/api/auth/sessions', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setSessions(response.data.sessions);
+    } catch (error: any) {
+      setSessionsError(error.response?.data?.error || 'Failed to fetch sessions');
+    } finally {
+      setSessionsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (token) {
+      fetchSessions();
+    }
+  }, [token, fetchSessions]);
+
+  const handleRevokeSession = async (sessionId: string) => {
+    try {
+      await axios.delete(`/api/auth/sessions/${sessionId}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+    } catch (error: any) {
+      console.error('Revoke session error:', error);
+      setSessionsError(error.response?.data?.error || 'Failed to revoke session');
+    }
+  };
+
+  const handleSaveTimezone = async (value: string) => {
+    try {
+      setTimezoneStatus('');
+      await updateTimezone(value.trim());
+      setTimezone(value.trim());
+      setTimezoneStatus('Saved');
+    } catch (error: any) {
+      console.error('Update timezone error:', error);
+      setTimezoneStatus(error.response?.data?.error || 'Failed to save timezone');
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) {
+      return;
+    }
+
+    try {
+      await logoutEverywhere();
+    } catch (error: any) {
+      console.error('Logout everywhere error:', error);
+      setSessionsError(error.response?.data?.error || 'Failed to sign out everywhere');
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -33,8 +128,101 @@ const Profile: React.FC = () => {
                 </span>
               </div>
             </div>
+            <div className="mt-6">
+              <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Timezone</label>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Deadlines like "tomorrow" or "by 3pm Friday" in your emails are read in this timezone
+              </p>
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  id="timezone"
+                  type="text"
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                  placeholder="Europe/Berlin"
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+                <button
+                  onClick={() => handleSaveTimezone(timezone)}
+                  disabled={!timezone.trim() || timezone.trim() === user?.timezone}
+                  className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Save
+                </button>
+                {deviceTimezone && deviceTimezone !== user?.timezone && (
+                  <button
+                    onClick={() => handleSaveTimezone(deviceTimezone)}
+                    className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                  >
+                    Use this device's timezone ({deviceTimezone})
+                  </button>
+                )}
+                {timezoneStatus && <span className="text-sm text-gray-500 dark:text-gray-400">{timezoneStatus}</span>}
+              </div>
+            </div>
           </div>
 
+          {/* Active Sessions */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-8">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Active Sessions</h2>
+              <button
+                onClick={handleLogoutEverywhere}
+                className="text-red-600 hover:text-red-800 text-sm font-medium px-3 py-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                Log out everywhere
+              </button>
+            </div>
+
+            {sessionsError && (
+              <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 text-sm text-red-800 dark:text-red-200">
+                {sessionsError}
+              </div>
+            )}
+
+            {sessionsLoading ? (
+              <p className="text-gray-500 dark:text-gray-400">Loading sessions...</p>
+            ) : sessions.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">No active sessions</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {sessions.map(session => (
+                  <li key={session.id} className="py-4 flex items-center justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900 dark:text-white">
+                        {describeDevice(session.user_agent)}
+                        {session.current && (
+                          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                            This device
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        {session.ip_address || 'Unknown IP'}
+                        {' · '}Last active {session.last_seen_at ? new Date(session.last_seen_at).toLocaleString() : 'unknown'}
+                        {' · '}Signed in {new Date(session.created_at).toLocaleDateString()}
+                      </div>
+                    </div>
+                    {!session.current && (
+                      <button
+                        onClick={() => handleRevokeSession(session.id)}
+                        className="text-red-600 hover:text-red-800 text-sm font-medium px-3 py-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* API Tokens */}
+          <ApiTokens />
+
+          {/* Sender Rules */}
+          <SenderRules />
+
           {/* Theme Preferences */}
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-8">
             <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Theme Preferences</h2>
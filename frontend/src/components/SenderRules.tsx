@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { useAuth } from '../contexts/AuthContext';
+
+interface SenderRule {
+  id: string;
+  pattern: string;
+  action: 'allow' | 'deny';
+  created_at: string;
+}
+
+const SenderRules: React.FC = () => {
+  const { token } = useAuth();
+  const [rules, setRules] = useState<SenderRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [action, setAction] = useState<SenderRule['action']>('deny');
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/tasks/sender-rules', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setRules(response.data.rules);
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to fetch sender rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (token) {
+      fetchRules();
+    }
+  }, [token, fetchRules]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pattern.trim()) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      const response = await axios.post('/api/tasks/sender-rules',
+        { pattern: pattern.trim(), action },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+
+      // Saving an existing address or domain replaces its rule
+      const rule: SenderRule = response.data.rule;
+      setRules(prev => [...prev.filter(r => r.id !== rule.id), rule]);
+      setPattern('');
+    } catch (error: any) {
+      console.error('Save sender rule error:', error);
+      setError(error.response?.data?.error || 'Failed to save sender rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: SenderRule) => {
+    try {
+      await axios.delete(`/api/tasks/sender-rules/${rule.id}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (error: any) {
+      console.error('Delete sender rule error:', error);
+      setError(error.response?.data?.error || 'Failed to delete sender rule');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-8">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Sender Rules</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+        Newsletters and bulk mail are skipped before task extraction. Always read an address or domain, or never read it.
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 text-sm text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className="mb-8 flex flex-col md:flex-row gap-4">
+        <input
+          type="text"
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          maxLength={255}
+          placeholder="e.g. boss@example.com or example.com"
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as SenderRule['action'])}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="deny">Never read</option>
+          <option value="allow">Always read</option>
+        </select>
+        <button
+          type="submit"
+          disabled={saving || !pattern.trim()}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving...' : 'Add Rule'}
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="text-gray-500 dark:text-gray-400">Loading sender rules...</p>
+      ) : rules.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No sender rules yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {rules.map(rule => (
+            <li key={rule.id} className="py-3 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <span className={`px-2 py-0.5 text-xs rounded-full ${
+                  rule.action === 'allow'
+                    ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                    : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                }`}>
+                  {rule.action === 'allow' ? 'Always read' : 'Never read'}
+                </span>
+                <span className="font-medium text-gray-900 dark:text-white">{rule.pattern}</span>
+              </div>
+              <button
+                onClick={() => handleDelete(rule)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium px-3 py-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SenderRules;
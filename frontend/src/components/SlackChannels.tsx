@@ -0,0 +1,126 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { useAuth } from '../contexts/AuthContext';
+
+interface SlackChannel {
+  id: string;
+  name: string;
+  type: 'public_channel' | 'private_channel' | 'im' | 'mpim';
+  selected: boolean;
+}
+
+interface SlackChannelsProps {
+  integrationId: string;
+}
+
+const TYPE_LABELS: Record<SlackChannel['type'], string> = {
+  im: 'Direct messages',
+  mpim: 'Group messages',
+  public_channel: 'Channels',
+  private_channel: 'Private channels',
+};
+
+const SlackChannels: React.FC<SlackChannelsProps> = ({ integrationId }) => {
+  const { token } = useAuth();
+  const [channels, setChannels] = useState<SlackChannel[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchChannels = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get(`/api/integrations/${integrationId}/slack/channels`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setChannels(response.data.channels);
+      setSelectedIds(response.data.channels.filter((channel: SlackChannel) => channel.selected).map((channel: SlackChannel) => channel.id));
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to fetch Slack channels');
+    } finally {
+      setLoading(false);
+    }
+  }, [integrationId, token]);
+
+  useEffect(() => {
+    if (token) {
+      fetchChannels();
+    }
+  }, [token, fetchChannels]);
+
+  const toggleChannel = (channelId: string) => {
+    setSaved(false);
+    setSelectedIds(prev => prev.includes(channelId) ? prev.filter(id => id !== channelId) : [...prev, channelId]);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError('');
+      await axios.put(`/api/integrations/${integrationId}/slack/channels`,
+        { channel_ids: selectedIds },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setSaved(true);
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to save Slack channels');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-slate-500 dark:text-gray-400">Loading conversations...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-gray-400">
+        Tasks are extracted from everything others send you in the direct messages you pick, and from messages that mention you in the channels you pick.
+      </p>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {(Object.keys(TYPE_LABELS) as SlackChannel['type'][]).map(type => {
+        const channelsOfType = channels.filter(channel => channel.type === type);
+        if (channelsOfType.length === 0) return null;
+
+        return (
+          <div key={type}>
+            <h5 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-gray-400 mb-2">{TYPE_LABELS[type]}</h5>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+              {channelsOfType.map(channel => (
+                <label key={channel.id} className="flex items-center space-x-2 text-sm text-slate-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(channel.id)}
+                    onChange={() => toggleChannel(channel.id)}
+                    className="rounded border-slate-300"
+                  />
+                  <span className="truncate">{type === 'public_channel' || type === 'private_channel' ? `#${channel.name}` : channel.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        {saved && <span className="text-sm text-emerald-600 dark:text-emerald-400">Saved</span>}
+      </div>
+    </div>
+  );
+};
+
+export default SlackChannels;
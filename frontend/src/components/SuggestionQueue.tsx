@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import TaskEditForm, { TaskEditValues } from './TaskEditForm';
+import { formatDueDate } from '../utils/dueDates';
+
+interface Suggestion {
+  id: string;
+  title: string;
+  description?: string;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  due_date?: string;
+  due_at?: string;
+  due_phrase?: string; // Deadline as written in the email
+  account_email?: string;
+  email_sender?: string;
+  email_received_at?: string;
+  confidence?: number | string;
+  created_at: string;
+}
+
+interface SuggestionQueueProps {
+  suggestions: Suggestion[];
+  onAccept: (suggestionId: string, edits?: TaskEditValues) => Promise<void>;
+  onReject: (suggestionId: string) => Promise<void>;
+}
+
+const SuggestionQueue: React.FC<SuggestionQueueProps> = ({ suggestions, onAccept, onReject }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleAccept = async (suggestionId: string, withEdits?: TaskEditValues) => {
+    setBusyId(suggestionId);
+    try {
+      await onAccept(suggestionId, withEdits);
+      setEditingId(null);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (suggestionId: string) => {
+    setBusyId(suggestionId);
+    try {
+      await onReject(suggestionId);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (suggestions.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 bg-slate-100 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
+          <span className="text-2xl">📥</span>
+        </div>
+        <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">Nothing to review</h3>
+        <p className="text-slate-600 dark:text-gray-400 max-w-sm mx-auto">
+          Tasks extracted from your email show up here before they are added to your task list
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {suggestions.map((suggestion) => (
+        <div key={suggestion.id} className="bg-white dark:bg-gray-800 rounded-xl border border-dashed border-indigo-300 dark:border-indigo-700 p-4">
+          {editingId === suggestion.id ? (
+            <TaskEditForm
+              initial={suggestion}
+              saving={busyId === suggestion.id}
+              saveLabel="Save & Accept"
+              onSave={(values) => handleAccept(suggestion.id, values)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <div className="flex items-start justify-between">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2 mb-1">
+                  <h4 className="text-lg font-semibold text-slate-900 dark:text-white truncate">{suggestion.title}</h4>
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-700 border border-slate-200">
+                    {suggestion.priority}
+                  </span>
+                </div>
+                {suggestion.description && (
+                  <p className="text-slate-600 dark:text-gray-400 line-clamp-2">{suggestion.description}</p>
+                )}
+                <div className="flex items-center space-x-3 mt-1.5 text-sm text-slate-500 dark:text-gray-400">
+                  {suggestion.email_sender && <span>From {suggestion.email_sender}</span>}
+                  {suggestion.account_email && <span className="text-emerald-700 dark:text-emerald-400">{suggestion.account_email}</span>}
+                  {suggestion.due_date && (
+                    <span>
+                      📅 {formatDueDate(suggestion.due_date, suggestion.due_at)}
+                      {suggestion.due_phrase && <span className="italic"> ("{suggestion.due_phrase}")</span>}
+                    </span>
+                  )}
+                  {suggestion.confidence !== undefined && suggestion.confidence !== null && (
+                    <span title="AI confidence">{Math.round(Number(suggestion.confidence) * 100)}%</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2 ml-4 flex-shrink-0">
+                <button
+                  onClick={() => handleAccept(suggestion.id)}
+                  disabled={busyId === suggestion.id}
+                  className="px-3 py-1.5 bg-emerald-600 text-white text-sm rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={() => setEditingId(suggestion.id)}
+                  disabled={busyId === suggestion.id}
+                  className="px-3 py-1.5 bg-slate-100 dark:bg-gray-700 text-slate-700 dark:text-gray-300 text-sm rounded-lg hover:bg-slate-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleReject(suggestion.id)}
+                  disabled={busyId === suggestion.id}
+                  className="px-3 py-1.5 text-red-600 text-sm rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SuggestionQueue;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+
+type Priority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+
+export interface TaskEditValues {
+  title: string;
+  description: string | null;
+  priority: Priority;
+  due_date: string | null;
+  notes?: string | null;
+}
+
+interface TaskEditFormProps {
+  initial: {
+    title: string;
+    description?: string | null;
+    priority: Priority;
+    due_date?: string | null;
+    notes?: string | null;
+  };
+  showNotes?: boolean;
+  saving?: boolean;
+  saveLabel?: string;
+  onSave: (values: TaskEditValues) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-slate-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const TaskEditForm: React.FC<TaskEditFormProps> = ({ initial, showNotes = false, saving = false, saveLabel = 'Save', onSave, onCancel }) => {
+  const [values, setValues] = useState<TaskEditValues>({
+    title: initial.title,
+    description: initial.description || null,
+    priority: initial.priority,
+    due_date: initial.due_date ? initial.due_date.substring(0, 10) : null,
+    ...(showNotes ? { notes: initial.notes || null } : {}),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!values.title.trim()) return;
+    onSave({ ...values, title: values.title.trim() });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <input
+        type="text"
+        value={values.title}
+        onChange={(e) => setValues({ ...values, title: e.target.value })}
+        maxLength={500}
+        className={inputClassName}
+        placeholder="Task title"
+        autoFocus
+      />
+      <textarea
+        value={values.description || ''}
+        onChange={(e) => setValues({ ...values, description: e.target.value || null })}
+        rows={2}
+        className={inputClassName}
+        placeholder="Description"
+      />
+      {showNotes && (
+        <textarea
+          value={values.notes || ''}
+          onChange={(e) => setValues({ ...values, notes: e.target.value || null })}
+          rows={2}
+          className={inputClassName}
+          placeholder="Notes"
+        />
+      )}
+      <div className="flex items-center space-x-3">
+        <select
+          value={values.priority}
+          onChange={(e) => setValues({ ...values, priority: e.target.value as Priority })}
+          className="px-3 py-2 border border-slate-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-slate-900 dark:text-white"
+        >
+          <option value="LOW">Low</option>
+          <option value="MEDIUM">Medium</option>
+          <option value="HIGH">High</option>
+          <option value="URGENT">Urgent</option>
+        </select>
+        <input
+          type="date"
+          value={values.due_date || ''}
+          onChange={(e) => setValues({ ...values, due_date: e.target.value || null })}
+          className="px-3 py-2 border border-slate-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-slate-900 dark:text-white"
+        />
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-slate-600 dark:text-gray-300 hover:text-slate-800"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || !values.title.trim()}
+          className="px-3 py-1.5 bg-emerald-600 text-white text-sm rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : saveLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TaskEditForm;
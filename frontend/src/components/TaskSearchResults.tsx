@@ -0,0 +1,92 @@
+import React from 'react';
+import { formatDueDate } from '../utils/dueDates';
+
+export interface TaskSearchResult {
+  id: string;
+  title: string;
+  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  due_date?: string;
+  due_at?: string;
+  account_email?: string;
+  email_sender?: string;
+  email_subject?: string;
+  title_highlight: string;
+  snippet: string;
+}
+
+interface TaskSearchResultsProps {
+  query: string;
+  results: TaskSearchResult[];
+  searching: boolean;
+}
+
+/**
+ * Render server-highlighted text. Matches arrive wrapped in <mark></mark>; everything
+ * else is rendered as plain text, so task content is never interpreted as HTML.
+ */
+const Highlighted: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+      part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+        <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded px-0.5">
+          {part.slice(6, -7)}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const TaskSearchResults: React.FC<TaskSearchResultsProps> = ({ query, results, searching }) => {
+  if (searching && results.length === 0) {
+    return <div className="text-center py-12 text-sm text-slate-600 dark:text-gray-400">Searching...</div>;
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 bg-slate-100 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
+          <span className="text-2xl">🔎</span>
+        </div>
+        <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">No matching tasks</h3>
+        <p className="text-slate-600 dark:text-gray-400 max-w-sm mx-auto">
+          Nothing matched "{query}". Try fewer words, or search for the sender or email subject
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {results.map((result) => (
+        <div key={result.id} className="bg-white dark:bg-gray-800 rounded-xl border border-slate-200 dark:border-gray-700 p-4">
+          <div className="flex items-center space-x-2 mb-1">
+            <h4 className={`text-lg font-semibold truncate ${
+              result.status === 'COMPLETED' ? 'text-slate-500 line-through' : 'text-slate-900 dark:text-white'
+            }`}>
+              <Highlighted text={result.title_highlight} />
+            </h4>
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-700 border border-slate-200">
+              {result.priority}
+            </span>
+            <span className="text-xs text-slate-500 dark:text-gray-400">{result.status.replace('_', ' ')}</span>
+          </div>
+          {result.snippet && (
+            <p className="text-sm text-slate-600 dark:text-gray-400 line-clamp-2">
+              <Highlighted text={result.snippet} />
+            </p>
+          )}
+          <div className="flex items-center space-x-3 mt-1.5 text-sm text-slate-500 dark:text-gray-400">
+            {result.email_subject && <span className="truncate">✉️ {result.email_subject}</span>}
+            {result.account_email && <span className="text-emerald-700 dark:text-emerald-400">{result.account_email}</span>}
+            {result.due_date && <span>📅 {formatDueDate(result.due_date, result.due_at)}</span>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TaskSearchResults;
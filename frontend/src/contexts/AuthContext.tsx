@@ -1,9 +1,11 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import axios, { InternalAxiosRequestConfig } from 'axios';
 
 interface User {
   id: string;
   email: string;
   name?: string;
+  timezone?: string; // Due dates in emails are resolved in it
   created_at: string;
   updated_at: string;
 }
@@ -13,17 +15,74 @@ const convertBackendUser = (backendUser: any): User => ({
   id: backendUser.id,
   email: backendUser.email || '',
   name: backendUser.name,
+  timezone: backendUser.timezone || undefined,
   created_at: backendUser.created_at,
   updated_at: backendUser.updated_at,
 });
 
+// Exchange the stored refresh token for a new token pair. Concurrent callers share one
+// request, since each refresh token can only be used once.
+let refreshInFlight: Promise<string | null> | null = null;
+
+const refreshStoredSession = (): Promise<string | null> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) {
+        return null;
+      }
+
+      try {
+        const response = await fetch('/api/auth/refresh', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refresh_token: refreshToken }),
+        });
+
+        if (!response.ok) {
+          return null;
+        }
+
+        const { token, refresh_token } = await response.json();
+        localStorage.setItem('authToken', token);
+        localStorage.setItem('refreshToken', refresh_token);
+        return token;
+      } catch (error) {
+        console.error('Session refresh error:', error);
+        return null;
+      }
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+
+  return refreshInFlight;
+};
+
+const fetchCurrentUser = (token: string) =>
+  fetch('/api/auth/me', {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+const saveTimezone = async (token: string, timezone: string): Promise<User> => {
+  const response = await axios.patch('/api/auth/me', { timezone }, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  return convertBackendUser(response.data.user);
+};
+
 interface AuthContextType {
   user: User | null;
   token: string | null;
   login: (email: string, password: string) => Promise<void>;
   loginWithGoogle: () => Promise<void>;
+  loginWithMicrosoft: () => Promise<void>;
   register: (email: string, password: string, name?: string) => Promise<void>;
   logout: () => void;
+  logoutEverywhere: () => Promise<void>;
+  updateTimezone: (timezone: string) => Promise<void>;
   loading: boolean;
 }
 
@@ -46,32 +105,54 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const clearSession = useCallback(() => {
+    localStorage.removeItem('authToken');
+    localStorage.removeItem('refreshToken');
+    setUser(null);
+    setToken(null);
+  }, []);
+
   // Check for existing session on mount
   useEffect(() => {
     const initializeAuth = async () => {
       // Check for token in localStorage (from our OAuth flow)
-      const storedToken = localStorage.getItem('authToken');
+      let storedToken = localStorage.getItem('authToken');
       
       if (storedToken) {
         try {
           // Validate token with backend
-          const response = await fetch('/api/auth/me', {
-            headers: {
-              Authorization: `Bearer ${storedToken}`,
-            },
-          });
+          let response = await fetchCurrentUser(storedToken);
+
+          // The access token may simply have expired while the app was closed
+          if (response.status === 401) {
+            storedToken = await refreshStoredSession();
+            if (storedToken) {
+              response = await fetchCurrentUser(storedToken);
+            }
+          }
           
-          if (response.ok) {
+          if (storedToken && response.ok) {
             const { user } = await response.json();
-            setUser(convertBackendUser(user));
+            let currentUser = convertBackendUser(user);
+
+            // Until a timezone is chosen on the profile page, use this device's
+            const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+            if (!currentUser.timezone && deviceTimezone) {
+              currentUser = await saveTimezone(storedToken, deviceTimezone).catch(error => {
+                console.error('Failed to save timezone:', error);
+                return currentUser;
+              });
+            }
+
+            setUser(currentUser);
             setToken(storedToken);
           } else {
             // Token is invalid, remove it
-            localStorage.removeItem('authToken');
+            clearSession();
           }
         } catch (error) {
           console.error('Token validation error:', error);
-          localStorage.removeItem('authToken');
+          clearSession();
         }
       }
       
@@ -79,7 +160,36 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
 
     initializeAuth();
-  }, []);
+  }, [clearSession]);
+
+  // Refresh the session and retry once when an API call is rejected with 401
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, async (error) => {
+      const request = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+      if (error.response?.status !== 401 || !request || request._retried) {
+        throw error;
+      }
+      request._retried = true;
+
+      // Another tab may already have rotated the tokens
+      const storedToken = localStorage.getItem('authToken');
+      const newToken = storedToken && request.headers.Authorization !== `Bearer ${storedToken}`
+        ? storedToken
+        : await refreshStoredSession();
+
+      if (!newToken) {
+        clearSession();
+        throw error;
+      }
+
+      setToken(newToken);
+      request.headers.Authorization = `Bearer ${newToken}`;
+      return axios(request);
+    });
+
+    return () => axios.interceptors.response.eject(interceptor);
+  }, [clearSession]);
 
   const login = async (email: string, password: string) => {
     // Password login is not supported - only Google OAuth
@@ -99,6 +209,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const loginWithMicrosoft = async () => {
+    try {
+      const response = await fetch('/api/auth/microsoft-auth-url');
+      const { authUrl } = await response.json();
+
+      window.location.href = authUrl;
+    } catch (error: any) {
+      throw new Error(error.message || 'Microsoft login failed');
+    }
+  };
+
   const register = async (email: string, password: string, name?: string) => {
     // Password registration is not supported - only Google OAuth
     throw new Error('Password registration is not supported. Please use Google OAuth.');
@@ -115,18 +236,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           },
         });
       }
-      
-      // Clear local storage and state
-      localStorage.removeItem('authToken');
-      setUser(null);
-      setToken(null);
     } catch (error: any) {
       console.error('Logout error:', error);
       // Still clear local state even if backend call fails
-      localStorage.removeItem('authToken');
-      setUser(null);
-      setToken(null);
     }
+
+    // Clear local storage and state
+    clearSession();
+  };
+
+  const logoutEverywhere = async () => {
+    // Unlike logout, a failure here is surfaced: the other sessions may still be active
+    await axios.post('/api/auth/logout-all', {}, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    clearSession();
+  };
+
+  const updateTimezone = async (timezone: string) => {
+    if (!token) return;
+    setUser(await saveTimezone(token, timezone));
   };
 
   const value: AuthContextType = {
@@ -134,8 +264,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     token,
     login,
     loginWithGoogle,
+    loginWithMicrosoft,
     register,
     logout,
+    logoutEverywhere,
+    updateTimezone,
     loading,
   };
 
@@ -0,0 +1,15 @@
+// due_date is a calendar day (YYYY-MM-DD). Reading it as a local date keeps it from showing
+// as the day before west of UTC; due_at is the exact moment, when the email gave a time.
+export const formatDueDate = (dueDate: string, dueAt?: string | null): string => {
+  if (dueAt) {
+    return new Date(dueAt).toLocaleString([], {
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  }
+
+  return new Date(`${dueDate.substring(0, 10)}T00:00:00`).toLocaleDateString();
+};
@@ -0,0 +1,45 @@
+/**
+ * Text embeddings from an Ollama server (`/api/embed`), used to find tasks that say the
+ * same thing in different words. They are optional and independent of the provider used
+ * for extraction: nothing is embedded unless OLLAMA_EMBEDDING_MODEL is set.
+ */
+
+import axios from 'axios';
+import { config } from '../config';
+
+export function isEmbeddingEnabled(): boolean {
+  return config.ai.ollama.embeddingModel !== '';
+}
+
+/**
+ * Embed texts with the configured model, one vector per text in the same order
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  const response = await axios.post(`${config.ai.ollama.baseUrl}/api/embed`, {
+    model: config.ai.ollama.embeddingModel,
+    input: texts,
+  });
+
+  const embeddings: number[][] | undefined = response.data?.embeddings;
+  if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+    throw new Error(`Embedding model ${config.ai.ollama.embeddingModel} returned ${embeddings?.length ?? 0} vectors for ${texts.length} texts`);
+  }
+  return embeddings;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
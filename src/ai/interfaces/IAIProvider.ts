@@ -1,17 +1,50 @@
+/**
+ * A deadline as the model read it from the message. The date is the model's own reading;
+ * callers resolve the phrase again against when the message was sent.
+ */
+export interface DueDate {
+  phrase?: string; // As written, e.g. "by 3pm next Friday"
+  date?: string; // YYYY-MM-DD
+  time?: string; // HH:MM, 24-hour
+  allDay?: boolean;
+}
+
 export interface Task {
   title: string;
   description?: string;
   priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
-  dueDate?: Date;
+  due?: DueDate;
 }
 
 export interface AIExtractionResult {
   tasks: Task[];
   confidence: number;
   reasoning?: string;
+  /** Set when the model's output could not be parsed or failed schema validation */
+  error?: string;
+}
+
+export interface BatchMessage {
+  id: string;
+  content: string;
+  subject?: string;
+  sender?: string;
+  /** When the message was sent, in the user's timezone (e.g. "Friday 2025-09-12 09:30"); relative dates are read from it */
+  sentAt?: string;
+  /** Earlier messages of the same conversation, oldest first; context for reading `content` */
+  conversation?: string;
+  /** Titles of tasks already extracted from the conversation */
+  existingTasks?: string[];
+}
+
+export interface BatchExtractionResult {
+  messageId: string;
+  result: AIExtractionResult;
 }
 
 export interface IAIProvider {
+  readonly name: string;
   extractTasks(message: string): Promise<AIExtractionResult>;
+  extractTasksBatch(messages: BatchMessage[]): Promise<BatchExtractionResult[]>;
   isAvailable(): Promise<boolean>;
 }
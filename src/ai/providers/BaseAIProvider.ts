@@ -0,0 +1,505 @@
+import { IAIProvider, Task, DueDate, AIExtractionResult, BatchMessage, BatchExtractionResult } from '../interfaces/IAIProvider';
+import { JSONSchema, AI_EXTRACTION_RESULT_SCHEMA, BATCH_EXTRACTION_RESULT_SCHEMA, validateSchema } from '../schema';
+
+const DUE_DATE_INSTRUCTIONS = `Deadlines: copy the words that set the deadline into "due.phrase" exactly as written (e.g. "by 3pm next Friday"). Work out "due.date" from when the email was sent, not from today: "tomorrow" in an email sent on Friday 2025-09-12 is 2025-09-13. Set "due.time" (HH:MM, 24-hour) only when a time of day is given, otherwise set "due.allDay" to true. Use "due": null when there is no deadline.`;
+
+/**
+ * Shared task extraction pipeline for all providers: prompt building, truncation,
+ * batching and response parsing. Providers only implement the raw completion call.
+ */
+export abstract class BaseAIProvider implements IAIProvider {
+  abstract readonly name: string;
+  protected maxTokens: number;
+  protected batchSize: number;
+
+  constructor(maxTokens: number, batchSize: number) {
+    this.maxTokens = maxTokens;
+    this.batchSize = batchSize;
+  }
+
+  abstract isAvailable(): Promise<boolean>;
+
+  /**
+   * Send a prompt to the model and return its raw text completion. Providers that
+   * support structured output should constrain the completion to `schema`.
+   */
+  protected abstract generate(prompt: string, schema?: JSONSchema): Promise<string>;
+
+  async extractTasks(message: string): Promise<AIExtractionResult> {
+    // Pre-truncate message content to avoid prompt length issues
+    const maxMessageLength = this.maxTokens * 2; // Leave room for prompt
+    const truncatedMessage = this.truncateMessage(message, maxMessageLength);
+    
+    const prompt = this.buildPrompt(truncatedMessage);
+    
+    // Check if prompt is still too long
+    if (prompt.length > this.maxTokens * 4) {
+      console.warn(`Prompt still too long (${prompt.length} chars), using shorter message`);
+      const shorterMessage = this.truncateMessage(message, this.maxTokens * 1.5);
+      const shorterPrompt = this.buildPrompt(shorterMessage);
+      console.log(`Using shorter prompt length: ${shorterPrompt.length} characters`);
+      return this.requestExtraction(shorterPrompt);
+    }
+    
+    return this.requestExtraction(prompt);
+  }
+
+  async extractTasksBatch(messages: BatchMessage[]): Promise<BatchExtractionResult[]> {
+    if (messages.length === 0) {
+      return [];
+    }
+
+    console.log(`🔍 [DEBUG] Processing batch of ${messages.length} messages`);
+
+    // Process messages in batches to avoid overwhelming the AI
+    const results: BatchExtractionResult[] = [];
+    
+    for (let i = 0; i < messages.length; i += this.batchSize) {
+      const batch = messages.slice(i, i + this.batchSize);
+      console.log(`🔍 [DEBUG] Processing batch ${Math.floor(i / this.batchSize) + 1}/${Math.ceil(messages.length / this.batchSize)}`);
+      
+      try {
+        const batchResults = await this.processBatch(batch);
+        results.push(...batchResults);
+        
+        // Add a small delay between batches to be respectful to the AI service
+        if (i + this.batchSize < messages.length) {
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+      } catch (error) {
+        console.error(`Error processing batch ${Math.floor(i / this.batchSize) + 1}:`, error);
+        // Add failed results for this batch
+        batch.forEach(msg => {
+          results.push({
+            messageId: msg.id,
+            result: this.failedResult(`Failed to process message: ${error instanceof Error ? error.message : 'Unknown error'}`)
+          });
+        });
+      }
+    }
+
+    console.log(`🔍 [DEBUG] Completed batch processing. Extracted tasks from ${results.length} messages`);
+    return results;
+  }
+
+  private async processBatch(messages: BatchMessage[]): Promise<BatchExtractionResult[]> {
+    const prompt = this.buildBatchPrompt(messages);
+    
+    // Check if batch prompt is too long
+    if (prompt.length > this.maxTokens * 4) {
+      console.warn(`Batch prompt too long (${prompt.length} chars), processing smaller batches`);
+      // If batch is too large, process messages individually
+      const results: BatchExtractionResult[] = [];
+      for (const message of messages) {
+        try {
+          const result = await this.extractTasks(this.formatSingleMessage(message));
+          results.push({ messageId: message.id, result });
+        } catch (error) {
+          console.error(`Error processing individual message ${message.id}:`, error);
+          results.push({
+            messageId: message.id,
+            result: this.failedResult(`Failed to process message: ${error instanceof Error ? error.message : 'Unknown error'}`)
+          });
+        }
+      }
+      return results;
+    }
+    
+    try {
+      const result = await this.generate(prompt, BATCH_EXTRACTION_RESULT_SCHEMA);
+      const parsedResults = this.parseBatchResponse(result);
+      return await this.reconcileBatchResults(parsedResults, messages);
+    } catch (error) {
+      console.error(`Error calling ${this.name} for batch processing:`, error);
+      throw new Error('Failed to extract tasks from batch');
+    }
+  }
+
+  /**
+   * Map the model's batch results back onto the input messages by ID.
+   * Small models regularly echo IDs back mangled (or as the "message_id_1"
+   * placeholder from the prompt), so when the IDs don't line up we fall back
+   * to result order if the counts match, and otherwise re-run the remaining
+   * messages one at a time.
+   */
+  private async reconcileBatchResults(
+    results: BatchExtractionResult[],
+    messages: BatchMessage[]
+  ): Promise<BatchExtractionResult[]> {
+    const messageIds = new Set(messages.map(msg => msg.id));
+    const resultsById = new Map<string, AIExtractionResult>();
+    const unmatchedResults: AIExtractionResult[] = [];
+
+    for (const batchResult of results) {
+      if (batchResult.messageId && messageIds.has(batchResult.messageId) && !resultsById.has(batchResult.messageId)) {
+        resultsById.set(batchResult.messageId, batchResult.result);
+      } else {
+        unmatchedResults.push(batchResult.result);
+      }
+    }
+
+    const missingMessages = messages.filter(msg => !resultsById.has(msg.id));
+
+    if (missingMessages.length > 0 && results.length === messages.length && unmatchedResults.length === missingMessages.length) {
+      console.warn(`⚠️ [DEBUG] ${missingMessages.length} batch result IDs did not match, assigning by position`);
+      missingMessages.forEach((msg, index) => resultsById.set(msg.id, unmatchedResults[index]));
+    }
+
+    const reconciled: BatchExtractionResult[] = [];
+    for (const message of messages) {
+      let result = resultsById.get(message.id);
+
+      if (!result) {
+        console.warn(`⚠️ [DEBUG] No batch result for message ${message.id}, extracting individually`);
+        try {
+          result = await this.extractTasks(this.formatSingleMessage(message));
+        } catch (error) {
+          console.error(`Error processing individual message ${message.id}:`, error);
+          result = this.failedResult(`Failed to process message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      reconciled.push({ messageId: message.id, result });
+    }
+
+    return reconciled;
+  }
+
+  private formatSingleMessage(message: BatchMessage): string {
+    const sent = message.sentAt ? `\nSent: ${message.sentAt}` : '';
+    let formatted = `Subject: ${message.subject || 'No subject'}\nFrom: ${message.sender || 'Unknown sender'}${sent}\n\n${message.content}`;
+    if (message.conversation) {
+      formatted = `Earlier in this conversation:\n${this.truncateMessage(message.conversation, 1200)}\n\nLatest message:\n${formatted}`;
+    }
+    if (message.existingTasks && message.existingTasks.length > 0) {
+      formatted += `\n\nTasks already extracted from this conversation: ${message.existingTasks.join('; ')}`;
+    }
+    return formatted;
+  }
+
+  private truncateMessage(message: string, maxChars: number): string {
+    if (message.length <= maxChars) {
+      return message;
+    }
+    
+    // Try to truncate at a sentence boundary
+    const truncated = message.substring(0, maxChars);
+    const lastPeriod = truncated.lastIndexOf('.');
+    const lastExclamation = truncated.lastIndexOf('!');
+    const lastQuestion = truncated.lastIndexOf('?');
+    
+    const lastSentenceEnd = Math.max(lastPeriod, lastExclamation, lastQuestion);
+    
+    if (lastSentenceEnd > maxChars * 0.8) { // If we can find a sentence end in the last 20%
+      return truncated.substring(0, lastSentenceEnd + 1) + ' [Content truncated...]';
+    }
+    
+    return truncated + ' [Content truncated...]';
+  }
+
+  /**
+   * Run a single-message extraction. If the output doesn't match the schema the
+   * model gets one more attempt with the validation errors fed back to it.
+   */
+  private async requestExtraction(prompt: string): Promise<AIExtractionResult> {
+    try {
+      const response = await this.generate(prompt, AI_EXTRACTION_RESULT_SCHEMA);
+      const result = this.parseResponse(response);
+      if (!result.error) {
+        return result;
+      }
+
+      console.warn(`⚠️ [DEBUG] Invalid ${this.name} response (${result.error}), retrying with repair prompt`);
+      const repairedResponse = await this.generate(this.buildRepairPrompt(prompt, response, result.error), AI_EXTRACTION_RESULT_SCHEMA);
+      return this.parseResponse(repairedResponse);
+    } catch (error) {
+      console.error(`Error calling ${this.name}:`, error);
+      throw new Error('Failed to extract tasks from message');
+    }
+  }
+
+  private failedResult(error: string): AIExtractionResult {
+    return {
+      tasks: [],
+      confidence: 0.0,
+      reasoning: error,
+      error,
+    };
+  }
+
+  private buildPrompt(message: string): string {
+    return `Extract tasks from this email. Look for action items, deadlines, requests.
+
+IGNORE: newsletters, receipts, announcements.
+
+Some emails are replies: use the earlier conversation only to understand the latest message (e.g. "yes, please do that by Friday" makes the earlier request a task due Friday). If a message changes a task already extracted from the conversation, return it with exactly the same title instead of adding a new one.
+
+${DUE_DATE_INSTRUCTIONS}
+
+Email: "${message}"
+
+Return JSON only:
+{
+  "tasks": [
+    {
+      "title": "Task title",
+      "description": "Description",
+      "priority": "LOW|MEDIUM|HIGH|URGENT",
+      "due": {"phrase": "by Friday 3pm", "date": "YYYY-MM-DD", "time": "HH:MM", "allDay": false}
+    }
+  ],
+  "confidence": 0.85,
+  "reasoning": "Why extracted or not"
+}
+
+If no tasks: {"tasks":[],"confidence":0.0,"reasoning":"No actionable items"}`;
+  }
+
+  private buildBatchPrompt(messages: BatchMessage[]): string {
+    const messagesJson = messages.map((msg, index) => ({
+      id: msg.id,
+      subject: msg.subject || 'No subject',
+      sender: msg.sender || 'Unknown sender',
+      ...(msg.sentAt ? { sent: msg.sentAt } : {}),
+      content: this.truncateMessage(msg.content, 600), // Limit each message to 600 chars
+      ...(msg.conversation ? { conversation: this.truncateMessage(msg.conversation, 1200) } : {}),
+      ...(msg.existingTasks && msg.existingTasks.length > 0 ? { existingTasks: msg.existingTasks } : {}),
+    }));
+
+    return `Extract tasks from these emails. Look for action items, deadlines, requests.
+
+IGNORE: newsletters, receipts, announcements.
+
+Some messages come with "conversation" (earlier messages of the same thread) and "existingTasks" (tasks already extracted from it). Use the earlier conversation only to understand the latest message (e.g. "yes, please do that by Friday" makes the earlier request a task due Friday). If a message changes a task already extracted from the conversation, return it with exactly the same title instead of adding a new one.
+
+${DUE_DATE_INSTRUCTIONS} Each message's "sent" gives when it was sent.
+
+Messages: ${JSON.stringify(messagesJson, null, 1)}
+
+Return JSON array:
+[
+  {
+    "messageId": "message_id_1",
+    "tasks": [
+      {
+        "title": "Task title",
+        "description": "Description",
+        "priority": "LOW|MEDIUM|HIGH|URGENT",
+        "due": {"phrase": "by Friday 3pm", "date": "YYYY-MM-DD", "time": "HH:MM", "allDay": false}
+      }
+    ],
+    "confidence": 0.85,
+    "reasoning": "Why extracted or not"
+  }
+]
+
+If no tasks: {"messageId":"id","tasks":[],"confidence":0.0,"reasoning":"No actionable items"}`;
+  }
+
+  private buildRepairPrompt(originalPrompt: string, invalidResponse: string, error: string): string {
+    return `${originalPrompt}
+
+Your previous answer was not valid:
+${invalidResponse.substring(0, 2000)}
+
+Problems: ${error}
+
+Answer again with JSON only, matching the format above exactly. "priority" must be one of LOW, MEDIUM, HIGH, URGENT and "due" must be null or an object whose "date" is YYYY-MM-DD and "time" is HH:MM.`;
+  }
+
+  private parseResponse(response: string): AIExtractionResult {
+    try {
+      console.log(`🔍 [DEBUG] Raw ${this.name} response:`, response);
+
+      const parsed = this.normalizeResult(this.extractJson(response));
+      console.log('🔍 [DEBUG] Parsed JSON object:', JSON.stringify(parsed, null, 2));
+
+      const errors = validateSchema(parsed, AI_EXTRACTION_RESULT_SCHEMA);
+      if (errors.length > 0) {
+        console.error('❌ [DEBUG] Response failed schema validation:', errors);
+        return this.failedResult(`Invalid AI response: ${errors.join('; ')}`);
+      }
+
+      const result = this.toExtractionResult(parsed);
+      console.log('🔍 [DEBUG] Final extraction result:', JSON.stringify(result, null, 2));
+      return result;
+    } catch (error) {
+      console.error(`❌ [DEBUG] Error parsing ${this.name} response:`, error);
+      console.error('❌ [DEBUG] Original response:', response);
+      return this.failedResult(`Failed to parse AI response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Parse a batch answer. Entries that fail validation are dropped so that
+   * reconcileBatchResults re-runs those messages individually (with repair).
+   */
+  private parseBatchResponse(response: string): BatchExtractionResult[] {
+    try {
+      console.log(`🔍 [DEBUG] Raw ${this.name} batch response:`, response);
+
+      const parsed = this.extractJson(response);
+      console.log('🔍 [DEBUG] Parsed batch JSON object:', JSON.stringify(parsed, null, 2));
+      
+      // Handle both object format (with results array) and direct array format
+      let batchResults;
+      if (Array.isArray(parsed)) {
+        batchResults = parsed;
+      } else if (parsed.messageId) {
+        // Single-message answer returned as a bare object
+        batchResults = [parsed];
+      } else {
+        batchResults = parsed.results || [];
+      }
+
+      const results: BatchExtractionResult[] = [];
+      for (const rawResult of batchResults) {
+        const batchResult = this.normalizeResult(rawResult);
+        const errors = validateSchema(batchResult, BATCH_EXTRACTION_RESULT_SCHEMA.items!);
+        if (errors.length > 0) {
+          console.warn('⚠️ [DEBUG] Dropping invalid batch result:', errors);
+          continue;
+        }
+
+        results.push({
+          messageId: batchResult.messageId,
+          result: this.toExtractionResult(batchResult),
+        });
+      }
+
+      console.log('🔍 [DEBUG] Final batch extraction results:', JSON.stringify(results, null, 2));
+      return results;
+    } catch (error) {
+      console.error(`❌ [DEBUG] Error parsing ${this.name} batch response:`, error);
+      console.error('❌ [DEBUG] Original batch response:', response);
+      
+      // Return no results so every message in the batch is retried individually
+      return [];
+    }
+  }
+
+  /**
+   * Pull the JSON value out of a completion. Structured output gives us clean JSON;
+   * other providers may wrap it in prose or leave comments and trailing commas.
+   */
+  private extractJson(response: string): any {
+    try {
+      return JSON.parse(response);
+    } catch {
+      // Fall through to the lenient extraction below
+    }
+
+    // Whichever bracket opens first wins, otherwise an array of objects gets cut
+    // down to the span between its first '{' and last '}'.
+    const firstBrace = response.indexOf('{');
+    const firstBracket = response.indexOf('[');
+    const isArray = firstBracket !== -1 && (firstBrace === -1 || firstBracket < firstBrace);
+    const jsonMatch = isArray ? response.match(/\[[\s\S]*\]/) : response.match(/\{[\s\S]*\}/);
+
+    if (!jsonMatch) {
+      console.error('❌ [DEBUG] No JSON found in response');
+      throw new Error('No JSON found in response');
+    }
+
+    const jsonString = jsonMatch[0];
+    console.log('🔍 [DEBUG] Extracted JSON string:', jsonString);
+
+    // Try to fix common JSON issues
+    const cleanedJson = jsonString
+      .replace(/\/\/.*?(?=\n|$)/g, '') // Remove single-line comments
+      .replace(/\/\*[\s\S]*?\*\//g, '') // Remove multi-line comments
+      .replace(/,\s*}/g, '}') // Remove trailing commas
+      .replace(/,\s*]/g, ']') // Remove trailing commas in arrays
+      .replace(/\n/g, ' ') // Remove newlines
+      .replace(/\r/g, ' ') // Remove carriage returns
+      .replace(/\t/g, ' ') // Remove tabs
+      .replace(/\s+/g, ' ') // Normalize whitespace
+      .trim();
+
+    console.log('🔍 [DEBUG] Cleaned JSON string:', cleanedJson);
+    return JSON.parse(cleanedJson);
+  }
+
+  /**
+   * Smooth over harmless deviations before validation so they don't cost a repair round-trip
+   */
+  private normalizeResult(raw: any): any {
+    if (!raw || typeof raw !== 'object' || !Array.isArray(raw.tasks)) {
+      return raw;
+    }
+
+    return {
+      ...raw,
+      tasks: raw.tasks.map((task: any) => {
+        if (!task || typeof task !== 'object') {
+          return task;
+        }
+
+        // Fix priority parsing - handle cases where AI returns multiple options
+        let priority = task.priority || 'MEDIUM';
+        if (typeof priority === 'string') {
+          // If AI returns multiple options like "LOW|MEDIUM|HIGH|URGENT", take the first one
+          priority = priority.split('|')[0].trim().toUpperCase();
+        }
+
+        const { dueDate, ...rest } = task;
+        return { ...rest, priority, due: this.normalizeDue(task.due !== undefined ? task.due : dueDate) };
+      }),
+    };
+  }
+
+  /**
+   * Accept the older bare "dueDate" string as well as the "due" object, and turn empty strings into nulls
+   */
+  private normalizeDue(due: any): any {
+    if (due === undefined || due === null || due === '') {
+      return null;
+    }
+
+    if (typeof due === 'string') {
+      return /^\d{4}-\d{2}-\d{2}$/.test(due) ? { date: due } : { phrase: due };
+    }
+
+    if (typeof due !== 'object' || Array.isArray(due)) {
+      return due;
+    }
+
+    const normalized: any = {};
+    for (const [key, value] of Object.entries(due)) {
+      normalized[key] = value === '' ? null : value;
+    }
+    // Some models pad single-digit hours ("9:30")
+    if (typeof normalized.time === 'string' && /^\d:\d{2}$/.test(normalized.time)) {
+      normalized.time = `0${normalized.time}`;
+    }
+    return normalized;
+  }
+
+  private toDueDate(due: any): DueDate | undefined {
+    if (!due || (!due.phrase && !due.date && !due.time)) {
+      return undefined;
+    }
+
+    return {
+      phrase: due.phrase || undefined,
+      date: due.date || undefined,
+      time: due.allDay ? undefined : due.time || undefined,
+      allDay: due.allDay ?? undefined,
+    };
+  }
+
+  private toExtractionResult(parsed: any): AIExtractionResult {
+    const tasks: Task[] = parsed.tasks.map((task: any) => ({
+      title: task.title,
+      description: task.description || undefined,
+      priority: task.priority,
+      due: this.toDueDate(task.due),
+    }));
+
+    return {
+      tasks,
+      confidence: parsed.confidence,
+      reasoning: parsed.reasoning || 'No reasoning provided',
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { config } from '../../../config';
+import { AI_EXTRACTION_RESULT_SCHEMA } from '../../schema';
+import { OpenAICompatibleProvider } from './index';
+
+interface StubRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// A stand-in for an OpenAI-compatible server (llama.cpp, vLLM): answers /v1/models and
+// /v1/chat/completions with whatever `reply` returns, and records every request
+function startStubServer(reply: (request: StubRequest) => { status: number; body: any }): Promise<{ server: http.Server; baseUrl: string; requests: StubRequest[] }> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      const request = { method: req.method, url: req.url, headers: req.headers, body: data ? JSON.parse(data) : undefined };
+      requests.push(request);
+      const { status, body } = reply(request);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}/`, requests });
+    });
+  });
+}
+
+function completion(content: string) {
+  return { status: 200, body: { id: 'chatcmpl-1', object: 'chat.completion', choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] } };
+}
+
+describe('OpenAICompatibleProvider', () => {
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+  async function useServer(reply: (request: StubRequest) => { status: number; body: any }, apiKey = ''): Promise<OpenAICompatibleProvider> {
+    stub = await startStubServer(reply);
+    jest.replaceProperty(config.ai, 'openai', { ...config.ai.openai, baseUrl: stub.baseUrl, apiKey, model: 'stub-model' });
+    return new OpenAICompatibleProvider();
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => stub.server.close(resolve));
+  });
+
+  describe('isAvailable', () => {
+    it('is available when the server lists its models, sending the API key', async () => {
+      const provider = await useServer(() => ({ status: 200, body: { object: 'list', data: [{ id: 'stub-model' }] } }), 'secret');
+
+      expect(await provider.isAvailable()).toBe(true);
+      expect(stub.requests[0]).toMatchObject({ method: 'GET', url: '/v1/models' });
+      expect(stub.requests[0].headers.authorization).toBe('Bearer secret');
+    });
+
+    it('sends no Authorization header without an API key', async () => {
+      const provider = await useServer(() => ({ status: 200, body: { object: 'list', data: [] } }));
+
+      expect(await provider.isAvailable()).toBe(true);
+      expect(stub.requests[0].headers.authorization).toBeUndefined();
+    });
+
+    it('is unavailable when the server errors', async () => {
+      const provider = await useServer(() => ({ status: 503, body: { error: 'loading model' } }));
+
+      expect(await provider.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('extractTasks', () => {
+    it('sends the prompt to /v1/chat/completions and parses the reply', async () => {
+      const provider = await useServer(() => completion(JSON.stringify({
+        tasks: [{ title: 'Send the Q3 report', description: 'Ann needs it for the board', priority: 'HIGH' }],
+        confidence: 0.9,
+        reasoning: 'Direct request',
+      })));
+
+      const result = await provider.extractTasks('Hi, please send me the Q3 report. Ann');
+
+      expect(stub.requests).toHaveLength(1);
+      const request = stub.requests[0];
+      expect(request).toMatchObject({ method: 'POST', url: '/v1/chat/completions' });
+      expect(request.body).toMatchObject({ model: 'stub-model', stream: false });
+      expect(request.body.messages).toEqual([{ role: 'user', content: expect.stringContaining('please send me the Q3 report') }]);
+      expect(request.body.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'task_extraction', schema: AI_EXTRACTION_RESULT_SCHEMA },
+      });
+
+      expect(result.error).toBeUndefined();
+      expect(result.confidence).toBe(0.9);
+      expect(result.tasks).toHaveLength(1);
+      expect(result.tasks[0]).toMatchObject({ title: 'Send the Q3 report', priority: 'HIGH' });
+    });
+
+    it('reads JSON wrapped in a code fence', async () => {
+      const provider = await useServer(() => completion('```json\n{"tasks": [{"title": "Book flights", "priority": "LOW"}], "confidence": 0.7}\n```'));
+
+      const result = await provider.extractTasks('Could you book flights at some point?');
+
+      expect(result.tasks.map(task => task.title)).toEqual(['Book flights']);
+    });
+
+    it('reports a failed extraction when the server returns no usable content', async () => {
+      const provider = await useServer(() => completion('I cannot help with that.'));
+
+      const result = await provider.extractTasks('Please send the report');
+
+      expect(result.tasks).toEqual([]);
+      expect(result.error).toBeDefined();
+    });
+
+    it('fails when the server errors', async () => {
+      const provider = await useServer(() => ({ status: 500, body: { error: 'out of memory' } }));
+
+      await expect(provider.extractTasks('Please send the report')).rejects.toThrow('Failed to extract tasks from message');
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import axios from 'axios';
+import { BaseAIProvider } from '../BaseAIProvider';
+import { config } from '../../../config';
+import { JSONSchema } from '../../schema';
+
+/**
+ * Provider for any server exposing the OpenAI-compatible /v1/chat/completions API
+ * (llama.cpp server, vLLM, LM Studio, OpenAI itself, ...)
+ */
+export class OpenAICompatibleProvider extends BaseAIProvider {
+  readonly name = 'openai';
+  private baseUrl: string;
+  private model: string;
+  private apiKey: string;
+
+  constructor() {
+    super(config.ai.openai.maxTokens, config.ai.openai.batchSize);
+    this.baseUrl = config.ai.openai.baseUrl.replace(/\/+$/, '');
+    this.model = config.ai.openai.model;
+    this.apiKey = config.ai.openai.apiKey;
+  }
+
+  private getHeaders() {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/v1/models`, { headers: this.getHeaders() });
+      return response.status === 200;
+    } catch (error) {
+      console.warn('OpenAI-compatible server not available:', error);
+      return false;
+    }
+  }
+
+  protected async generate(prompt: string, schema?: JSONSchema): Promise<string> {
+    const response = await axios.post(
+      `${this.baseUrl}/v1/chat/completions`,
+      {
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.1,
+        top_p: 0.9,
+        stream: false,
+        // Structured output, supported by llama.cpp, vLLM and OpenAI alike
+        ...(schema && { response_format: { type: 'json_schema', json_schema: { name: 'task_extraction', schema } } }),
+      },
+      { headers: this.getHeaders() }
+    );
+
+    return response.data.choices?.[0]?.message?.content || '';
+  }
+}
@@ -0,0 +1,33 @@
+import { IAIProvider } from './interfaces/IAIProvider';
+import { OllamaProvider } from './providers/ollama';
+import { OpenAICompatibleProvider } from './providers/openai';
+import { config } from '../config';
+
+export type AIProviderFactory = () => IAIProvider;
+
+const providers = new Map<string, AIProviderFactory>([
+  ['ollama', () => new OllamaProvider()],
+  ['openai', () => new OpenAICompatibleProvider()],
+]);
+
+/**
+ * Register an additional AI provider under the name used by AI_PROVIDER
+ */
+export function registerAIProvider(name: string, factory: AIProviderFactory): void {
+  providers.set(name, factory);
+}
+
+export function getRegisteredAIProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Create the AI provider selected in configuration (or a specific one by name)
+ */
+export function createAIProvider(name: string = config.ai.provider): IAIProvider {
+  const factory = providers.get(name);
+  if (!factory) {
+    throw new Error(`Unknown AI provider "${name}". Registered providers: ${getRegisteredAIProviders().join(', ')}`);
+  }
+  return factory();
+}
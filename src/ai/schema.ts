@@ -0,0 +1,124 @@
+/**
+ * JSON schemas for the model's task extraction output. They are sent to providers
+ * that support structured output (Ollama's `format`, the OpenAI API's `response_format`)
+ * and used to validate every response before it is turned into tasks.
+ */
+
+export interface JSONSchema {
+  type?: string | string[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+// A deadline as the model read it. The phrase is kept so the date can be checked (and
+// resolved again) against when the message was sent.
+export const DUE_SCHEMA: JSONSchema = {
+  type: ['object', 'null'],
+  properties: {
+    phrase: { type: ['string', 'null'] },
+    date: { type: ['string', 'null'], pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+    time: { type: ['string', 'null'], pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' },
+    allDay: { type: ['boolean', 'null'] },
+  },
+};
+
+export const TASK_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    description: { type: ['string', 'null'] },
+    priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] },
+    due: DUE_SCHEMA,
+  },
+  required: ['title', 'priority'],
+};
+
+export const AI_EXTRACTION_RESULT_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    tasks: { type: 'array', items: TASK_SCHEMA },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    reasoning: { type: 'string' },
+  },
+  required: ['tasks', 'confidence'],
+};
+
+export const BATCH_EXTRACTION_RESULT_SCHEMA: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      messageId: { type: 'string', minLength: 1 },
+      ...AI_EXTRACTION_RESULT_SCHEMA.properties,
+    },
+    required: ['messageId', 'tasks', 'confidence'],
+  },
+};
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against the subset of JSON Schema used above.
+ * Returns a list of human-readable problems (empty when valid).
+ */
+export function validateSchema(value: any, schema: JSONSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path} should be ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (value === null) {
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} should be one of ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} should be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} should be <= ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path} should not be empty`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${path} should match ${schema.pattern}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined) {
+        errors.push(...validateSchema(value[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
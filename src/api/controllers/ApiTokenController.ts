@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { validate as isUuid } from 'uuid';
+import {
+  ApiTokenService,
+  API_TOKEN_SCOPES,
+  MAX_API_TOKEN_EXPIRY_DAYS,
+  isApiTokenScope,
+} from '../../services/auth/ApiTokenService';
+
+const MAX_TOKEN_NAME_LENGTH = 100;
+
+export class ApiTokenController {
+  private apiTokenService: ApiTokenService;
+
+  constructor() {
+    this.apiTokenService = new ApiTokenService();
+  }
+
+  async listTokens(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user.id;
+
+      const tokens = await this.apiTokenService.listTokens(userId);
+
+      res.status(200).json({ tokens, available_scopes: API_TOKEN_SCOPES });
+    } catch (error) {
+      console.error('List API tokens error:', error);
+      res.status(500).json({ error: 'Failed to get API tokens' });
+    }
+  }
+
+  async createToken(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user.id;
+      const { name, scopes, expires_in_days } = req.body || {};
+
+      const trimmedName = typeof name === 'string' ? name.trim() : '';
+      if (!trimmedName || trimmedName.length > MAX_TOKEN_NAME_LENGTH) {
+        res.status(400).json({ error: `name is required (at most ${MAX_TOKEN_NAME_LENGTH} characters)` });
+        return;
+      }
+
+      if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+        res.status(400).json({ error: `scopes must be a non-empty list of: ${API_TOKEN_SCOPES.join(', ')}` });
+        return;
+      }
+
+      if (expires_in_days !== undefined && expires_in_days !== null &&
+          (!Number.isInteger(expires_in_days) || expires_in_days < 1 || expires_in_days > MAX_API_TOKEN_EXPIRY_DAYS)) {
+        res.status(400).json({ error: `expires_in_days must be between 1 and ${MAX_API_TOKEN_EXPIRY_DAYS}, or omitted for no expiry` });
+        return;
+      }
+
+      const { token, apiToken } = await this.apiTokenService.createToken(userId, {
+        name: trimmedName,
+        scopes: Array.from(new Set(scopes)),
+        expiresInDays: expires_in_days ?? undefined,
+      });
+
+      // The plaintext token is only ever returned here
+      res.status(201).json({ token, api_token: apiToken });
+    } catch (error) {
+      console.error('Create API token error:', error);
+      res.status(500).json({ error: 'Failed to create API token' });
+    }
+  }
+
+  async revokeToken(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user.id;
+      const { tokenId } = req.params;
+
+      // Token IDs are UUIDs; anything else can't match, and Postgres would reject it outright
+      if (!isUuid(tokenId)) {
+        res.status(404).json({ error: 'API token not found' });
+        return;
+      }
+
+      const revoked = await this.apiTokenService.revokeToken(userId, tokenId);
+
+      if (!revoked) {
+        res.status(404).json({ error: 'API token not found' });
+        return;
+      }
+
+      res.status(200).json({ message: 'API token revoked' });
+    } catch (error) {
+      console.error('Revoke API token error:', error);
+      res.status(500).json({ error: 'Failed to revoke API token' });
+    }
+  }
+}
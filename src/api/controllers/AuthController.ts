@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
+import { validate as isUuid } from 'uuid';
 import { AuthService } from '../../services/auth/AuthService';
+import { getClientInfo } from '../../middleware/auth';
+import { isValidTimezone } from '../../utils/dueDates';
 
 export class AuthController {
   private authService: AuthService;
@@ -43,5 +46,104 @@ export class AuthController {
     }
   }
 
+  async updateMe(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user.id;
+      const { timezone } = req.body || {};
+
+      if (typeof timezone !== 'string' || !timezone || !isValidTimezone(timezone)) {
+        res.status(400).json({ error: 'timezone must be an IANA timezone name, e.g. Europe/Berlin' });
+        return;
+      }
+
+      const user = await this.authService.updateTimezone(userId, timezone);
+
+      res.status(200).json({ user });
+    } catch (error) {
+      console.error('Update user error:', error);
+      res.status(500).json({ error: 'Failed to update user' });
+    }
+  }
+
+  async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const { refresh_token } = req.body || {};
+
+      if (!refresh_token || typeof refresh_token !== 'string') {
+        res.status(400).json({ error: 'refresh_token is required' });
+        return;
+      }
+
+      const tokens = await this.authService.refreshSession(refresh_token, getClientInfo(req));
+
+      if (!tokens) {
+        res.status(401).json({ error: 'Invalid or expired refresh token' });
+        return;
+      }
+
+      res.status(200).json({ token: tokens.token, refresh_token: tokens.refreshToken });
+    } catch (error) {
+      console.error('Refresh error:', error);
+      res.status(500).json({ error: 'Failed to refresh session' });
+    }
+  }
+
+  async listSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user.id;
+      const currentSessionId = (req as any).sessionId;
+
+      const sessions = await this.authService.listSessions(userId);
+
+      res.status(200).json({
+        sessions: sessions.map(session => ({
+          ...session,
+          current: session.id === currentSessionId,
+        })),
+      });
+    } catch (error) {
+      console.error('List sessions error:', error);
+      res.status(500).json({ error: 'Failed to get sessions' });
+    }
+  }
+
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user.id;
+      const { sessionId } = req.params;
+
+      // Session IDs are UUIDs; anything else can't match, and Postgres would reject it outright
+      if (!isUuid(sessionId)) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      const revoked = await this.authService.revokeSession(userId, sessionId);
+
+      if (!revoked) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      res.status(200).json({ message: 'Session revoked' });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ error: 'Failed to revoke session' });
+    }
+  }
+
+  async logoutAll(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user.id;
+
+      const revoked = await this.authService.revokeAllSessions(userId);
+
+      res.status(200).json({ message: 'Logged out everywhere', revoked });
+    } catch (error) {
+      console.error('Logout everywhere error:', error);
+      res.status(500).json({ error: 'Logout failed' });
+    }
+  }
+
   // Removed changePassword method since we only use Google OAuth
 }
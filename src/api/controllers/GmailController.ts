@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { GmailService } from '../../services/gmail/GmailService';
+import { createIntegrationGmailService } from '../../services/gmail/integrationGmail';
+import { createIntegrationImapService } from '../../services/imap/integrationImap';
+import { createIntegrationOutlookService } from '../../services/outlook/integrationOutlook';
 import { MultiGmailService } from '../../services/gmail/MultiGmailService';
 import { DatabaseService } from '../../services/database/DatabaseService';
 import { TaskService } from '../../services/tasks/TaskService';
@@ -35,30 +38,13 @@ export class GmailController {
         gmailIntegration = integrations[0];
       }
 
-      if (!gmailIntegration || !gmailIntegration.access_token) {
+      // IMAP accounts have a password instead of an access token
+      if (!gmailIntegration || (!gmailIntegration.access_token && gmailIntegration.provider !== 'imap')) {
         res.status(400).json({ error: 'Gmail integration not found or no access token' });
         return;
       }
 
-      // Create token refresh callback for this integration
-      const tokenRefreshCallback = async (result: any) => {
-        try {
-          console.log(`🔄 Updating integration ${gmailIntegration.id} with new tokens`);
-          await this.databaseService.updateIntegration(gmailIntegration.id, {
-            access_token: result.accessToken,
-            refresh_token: result.refreshToken || gmailIntegration.refresh_token,
-          });
-          console.log(`✅ Integration ${gmailIntegration.id} updated with new tokens`);
-        } catch (error) {
-          console.error(`❌ Failed to update integration ${gmailIntegration.id} with new tokens:`, error);
-        }
-      };
-
-      const gmailService = new GmailService(
-        gmailIntegration.access_token,
-        gmailIntegration.refresh_token,
-        tokenRefreshCallback
-      );
+      const gmailService = createIntegrationGmailService(gmailIntegration, this.databaseService);
       const profile = await gmailService.getProfile();
       
       // Get unparsed message count instead of total inbox count
@@ -85,8 +71,13 @@ export class GmailController {
     try {
       const user = (req as any).user;
       
-      // Get all active Gmail integrations for the user
-      const integrations = await this.databaseService.findActiveIntegrationsByProvider(user.id, 'google');
+      // Get all active integrations tasks are extracted from (Gmail, Outlook, IMAP and Slack) for the user
+      const integrations = [
+        ...await this.databaseService.findActiveIntegrationsByProvider(user.id, 'google'),
+        ...await this.databaseService.findActiveIntegrationsByProvider(user.id, 'microsoft'),
+        ...await this.databaseService.findActiveIntegrationsByProvider(user.id, 'imap'),
+        ...await this.databaseService.findActiveIntegrationsByProvider(user.id, 'slack'),
+      ];
       
       if (integrations.length === 0) {
         res.status(200).json({
@@ -109,38 +100,33 @@ export class GmailController {
       // Get counts for each account
       for (const integration of integrations) {
         try {
-          // Create token refresh callback for this integration
-          const tokenRefreshCallback = async (result: any) => {
-            try {
-              console.log(`🔄 Updating integration ${integration.id} with new tokens`);
-              await this.databaseService.updateIntegration(integration.id, {
-                access_token: result.accessToken,
-                refresh_token: result.refreshToken || integration.refresh_token,
-              });
-              console.log(`✅ Integration ${integration.id} updated with new tokens`);
-            } catch (error) {
-              console.error(`❌ Failed to update integration ${integration.id} with new tokens:`, error);
-            }
-          };
-
-          const gmailService = new GmailService(
-            integration.access_token,
-            integration.refresh_token,
-            tokenRefreshCallback
-          );
-          
-          // Get total inbox messages
-          const inboxCount = await gmailService.getInboxMessageCount();
-          
           // Get parsed messages count
           const parsedMessages = await this.databaseService.findParsedMessagesByIntegration(user.id, integration.id);
           const parsedCount = parsedMessages.length;
-          
-          // Calculate unparsed messages
-          const unparsedCount = Math.max(0, inboxCount - parsedCount);
+
+          let inboxCount: number;
+          let unparsedCount: number;
+          if (integration.provider === 'slack') {
+            // Slack has no inbox; count the watched messages that haven't been parsed yet
+            unparsedCount = await this.taskService.getUnparsedMessageCount(user.id, integration.id);
+            inboxCount = parsedCount + unparsedCount;
+          } else {
+            // Get total inbox messages
+            if (integration.provider === 'microsoft') {
+              inboxCount = await createIntegrationOutlookService(integration, this.databaseService).getInboxMessageCount();
+            } else if (integration.provider === 'imap') {
+              inboxCount = await createIntegrationImapService(integration, this.databaseService).getInboxMessageCount();
+            } else {
+              inboxCount = await createIntegrationGmailService(integration, this.databaseService).getInboxMessageCount();
+            }
+
+            // Calculate unparsed messages
+            unparsedCount = Math.max(0, inboxCount - parsedCount);
+          }
           
           accountCounts.push({
             integrationId: integration.id,
+            provider: integration.provider,
             accountName: integration.account_name,
             accountEmail: integration.account_email,
             isActive: integration.is_active,
@@ -161,6 +147,7 @@ export class GmailController {
           // Add account with error state
           accountCounts.push({
             integrationId: integration.id,
+            provider: integration.provider,
             accountName: integration.account_name,
             accountEmail: integration.account_email,
             isActive: integration.is_active,
@@ -249,7 +236,7 @@ export class GmailController {
         return;
       }
 
-      const gmailService = new GmailService(gmailIntegration.access_token);
+      const gmailService = createIntegrationGmailService(gmailIntegration, this.databaseService);
       const messages = await gmailService.searchMessages(
         query as string,
         parseInt(maxResults as string)
@@ -290,7 +277,7 @@ export class GmailController {
         return;
       }
 
-      const gmailService = new GmailService(gmailIntegration.access_token);
+      const gmailService = createIntegrationGmailService(gmailIntegration, this.databaseService);
       const messages = await gmailService.getUnreadMessages(
         parseInt(maxResults as string)
       );
@@ -330,7 +317,7 @@ export class GmailController {
         return;
       }
 
-      const gmailService = new GmailService(gmailIntegration.access_token);
+      const gmailService = createIntegrationGmailService(gmailIntegration, this.databaseService);
       const messages = await gmailService.getRecentMessages(
         parseInt(maxResults as string)
       );
@@ -370,8 +357,8 @@ export class GmailController {
       if (integrationId) {
         // Get specific integration
         gmailIntegration = await this.databaseService.findIntegrationById(integrationId as string);
-        if (!gmailIntegration || gmailIntegration.user_id !== user.id || gmailIntegration.provider !== 'google') {
-          res.status(404).json({ error: 'Gmail integration not found' });
+        if (!gmailIntegration || gmailIntegration.user_id !== user.id || !['google', 'microsoft', 'imap'].includes(gmailIntegration.provider)) {
+          res.status(404).json({ error: 'Mail integration not found' });
           return;
         }
       } else {
@@ -385,25 +372,48 @@ export class GmailController {
         return;
       }
 
-      // Create token refresh callback for this integration
-      const tokenRefreshCallback = async (result: any) => {
-        try {
-          console.log(`🔄 Updating integration ${gmailIntegration.id} with new tokens`);
-          await this.databaseService.updateIntegration(gmailIntegration.id, {
-            access_token: result.accessToken,
-            refresh_token: result.refreshToken || gmailIntegration.refresh_token,
-          });
-          console.log(`✅ Integration ${gmailIntegration.id} updated with new tokens`);
-        } catch (error) {
-          console.error(`❌ Failed to update integration ${gmailIntegration.id} with new tokens:`, error);
+      // Tasks from Outlook accounts link to their message through the same endpoint
+      if (gmailIntegration.provider === 'microsoft') {
+        const outlookService = createIntegrationOutlookService(gmailIntegration, this.databaseService);
+        const outlookMessage = await outlookService.getMessage(messageId);
+
+        res.status(200).json({
+          id: outlookMessage.id,
+          threadId: outlookMessage.conversationId,
+          subject: outlookService.getSubject(outlookMessage),
+          sender: outlookService.getSenderEmail(outlookMessage),
+          recipients: outlookService.getRecipients(outlookMessage),
+          snippet: outlookMessage.bodyPreview,
+          date: outlookService.getDate(outlookMessage),
+          content: outlookService.extractEmailContent(outlookMessage),
+          webLink: outlookMessage.webLink,
+        });
+        return;
+      }
+
+      if (gmailIntegration.provider === 'imap') {
+        const imapService = createIntegrationImapService(gmailIntegration, this.databaseService);
+        const [imapMessage] = await imapService.getMessagesByIds([messageId]);
+        if (!imapMessage) {
+          res.status(404).json({ error: 'Message not found' });
+          return;
         }
-      };
 
-      const gmailService = new GmailService(
-        gmailIntegration.access_token,
-        gmailIntegration.refresh_token,
-        tokenRefreshCallback
-      );
+        const content = imapService.extractEmailContent(imapMessage);
+        res.status(200).json({
+          id: imapMessage.id,
+          threadId: imapMessage.envelope.messageId,
+          subject: imapService.getSubject(imapMessage),
+          sender: imapService.getSenderEmail(imapMessage),
+          recipients: imapService.getRecipients(imapMessage),
+          snippet: content.slice(0, 200),
+          date: imapService.getDate(imapMessage),
+          content,
+        });
+        return;
+      }
+
+      const gmailService = createIntegrationGmailService(gmailIntegration, this.databaseService);
 
       const message = await gmailService.getMessage(messageId);
       
@@ -1,12 +1,21 @@
 import { Request, Response } from 'express';
-import { DatabaseService } from '../../services/database/DatabaseService';
-import { GmailService } from '../../services/gmail/GmailService';
+import { DatabaseService, Integration } from '../../services/database/DatabaseService';
+import { createIntegrationGmailService } from '../../services/gmail/integrationGmail';
+import { createIntegrationOutlookService } from '../../services/outlook/integrationOutlook';
+import { createIntegrationSlackService } from '../../services/slack/integrationSlack';
+import { createIntegrationImapService, encryptImapCredentials, getImapCredentials } from '../../services/imap/integrationImap';
+import { ImapCredentials, ImapService } from '../../services/imap/ImapService';
+import { revokeGoogleToken } from '../../services/gmail/GmailService';
+import { revokeSlackToken, isMonitoredConversation } from '../../services/slack/SlackService';
+import { OAuthStateService } from '../../services/auth/OAuthStateService';
 
 export class IntegrationController {
   private databaseService: DatabaseService;
+  private oauthStateService: OAuthStateService;
 
   constructor() {
     this.databaseService = new DatabaseService();
+    this.oauthStateService = new OAuthStateService();
   }
 
   /**
@@ -22,12 +31,28 @@ export class IntegrationController {
       // Get detailed information for each integration
       const detailedIntegrations = await Promise.all(integrations.map(async (integration) => {
         try {
-                     if (integration.provider === 'google') {
-             // Get Gmail profile information
-             const gmailService = new GmailService(integration.access_token);
+          if (integration.provider === 'google' || integration.provider === 'microsoft' || integration.provider === 'imap') {
+            // A revoked grant can't work until the user reconnects, so don't call the provider
+            if (integration.health_status === 'needs_reauth') {
+              throw new Error(integration.last_error_message || 'Account needs to be reconnected');
+            }
 
-             const profile = await gmailService.getProfile();
-             const messageCount = await gmailService.getInboxMessageCount();
+            // Get mailbox information (records the integration's health)
+            let messagesTotal: number;
+            let messageCount: number;
+            if (integration.provider === 'google') {
+              const gmailService = createIntegrationGmailService(integration, this.databaseService);
+              messagesTotal = (await gmailService.getProfile()).messagesTotal;
+              messageCount = await gmailService.getInboxMessageCount();
+            } else if (integration.provider === 'imap') {
+              messageCount = await createIntegrationImapService(integration, this.databaseService).getInboxMessageCount();
+              messagesTotal = messageCount;
+            } else {
+              // Graph only reports per-folder totals, so the inbox stands in for the mailbox
+              const outlookService = createIntegrationOutlookService(integration, this.databaseService);
+              messageCount = await outlookService.getInboxMessageCount();
+              messagesTotal = messageCount;
+            }
             
             return {
               id: integration.id,
@@ -38,12 +63,33 @@ export class IntegrationController {
               created_at: integration.created_at,
               updated_at: integration.updated_at,
               metadata: {
-                ...integration.metadata,
-                messagesTotal: profile.messagesTotal,
+                ...this.getPublicMetadata(integration),
+                messagesTotal,
                 inboxCount: messageCount,
                 isConnected: true
               }
             };
+          } else if (integration.provider === 'slack') {
+            if (integration.health_status === 'needs_reauth') {
+              throw new Error(integration.last_error_message || 'Account needs to be reconnected');
+            }
+
+            // Confirms the token still works (records the integration's health)
+            await createIntegrationSlackService(integration, this.databaseService).getIdentity();
+
+            return {
+              id: integration.id,
+              provider: integration.provider,
+              account_name: integration.account_name,
+              account_email: integration.account_email,
+              is_active: integration.is_active,
+              created_at: integration.created_at,
+              updated_at: integration.updated_at,
+              metadata: {
+                ...this.getPublicMetadata(integration),
+                isConnected: true
+              }
+            };
           } else {
             // For other providers, return basic info
             return {
@@ -55,7 +101,7 @@ export class IntegrationController {
               created_at: integration.created_at,
               updated_at: integration.updated_at,
               metadata: {
-                ...integration.metadata,
+                ...this.getPublicMetadata(integration),
                 isConnected: false
               }
             };
@@ -79,8 +125,37 @@ export class IntegrationController {
         }
       }));
 
+      // Attach background monitor status (last run, next run, last error) to each account
+      const syncStates = await this.databaseService.findSyncStatesByUserId(user.id);
+      const syncStateByIntegration = new Map(syncStates.map(state => [state.integration_id, state]));
+
+      // Re-read health, which the provider calls above may have just changed
+      const latestIntegrations = await this.databaseService.findIntegrationsByUserId(user.id);
+      const healthByIntegration = new Map(latestIntegrations.map(integration => [integration.id, {
+        status: integration.health_status || 'ok',
+        last_error_at: integration.last_error_at,
+        last_error_message: integration.last_error_message,
+      }]));
+
+      const integrationsWithSync = detailedIntegrations.map(integration => {
+        const syncState = syncStateByIntegration.get(integration.id);
+        return {
+          ...integration,
+          health: healthByIntegration.get(integration.id) || { status: 'ok' },
+          sync: syncState ? {
+            status: syncState.status,
+            last_run_at: syncState.last_run_at,
+            last_success_at: syncState.last_success_at,
+            last_error: syncState.last_error,
+            last_result: syncState.last_result,
+            consecutive_failures: syncState.consecutive_failures,
+            next_run_at: syncState.next_run_at,
+          } : null
+        };
+      });
+
       res.status(200).json({ 
-        integrations: detailedIntegrations,
+        integrations: integrationsWithSync,
         totalAccounts: detailedIntegrations.length,
         activeAccounts: detailedIntegrations.filter(i => i.is_active).length
       });
@@ -90,15 +165,130 @@ export class IntegrationController {
     }
   }
 
+  /**
+   * Connect a mailbox over IMAP with a username and password. The credentials are checked
+   * against the server before anything is stored.
+   */
+  async addImapAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { email, name } = req.body;
+
+      const credentials = this.parseImapCredentials(req.body);
+      if (typeof credentials === 'string') {
+        res.status(400).json({ error: credentials });
+        return;
+      }
+
+      const accountEmail = (typeof email === 'string' && email.trim()) || credentials.username;
+      const existingIntegrations = await this.databaseService.findIntegrationsByProvider(user.id, 'imap');
+      if (existingIntegrations.some(integration => integration.account_email === accountEmail)) {
+        res.status(409).json({ error: `${accountEmail} is already connected` });
+        return;
+      }
+
+      const verifyError = await this.verifyImapCredentials(credentials);
+      if (verifyError) {
+        res.status(400).json({ error: verifyError });
+        return;
+      }
+
+      const integration = await this.databaseService.createIntegration({
+        user_id: user.id,
+        provider: 'imap',
+        account_email: accountEmail,
+        account_name: (typeof name === 'string' && name.trim()) || accountEmail,
+        access_token: '',
+        is_active: true,
+        metadata: {
+          imapCredentials: encryptImapCredentials(credentials),
+        },
+      });
+
+      console.log(`✅ Connected IMAP account ${accountEmail} (${credentials.host}) for user ${user.id}`);
+      res.status(201).json({
+        message: 'IMAP account connected successfully',
+        integration: {
+          id: integration.id,
+          provider: integration.provider,
+          account_name: integration.account_name,
+          account_email: integration.account_email,
+          is_active: integration.is_active,
+          created_at: integration.created_at,
+          updated_at: integration.updated_at,
+          metadata: this.getPublicMetadata(integration),
+        },
+      });
+    } catch (error) {
+      console.error('Add IMAP account error:', error);
+      res.status(500).json({ error: 'Failed to connect IMAP account' });
+    }
+  }
+
+  /**
+   * Replace the server settings or password of an IMAP account, e.g. after the password
+   * changed. Plays the role OAuth reconnect plays for the other providers.
+   */
+  async updateImapCredentials(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { integrationId } = req.params;
+
+      const integration = await this.databaseService.findIntegrationById(integrationId);
+      if (!integration || integration.user_id !== user.id || integration.provider !== 'imap') {
+        res.status(404).json({ error: 'IMAP integration not found' });
+        return;
+      }
+
+      // A blank password keeps the stored one, so only the server settings can be changed
+      const body = { ...req.body };
+      if (!body.password) {
+        body.password = getImapCredentials(integration).password;
+      }
+
+      const credentials = this.parseImapCredentials(body);
+      if (typeof credentials === 'string') {
+        res.status(400).json({ error: credentials });
+        return;
+      }
+
+      const verifyError = await this.verifyImapCredentials(credentials);
+      if (verifyError) {
+        res.status(400).json({ error: verifyError });
+        return;
+      }
+
+      // A different server or account has different UIDs, so drop the sync cursor too
+      const { imapCursor, ...metadata } = integration.metadata || {};
+      const current = getImapCredentials(integration);
+      const sameMailbox = current.host === credentials.host && current.username === credentials.username;
+
+      await this.databaseService.updateIntegration(integrationId, {
+        metadata: {
+          ...metadata,
+          ...(sameMailbox && imapCursor ? { imapCursor } : {}),
+          imapCredentials: encryptImapCredentials(credentials),
+        },
+      });
+      await this.databaseService.updateIntegrationHealth(integrationId, 'ok');
+
+      res.status(200).json({ message: 'IMAP account updated successfully' });
+    } catch (error) {
+      console.error('Update IMAP credentials error:', error);
+      res.status(500).json({ error: 'Failed to update IMAP account' });
+    }
+  }
+
   /**
    * Remove an integration from the keychain
    */
   async removeIntegration(req: Request, res: Response): Promise<void> {
+    let integration: Integration | null = null;
     try {
       const user = (req as any).user;
       const { integrationId } = req.params;
 
-      const integration = await this.databaseService.findIntegrationById(integrationId);
+      integration = await this.databaseService.findIntegrationById(integrationId);
       
       if (!integration) {
         res.status(404).json({ error: 'Integration not found' });
@@ -110,9 +300,27 @@ export class IntegrationController {
         return;
       }
 
-      await this.databaseService.deleteIntegration(integrationId);
-      res.status(200).json({ message: 'Integration removed successfully' });
+      // ?tasks=keep keeps accepted tasks from this account; the default deletes them
+      const tasksOption = req.query.tasks || 'delete';
+      if (tasksOption !== 'keep' && tasksOption !== 'delete') {
+        res.status(400).json({ error: 'tasks must be keep or delete' });
+        return;
+      }
+
+      // Revoking runs inside the removal transaction: if the provider can't be reached, nothing is deleted
+      const result = await this.databaseService.deleteIntegrationWithData(
+        integrationId,
+        { deleteTasks: tasksOption === 'delete' },
+        () => this.revokeAccess(integration!)
+      );
+
+      res.status(200).json({ message: 'Integration removed successfully', ...result });
     } catch (error) {
+      if (error instanceof Error && error.message === 'Failed to revoke access') {
+        const providerName = integration?.provider === 'slack' ? 'Slack' : 'Google';
+        res.status(502).json({ error: `Could not revoke access with ${providerName}. The account was not removed; please try again.` });
+        return;
+      }
       console.error('Remove integration error:', error);
       res.status(500).json({ error: 'Failed to remove integration' });
     }
@@ -153,27 +361,36 @@ export class IntegrationController {
   async getAddAccountUrl(req: Request, res: Response): Promise<void> {
     try {
       const user = (req as any).user;
-      const { provider = 'google' } = req.query;
+      const { provider = 'google', integration_id } = req.query;
 
-      if (provider !== 'google') {
-        res.status(400).json({ error: 'Only Google provider is supported' });
+      if (provider !== 'google' && provider !== 'microsoft' && provider !== 'slack') {
+        res.status(400).json({ error: 'Only Google, Microsoft and Slack providers are supported' });
         return;
       }
 
-      // Create state parameter for adding account
-      const state = JSON.stringify({ 
-        action: 'add-account', 
-        currentUserId: user.id 
-      });
+      // Reconnecting an existing account: pre-select it on the provider's account chooser
+      // (for Slack, its workspace)
+      let loginHint: string | undefined;
+      let slackTeamId: string | undefined;
+      if (integration_id) {
+        const integration = await this.databaseService.findIntegrationById(String(integration_id));
+        if (!integration || integration.user_id !== user.id) {
+          res.status(404).json({ error: 'Integration not found' });
+          return;
+        }
+        loginHint = integration.account_email;
+        slackTeamId = integration.metadata?.slackTeamId;
+      }
 
-      const authUrl = `https://accounts.google.com/o/oauth2/v2/auth?` +
-        `client_id=${process.env.GOOGLE_CLIENT_ID}` +
-        `&redirect_uri=${encodeURIComponent(process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/google/callback')}` +
-        `&response_type=code` +
-        `&scope=${encodeURIComponent('https://www.googleapis.com/auth/gmail.readonly https://www.googleapis.com/auth/gmail.modify https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/userinfo.profile')}` +
-        `&access_type=offline` +
-        `&prompt=consent` +
-        `&state=${encodeURIComponent(state)}`;
+      // The state is bound server-side to the authenticated user
+      let authUrl: string;
+      if (provider === 'slack') {
+        authUrl = await this.oauthStateService.getSlackAuthUrl(user.id, slackTeamId);
+      } else if (provider === 'microsoft') {
+        authUrl = await this.oauthStateService.getMicrosoftAuthUrl('add-account', user.id, loginHint);
+      } else {
+        authUrl = await this.oauthStateService.getGoogleAuthUrl('add-account', user.id, loginHint);
+      }
 
       res.json({ authUrl });
     } catch (error) {
@@ -181,4 +398,165 @@ export class IntegrationController {
       res.status(500).json({ error: 'Failed to generate add account URL' });
     }
   }
+
+  /**
+   * List the Slack conversations the user is in, marking the ones watched for tasks
+   */
+  async getSlackChannels(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { integrationId } = req.params;
+
+      const integration = await this.databaseService.findIntegrationById(integrationId);
+      if (!integration || integration.user_id !== user.id || integration.provider !== 'slack') {
+        res.status(404).json({ error: 'Slack integration not found' });
+        return;
+      }
+
+      const slackService = createIntegrationSlackService(integration, this.databaseService);
+      const conversations = await slackService.listConversations();
+      const selectedIds: string[] | undefined = integration.metadata?.slackChannels;
+
+      const channels = await Promise.all(conversations.map(async (conversation) => ({
+        id: conversation.id,
+        // DMs have no name; show the other person instead
+        name: conversation.is_im && conversation.user
+          ? (await slackService.getUser(conversation.user)).name
+          : conversation.name || conversation.id,
+        type: conversation.is_im ? 'im' : conversation.is_mpim ? 'mpim' : conversation.is_private ? 'private_channel' : 'public_channel',
+        selected: isMonitoredConversation(conversation, selectedIds),
+      })));
+
+      res.status(200).json({ channels });
+    } catch (error) {
+      console.error('Get Slack channels error:', error);
+      res.status(500).json({ error: 'Failed to fetch Slack channels' });
+    }
+  }
+
+  /**
+   * Choose which Slack conversations are watched for tasks
+   */
+  async updateSlackChannels(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { integrationId } = req.params;
+      const { channel_ids } = req.body;
+
+      if (!Array.isArray(channel_ids) || !channel_ids.every(id => typeof id === 'string')) {
+        res.status(400).json({ error: 'channel_ids must be an array of conversation IDs' });
+        return;
+      }
+
+      const integration = await this.databaseService.findIntegrationById(integrationId);
+      if (!integration || integration.user_id !== user.id || integration.provider !== 'slack') {
+        res.status(404).json({ error: 'Slack integration not found' });
+        return;
+      }
+
+      // Only keep conversations the user is actually in
+      const conversations = await createIntegrationSlackService(integration, this.databaseService).listConversations();
+      const knownIds = new Set(conversations.map(conversation => conversation.id));
+      const unknownIds = channel_ids.filter(id => !knownIds.has(id));
+      if (unknownIds.length > 0) {
+        res.status(400).json({ error: `Unknown Slack conversations: ${unknownIds.join(', ')}` });
+        return;
+      }
+
+      const latest = await this.databaseService.findIntegrationById(integrationId);
+      await this.databaseService.updateIntegration(integrationId, {
+        metadata: {
+          ...(latest?.metadata || integration.metadata),
+          slackChannels: Array.from(new Set(channel_ids)),
+        },
+      });
+
+      res.status(200).json({ message: 'Slack channels updated successfully', channel_ids: Array.from(new Set(channel_ids)) });
+    } catch (error) {
+      console.error('Update Slack channels error:', error);
+      res.status(500).json({ error: 'Failed to update Slack channels' });
+    }
+  }
+
+  /**
+   * Validate IMAP settings from a request body, returning an error message if they're invalid
+   */
+  private parseImapCredentials(body: any): ImapCredentials | string {
+    const { host, port, secure = true, username, password } = body || {};
+
+    if (typeof host !== 'string' || !host.trim()) return 'host is required';
+    if (typeof username !== 'string' || !username) return 'username is required';
+    if (typeof password !== 'string' || !password) return 'password is required';
+    if (typeof secure !== 'boolean') return 'secure must be true or false';
+
+    const parsedPort = port === undefined || port === '' ? (secure ? 993 : 143) : Number(port);
+    if (!Number.isInteger(parsedPort) || parsedPort < 1 || parsedPort > 65535) {
+      return 'port must be between 1 and 65535';
+    }
+
+    return { host: host.trim(), port: parsedPort, secure, username, password };
+  }
+
+  /**
+   * Log in to the server with the credentials, returning why it failed (or null)
+   */
+  private async verifyImapCredentials(credentials: ImapCredentials): Promise<string | null> {
+    try {
+      await new ImapService(credentials).verify();
+      return null;
+    } catch (error: any) {
+      console.error(`❌ IMAP login to ${credentials.host} failed:`, error);
+      if (error?.authenticationFailed) {
+        return 'The IMAP server rejected the username or password';
+      }
+      return `Could not connect to ${credentials.host}:${credentials.port}: ${error?.responseText || error?.message || 'Unknown error'}`;
+    }
+  }
+
+  /**
+   * Integration metadata that is safe to return to the client. IMAP credentials are
+   * replaced by the server settings (without the password) so the account can be edited.
+   */
+  private getPublicMetadata(integration: Integration): Record<string, any> {
+    const { imapCredentials, ...metadata } = integration.metadata || {};
+    if (!imapCredentials) return metadata;
+
+    try {
+      const { host, port, secure, username } = getImapCredentials(integration);
+      return { ...metadata, imapServer: { host, port, secure, username } };
+    } catch (error) {
+      console.error(`❌ Could not read IMAP settings for integration ${integration.id}:`, error);
+      return metadata;
+    }
+  }
+
+  /**
+   * Revoke the provider grant so removing an account also cuts off our access. Microsoft
+   * has no endpoint to revoke a single grant (only every session of the user), so
+   * Outlook tokens are just deleted with the integration.
+   */
+  private async revokeAccess(integration: Integration): Promise<void> {
+    if (integration.provider === 'slack') {
+      if (!integration.access_token) return;
+      try {
+        await revokeSlackToken(integration.access_token);
+        console.log(`✅ Revoked Slack access for integration ${integration.id}`);
+      } catch (error) {
+        console.error(`❌ Failed to revoke Slack access for integration ${integration.id}:`, error);
+        throw new Error('Failed to revoke access');
+      }
+      return;
+    }
+
+    const token = integration.refresh_token || integration.access_token;
+    if (integration.provider !== 'google' || !token) return;
+
+    try {
+      await revokeGoogleToken(token);
+      console.log(`✅ Revoked Google access for integration ${integration.id}`);
+    } catch (error) {
+      console.error(`❌ Failed to revoke Google access for integration ${integration.id}:`, error);
+      throw new Error('Failed to revoke access');
+    }
+  }
 }
@@ -1,14 +1,27 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../../services/auth/AuthService';
-import { DatabaseService } from '../../services/database/DatabaseService';
+import { OAuthStateService, OAuthProvider, MICROSOFT_SCOPES } from '../../services/auth/OAuthStateService';
+import { DatabaseService, OAuthState } from '../../services/database/DatabaseService';
+import { OutlookService } from '../../services/outlook/OutlookService';
+import { SlackService } from '../../services/slack/SlackService';
+import { getClientInfo } from '../../middleware/auth';
+import { config } from '../../config';
 import axios from 'axios';
 
+const PROVIDER_NAMES: Record<OAuthProvider, string> = {
+  google: 'Gmail',
+  microsoft: 'Outlook',
+  slack: 'Slack',
+};
+
 export class OAuthController {
   private authService: AuthService;
+  private oauthStateService: OAuthStateService;
   private databaseService: DatabaseService;
 
   constructor() {
     this.authService = new AuthService();
+    this.oauthStateService = new OAuthStateService();
     this.databaseService = new DatabaseService();
   }
 
@@ -16,7 +29,7 @@ export class OAuthController {
     try {
       const { code, state } = req.query;
       
-      console.log('OAuth callback received:', { code: !!code, state, query: req.query });
+      console.log('OAuth callback received:', { code: !!code, state: !!state });
       
       if (!code) {
         console.log('No authorization code provided');
@@ -24,18 +37,13 @@ export class OAuthController {
         return;
       }
 
-      // Parse state parameter to determine action
-      let action = 'login';
-      let currentUserId: string | undefined;
-      
-      if (state) {
-        try {
-          const stateData = JSON.parse(state as string);
-          action = stateData.action || 'login';
-          currentUserId = stateData.currentUserId;
-        } catch (error) {
-          console.log('Invalid state parameter, using default action: login');
-        }
+      // The state must be one we issued, unexpired and unused; it tells us the action,
+      // the user (for add-account) and the PKCE verifier
+      const oauthState = typeof state === 'string' ? await this.oauthStateService.consumeState(state, 'google') : null;
+      if (!oauthState) {
+        console.log('Invalid, expired or reused OAuth state');
+        res.status(400).json({ error: 'Invalid or expired OAuth state. Please start sign-in again.' });
+        return;
       }
 
       // Exchange code for tokens
@@ -45,6 +53,7 @@ export class OAuthController {
         client_secret: process.env.GOOGLE_CLIENT_SECRET,
         code,
         grant_type: 'authorization_code',
+        code_verifier: oauthState.code_verifier,
         redirect_uri: process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/google/callback',
       });
       
@@ -61,78 +70,165 @@ export class OAuthController {
 
       const { id: google_id, email, name, picture } = userInfoResponse.data;
 
-      let authResult: { user: any; token: string };
-
-      // Handle different actions
-      if (action === 'add-account' && currentUserId) {
-        // For adding additional account, use the current user ID
-        const currentUser = await this.databaseService.findUserById(currentUserId);
-        if (!currentUser) {
-          throw new Error('Current user not found');
-        }
-        
-        // Use the current user's account
-        const token = await this.authService.createSession(currentUser.id);
-        authResult = { user: currentUser, token };
-        console.log('Adding additional account to existing user:', currentUser.id);
-      } else {
-        // For login or when no current user ID, use the existing logic
-        authResult = await this.authService.findOrCreateUserBySocialId(
-          'google',
-          google_id,
-          email,
-          name
-        );
-      }
-
-      // Check if Gmail integration already exists for this user and email
-      const existingIntegrations = await this.databaseService.findIntegrationsByProvider(
-        authResult.user.id,
-        'google'
+      await this.completeSignIn(req, res, 'google', oauthState, {
+        socialId: google_id,
+        email,
+        name,
+        access_token,
+        refresh_token,
+        metadata: { picture, google_id },
+      });
+    } catch (error) {
+      console.error('Google OAuth callback error:', error);
+      if (axios.isAxiosError(error)) {
+        console.error('Axios error details:', error.response?.data);
+      }
+      res.status(500).json({ error: 'OAuth callback failed' });
+    }
+  }
+
+  async handleMicrosoftCallback(req: Request, res: Response): Promise<void> {
+    try {
+      const { code, state, error, error_description } = req.query;
+
+      console.log('Microsoft OAuth callback received:', { code: !!code, state: !!state, error });
+
+      // The user declined consent or the tenant blocked the app
+      if (error) {
+        res.status(400).json({ error: `Microsoft sign-in failed: ${error_description || error}` });
+        return;
+      }
+
+      if (!code) {
+        res.status(400).json({ error: 'Authorization code is required' });
+        return;
+      }
+
+      const oauthState = typeof state === 'string' ? await this.oauthStateService.consumeState(state, 'microsoft') : null;
+      if (!oauthState) {
+        console.log('Invalid, expired or reused OAuth state');
+        res.status(400).json({ error: 'Invalid or expired OAuth state. Please start sign-in again.' });
+        return;
+      }
+
+      // Microsoft's token endpoint only takes form-encoded bodies
+      console.log('Exchanging Microsoft code for tokens...');
+      const tokenResponse = await axios.post(
+        `${config.microsoft.authorityUrl}/oauth2/v2.0/token`,
+        new URLSearchParams({
+          client_id: config.microsoft.clientId,
+          client_secret: config.microsoft.clientSecret,
+          code: String(code),
+          grant_type: 'authorization_code',
+          code_verifier: oauthState.code_verifier,
+          redirect_uri: config.microsoft.redirectUri,
+          scope: MICROSOFT_SCOPES,
+        }).toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
       );
 
-      const existingIntegration = existingIntegrations.find(
-        integration => integration.account_email === email
+      const { access_token, refresh_token } = tokenResponse.data;
+
+      const profile = await new OutlookService(access_token).getProfile();
+      // Work/school accounts without a mailbox alias only have a UPN
+      const email = profile.mail || profile.userPrincipalName;
+
+      await this.completeSignIn(req, res, 'microsoft', oauthState, {
+        socialId: profile.id,
+        email,
+        name: profile.displayName,
+        access_token,
+        refresh_token,
+        metadata: { microsoft_id: profile.id },
+      });
+    } catch (error) {
+      console.error('Microsoft OAuth callback error:', error);
+      if (axios.isAxiosError(error)) {
+        console.error('Axios error details:', error.response?.data);
+      }
+      res.status(500).json({ error: 'OAuth callback failed' });
+    }
+  }
+
+  async handleSlackCallback(req: Request, res: Response): Promise<void> {
+    try {
+      const { code, state, error } = req.query;
+
+      console.log('Slack OAuth callback received:', { code: !!code, state: !!state, error });
+
+      // The user cancelled or the workspace doesn't allow the app
+      if (error) {
+        res.status(400).json({ error: `Slack authorization failed: ${error}` });
+        return;
+      }
+
+      if (!code) {
+        res.status(400).json({ error: 'Authorization code is required' });
+        return;
+      }
+
+      const oauthState = typeof state === 'string' ? await this.oauthStateService.consumeState(state, 'slack') : null;
+      if (!oauthState || oauthState.action !== 'add-account' || !oauthState.user_id) {
+        console.log('Invalid, expired or reused OAuth state');
+        res.status(400).json({ error: 'Invalid or expired OAuth state. Please start connecting Slack again.' });
+        return;
+      }
+
+      console.log('Exchanging Slack code for tokens...');
+      const tokenResponse = await axios.post(
+        `${config.slack.apiBaseUrl}/oauth.v2.access`,
+        new URLSearchParams({
+          client_id: config.slack.clientId,
+          client_secret: config.slack.clientSecret,
+          code: String(code),
+          redirect_uri: config.slack.redirectUri,
+        }).toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+
+      // Slack reports failures with HTTP 200 and ok: false
+      if (!tokenResponse.data.ok || !tokenResponse.data.authed_user?.access_token) {
+        console.error('Slack token exchange failed:', tokenResponse.data.error);
+        res.status(400).json({ error: 'Slack authorization failed. Please try again.' });
+        return;
+      }
+
+      // Only the user token is used: it sees exactly the conversations the user can see
+      const { access_token, refresh_token } = tokenResponse.data.authed_user;
+
+      const slackService = new SlackService(access_token);
+      const identity = await slackService.getIdentity();
+      const slackUser = await slackService.getUser(identity.userId);
+      if (!slackUser.email) {
+        res.status(400).json({ error: 'Slack did not share an email address for this account' });
+        return;
+      }
+
+      // Integrations are keyed by email, so the same address can't be connected from two workspaces
+      const existingIntegrations = await this.databaseService.findIntegrationsByProvider(oauthState.user_id, 'slack');
+      const conflict = existingIntegrations.find(integration =>
+        integration.account_email === slackUser.email && integration.metadata?.slackTeamId !== identity.teamId
       );
+      if (conflict) {
+        res.status(409).json({ error: `${slackUser.email} is already connected from another Slack workspace (${conflict.metadata?.slackTeamName})` });
+        return;
+      }
 
-      if (existingIntegration) {
-        console.log('Gmail integration already exists for user:', authResult.user.id);
-        // Update the existing integration with new tokens
-        await this.databaseService.updateIntegration(existingIntegration.id, {
-          access_token,
-          refresh_token,
-          metadata: {
-            ...existingIntegration.metadata,
-            picture,
-            google_id,
-          },
-        });
-        console.log('Gmail integration updated with new tokens');
-      } else {
-        console.log('Creating new Gmail integration for user:', authResult.user.id);
-        // Create a new Gmail integration
-        await this.databaseService.createIntegration({
-          user_id: authResult.user.id,
-          provider: 'google',
-          account_name: name || `Gmail (${email})`,
-          account_email: email,
-          access_token,
-          refresh_token,
-          is_active: true,
-          metadata: {
-            picture,
-            google_id,
-          },
-        });
-        console.log('New Gmail integration created successfully');
-      }
-
-      // Redirect to frontend OAuth callback with token and action
-      const redirectUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/oauth-callback?token=${authResult.token}&action=${action}`;
-      console.log('Redirecting to:', redirectUrl);
-      res.redirect(redirectUrl);
+      await this.completeSignIn(req, res, 'slack', oauthState, {
+        socialId: identity.userId,
+        email: slackUser.email,
+        name: `${slackUser.name} (${identity.teamName})`,
+        access_token,
+        refresh_token,
+        metadata: {
+          slackUserId: identity.userId,
+          slackTeamId: identity.teamId,
+          slackTeamName: identity.teamName,
+          slackTeamUrl: identity.teamUrl,
+        },
+      });
     } catch (error) {
-      console.error('Google OAuth callback error:', error);
+      console.error('Slack OAuth callback error:', error);
       if (axios.isAxiosError(error)) {
         console.error('Axios error details:', error.response?.data);
       }
@@ -142,20 +238,15 @@ export class OAuthController {
 
   async getGoogleAuthUrl(req: Request, res: Response): Promise<void> {
     try {
-      const { action = 'login', currentUserId } = req.query;
-      
-      // Create state parameter to track the action
-      const state = JSON.stringify({ action, currentUserId });
-      
-      // Use Gmail scopes for inbox access
-      const authUrl = `https://accounts.google.com/o/oauth2/v2/auth?` +
-        `client_id=${process.env.GOOGLE_CLIENT_ID}` +
-        `&redirect_uri=${encodeURIComponent(process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/google/callback')}` +
-        `&response_type=code` +
-        `&scope=${encodeURIComponent('https://www.googleapis.com/auth/gmail.readonly https://www.googleapis.com/auth/gmail.modify https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/userinfo.profile')}` +
-        `&access_type=offline` +
-        `&prompt=consent` +
-        `&state=${encodeURIComponent(state)}`;
+      const { action = 'login' } = req.query;
+
+      // Adding a mailbox must be started by the signed-in user (GET /api/integrations/add-account-url)
+      if (action !== 'login') {
+        res.status(400).json({ error: 'Only the login action is supported here' });
+        return;
+      }
+
+      const authUrl = await this.oauthStateService.getGoogleAuthUrl('login');
 
       res.json({ authUrl });
     } catch (error) {
@@ -163,4 +254,110 @@ export class OAuthController {
       res.status(500).json({ error: 'Failed to generate auth URL' });
     }
   }
+
+  async getMicrosoftAuthUrl(req: Request, res: Response): Promise<void> {
+    try {
+      const authUrl = await this.oauthStateService.getMicrosoftAuthUrl('login');
+
+      res.json({ authUrl });
+    } catch (error) {
+      console.error('Error generating Microsoft auth URL:', error);
+      res.status(500).json({ error: 'Failed to generate auth URL' });
+    }
+  }
+
+  /**
+   * Shared end of the provider callbacks: resolve the user (the one who started an
+   * add-account flow, or sign in by social ID), save the account as an integration and
+   * redirect to the frontend
+   */
+  private async completeSignIn(
+    req: Request,
+    res: Response,
+    provider: OAuthProvider,
+    oauthState: OAuthState,
+    account: {
+      socialId: string;
+      email: string;
+      name?: string;
+      access_token: string;
+      refresh_token?: string;
+      metadata: Record<string, any>;
+    }
+  ): Promise<void> {
+    const action = oauthState.action;
+    const { email, name, access_token, refresh_token } = account;
+
+    let authResult: { user: any; token?: string; refreshToken?: string };
+
+    // Handle different actions
+    if (action === 'add-account' && oauthState.user_id) {
+      // For adding additional account, use the user who started the flow
+      const currentUser = await this.databaseService.findUserById(oauthState.user_id);
+      if (!currentUser) {
+        throw new Error('Current user not found');
+      }
+      
+      // The browser keeps its existing session, so no new one is issued
+      authResult = { user: currentUser };
+      console.log('Adding additional account to existing user:', currentUser.id);
+    } else if (provider === 'slack') {
+      throw new Error('Slack can only be connected to a signed-in user');
+    } else {
+      // For login, use the existing logic
+      authResult = await this.authService.findOrCreateUserBySocialId(
+        provider,
+        account.socialId,
+        email,
+        name,
+        getClientInfo(req)
+      );
+    }
+
+    // Check if an integration already exists for this user and email
+    const existingIntegrations = await this.databaseService.findIntegrationsByProvider(
+      authResult.user.id,
+      provider
+    );
+
+    const existingIntegration = existingIntegrations.find(
+      integration => integration.account_email === email
+    );
+
+    if (existingIntegration) {
+      console.log(`${provider} integration already exists for user:`, authResult.user.id);
+      // Update the existing integration with new tokens; reconnecting makes it healthy again
+      await this.databaseService.updateIntegration(existingIntegration.id, {
+        access_token,
+        refresh_token,
+        health_status: 'ok',
+        metadata: {
+          ...existingIntegration.metadata,
+          ...account.metadata,
+        },
+      });
+      console.log(`${provider} integration updated with new tokens`);
+    } else {
+      console.log(`Creating new ${provider} integration for user:`, authResult.user.id);
+      await this.databaseService.createIntegration({
+        user_id: authResult.user.id,
+        provider,
+        account_name: name || `${PROVIDER_NAMES[provider]} (${email})`,
+        account_email: email,
+        access_token,
+        refresh_token,
+        is_active: true,
+        metadata: account.metadata,
+      });
+      console.log(`New ${provider} integration created successfully`);
+    }
+
+    // Redirect to frontend OAuth callback with the new session's tokens (login only) and action
+    const tokenParams = authResult.token && authResult.refreshToken
+      ? `token=${authResult.token}&refresh_token=${encodeURIComponent(authResult.refreshToken)}&`
+      : '';
+    const redirectUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/oauth-callback?${tokenParams}action=${action}`;
+    console.log('Redirecting to frontend OAuth callback, action:', action);
+    res.redirect(redirectUrl);
+  }
 }
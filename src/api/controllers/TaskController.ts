@@ -1,5 +1,144 @@
 import { Request, Response } from 'express';
+import { validate as isUuid } from 'uuid';
 import { TaskService } from '../../services/tasks/TaskService';
+import { TaskEdits, TaskQuery, TaskSortField } from '../../services/database/DatabaseService';
+import { getRegisteredAIProviders } from '../../ai/registry';
+import { parseQuickAdd, todayInTimezone } from '../../utils/quickAdd';
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from '../../utils/dueDates';
+
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+const EDITABLE_FIELDS = ['title', 'description', 'priority', 'due_date', 'notes'];
+const STATUSES = ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
+const SORT_FIELDS: TaskSortField[] = ['created_at', 'due_date', 'priority', 'email_received_at'];
+const MAX_PAGE_SIZE = 200;
+const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Validate user edits to a task. Only EDITABLE_FIELDS (plus `allowedExtraFields`) may be
+ * sent; returns an error message for the first invalid field.
+ */
+function parseTaskEdits(body: any, allowedExtraFields: string[] = []): { edits: TaskEdits } | { error: string } {
+  const edits: TaskEdits = {};
+  const { title, description, priority, due_date, notes } = body || {};
+
+  const unknownFields = Object.keys(body || {}).filter(key => !EDITABLE_FIELDS.includes(key) && !allowedExtraFields.includes(key));
+  if (unknownFields.length > 0) {
+    return { error: `Unknown field(s): ${unknownFields.join(', ')}` };
+  }
+
+  if (title !== undefined) {
+    if (typeof title !== 'string' || !title.trim() || title.length > 500) {
+      return { error: 'Title must be a non-empty string of at most 500 characters' };
+    }
+    edits.title = title.trim();
+  }
+
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') {
+      return { error: 'Description must be a string' };
+    }
+    edits.description = description || null;
+  }
+
+  if (priority !== undefined) {
+    if (!PRIORITIES.includes(priority)) {
+      return { error: `Priority must be one of ${PRIORITIES.join(', ')}` };
+    }
+    edits.priority = priority;
+  }
+
+  if (due_date !== undefined) {
+    if (due_date !== null && (typeof due_date !== 'string' || !isDateOnly(due_date))) {
+      return { error: 'Due date must be a date (YYYY-MM-DD) or null' };
+    }
+    edits.due_date = due_date;
+  }
+
+  if (notes !== undefined) {
+    if (notes !== null && (typeof notes !== 'string' || notes.length > 10000)) {
+      return { error: 'Notes must be a string of at most 10000 characters' };
+    }
+    edits.notes = notes || null;
+  }
+
+  return { edits };
+}
+
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined || value === '') return undefined;
+  const items = (Array.isArray(value) ? value : [value]).flatMap(item => String(item).split(','));
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+// A calendar date as YYYY-MM-DD; overflowing days such as 2026-02-30 are rejected
+function isDateOnly(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().substring(0, 10) === value;
+}
+
+/**
+ * Validate GET /api/tasks query parameters. List filters take comma-separated values
+ * (e.g. `status=PENDING,IN_PROGRESS`).
+ */
+function parseTaskQuery(params: any): { taskQuery: TaskQuery } | { error: string } {
+  const taskQuery: TaskQuery = {};
+
+  const status = parseList(params.status);
+  if (status) {
+    if (status.some(value => !STATUSES.includes(value))) return { error: `Status must be one of ${STATUSES.join(', ')}` };
+    taskQuery.status = status as TaskQuery['status'];
+  }
+
+  const priority = parseList(params.priority);
+  if (priority) {
+    if (priority.some(value => !PRIORITIES.includes(value))) return { error: `Priority must be one of ${PRIORITIES.join(', ')}` };
+    taskQuery.priority = priority as TaskQuery['priority'];
+  }
+
+  taskQuery.source = parseList(params.source);
+
+  if (params.account_email !== undefined && params.account_email !== '') {
+    taskQuery.accountEmail = String(params.account_email);
+  }
+
+  for (const [param, key] of [['due_from', 'dueFrom'], ['due_to', 'dueTo']] as const) {
+    if (params[param] !== undefined && params[param] !== '') {
+      if (!isDateOnly(String(params[param]))) return { error: `${param} must be a date (YYYY-MM-DD)` };
+      taskQuery[key] = String(params[param]);
+    }
+  }
+
+  if (params.q !== undefined && String(params.q).trim()) {
+    taskQuery.text = String(params.q).trim().substring(0, 200);
+  }
+
+  if (params.exclude_self_sent !== undefined) {
+    taskQuery.excludeSelfSent = params.exclude_self_sent === 'true';
+  }
+
+  if (params.sort !== undefined) {
+    if (!SORT_FIELDS.includes(params.sort)) return { error: `Sort must be one of ${SORT_FIELDS.join(', ')}` };
+    taskQuery.sort = params.sort;
+  }
+
+  if (params.order !== undefined) {
+    if (params.order !== 'asc' && params.order !== 'desc') return { error: 'Order must be asc or desc' };
+    taskQuery.order = params.order;
+  }
+
+  if (params.limit !== undefined) {
+    const limit = parseInt(String(params.limit), 10);
+    if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) return { error: `Limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    taskQuery.limit = limit;
+  }
+
+  if (params.cursor !== undefined && params.cursor !== '') {
+    taskQuery.cursor = String(params.cursor);
+  }
+
+  return { taskQuery };
+}
 
 export class TaskController {
   private taskService: TaskService;
@@ -19,23 +158,28 @@ export class TaskController {
       }
 
       console.log(`🔍 [DEBUG] Parsing tasks for user ${user.id}, integration ${integrationId}`);
-      
-      // Set up SSE headers for real-time updates
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Cache-Control'
-      });
 
-      // Send initial status
-      res.write(`data: ${JSON.stringify({ type: 'start', message: 'Starting parsing...' })}\n\n`);
-      
-      const result = await this.taskService.parseGmailForTasks(user.id, integrationId, (progress) => {
+      const result = await this.taskService.runManualSync(user.id, integrationId, () => {
+        // Set up SSE headers for real-time updates once the sync lease is held
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Cache-Control'
+        });
+
+        // Send initial status
+        res.write(`data: ${JSON.stringify({ type: 'start', message: 'Starting parsing...', provider: this.taskService.getAIProviderName() })}\n\n`);
+      }, (progress) => {
         // Send progress updates to frontend
         res.write(`data: ${JSON.stringify(progress)}\n\n`);
       });
+
+      if (!result) {
+        res.status(409).json({ error: 'This account is already being synced' });
+        return;
+      }
       
       console.log(`✅ [DEBUG] Parse result for integration ${integrationId}:`, result);
       
@@ -45,12 +189,25 @@ export class TaskController {
         message: 'Gmail parsing completed',
         extracted: result.extracted,
         created: result.created,
+        updated: result.updated,
         processed: result.processed,
+        skipped: result.skipped,
+        failed: result.failed,
       })}\n\n`);
       
       res.end();
     } catch (error) {
       console.error('Parse Gmail for tasks error:', error);
+
+      // Errors before streaming started are plain JSON responses
+      if (!res.headersSent) {
+        if (error instanceof Error && error.message === 'Integration not found') {
+          res.status(404).json({ error: 'Integration not found' });
+        } else {
+          res.status(500).json({ error: 'Failed to parse Gmail for tasks' });
+        }
+        return;
+      }
       
       // Send error via SSE
       res.write(`data: ${JSON.stringify({ 
@@ -64,27 +221,412 @@ export class TaskController {
   async getUserTasks(req: Request, res: Response): Promise<void> {
     try {
       const user = (req as any).user;
-      const tasks = await this.taskService.getUserTasks(user.id);
 
-      res.status(200).json({ tasks });
+      const parsed = parseTaskQuery(req.query);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const page = await this.taskService.queryTasks(user.id, parsed.taskQuery);
+
+      res.status(200).json({ 
+        tasks: page.tasks,
+        nextCursor: page.nextCursor,
+        hasMore: page.nextCursor !== null
+      });
     } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid cursor') {
+        res.status(400).json({ error: 'Invalid cursor' });
+        return;
+      }
       console.error('Get user tasks error:', error);
       res.status(500).json({ error: 'Failed to fetch tasks' });
     }
   }
 
+  async getTaskCounts(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const counts = await this.taskService.getTaskCounts(user.id);
+
+      res.status(200).json(counts);
+    } catch (error) {
+      console.error('Get task counts error:', error);
+      res.status(500).json({ error: 'Failed to fetch task counts' });
+    }
+  }
+
+  async searchTasks(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const text = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+      if (!text || text.length > 200) {
+        res.status(400).json({ error: 'Search query (q) must be between 1 and 200 characters' });
+        return;
+      }
+
+      let limit = 20;
+      if (req.query.limit !== undefined) {
+        limit = parseInt(String(req.query.limit), 10);
+        if (isNaN(limit) || limit < 1 || limit > MAX_SEARCH_RESULTS) {
+          res.status(400).json({ error: `Limit must be between 1 and ${MAX_SEARCH_RESULTS}` });
+          return;
+        }
+      }
+
+      const results = await this.taskService.searchTasks(user.id, text, limit);
+
+      res.status(200).json({ results });
+    } catch (error) {
+      console.error('Search tasks error:', error);
+      res.status(500).json({ error: 'Failed to search tasks' });
+    }
+  }
+
+  /**
+   * Create a manual task from explicit fields, or from quick-add `text` such as
+   * "Call Bob tomorrow 3pm high". Explicit fields win over what is parsed from text.
+   */
+  async createTask(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { text, timezone } = req.body || {};
+
+      const parsed = parseTaskEdits(req.body, ['text', 'timezone']);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const fields = { ...parsed.edits };
+      let dueAt: string | undefined;
+
+      if (text !== undefined) {
+        if (typeof text !== 'string' || !text.trim() || text.length > 1000) {
+          res.status(400).json({ error: 'Text must be a non-empty string of at most 1000 characters' });
+          return;
+        }
+
+        const zone = timezone || user.timezone || DEFAULT_TIMEZONE;
+        let today: string;
+        try {
+          today = todayInTimezone(zone);
+        } catch (error) {
+          res.status(400).json({ error: `Unknown timezone: ${timezone}` });
+          return;
+        }
+
+        const quickAdd = parseQuickAdd(text, today);
+        fields.title = fields.title ?? (quickAdd.title.substring(0, 500) || undefined);
+        fields.priority = fields.priority ?? quickAdd.priority;
+        if (fields.due_date === undefined) {
+          fields.due_date = quickAdd.dueDate;
+          // "3pm" makes the deadline an exact moment, like a time read from an email
+          if (quickAdd.dueDate && quickAdd.dueTime) {
+            dueAt = zonedTimeToUtc(quickAdd.dueDate, quickAdd.dueTime, zone).toISOString();
+          }
+        }
+      }
+
+      if (!fields.title) {
+        res.status(400).json({ error: 'Title is required' });
+        return;
+      }
+
+      const task = await this.taskService.createManualTask(user.id, { ...fields, title: fields.title, due_at: dueAt });
+
+      res.status(201).json({ 
+        message: 'Task created',
+        task 
+      });
+    } catch (error) {
+      console.error('Create task error:', error);
+      res.status(500).json({ error: 'Failed to create task' });
+    }
+  }
+
+  async getTaskSuggestions(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const suggestions = await this.taskService.getTaskSuggestions(user.id);
+
+      res.status(200).json({ suggestions });
+    } catch (error) {
+      console.error('Get task suggestions error:', error);
+      res.status(500).json({ error: 'Failed to fetch task suggestions' });
+    }
+  }
+
+  async acceptSuggestion(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { taskId } = req.params;
+
+      // IDs are UUIDs; anything else can't match, and Postgres would reject it outright
+      if (!isUuid(taskId)) {
+        res.status(404).json({ error: 'Suggestion not found' });
+        return;
+      }
+
+      const parsed = parseTaskEdits(req.body);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const task = await this.taskService.acceptSuggestion(user.id, taskId, parsed.edits);
+      if (!task) {
+        res.status(404).json({ error: 'Suggestion not found' });
+        return;
+      }
+
+      res.status(200).json({ 
+        message: 'Suggestion accepted',
+        task 
+      });
+    } catch (error) {
+      console.error('Accept suggestion error:', error);
+      res.status(500).json({ error: 'Failed to accept suggestion' });
+    }
+  }
+
+  async rejectSuggestion(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { taskId } = req.params;
+
+      if (!isUuid(taskId)) {
+        res.status(404).json({ error: 'Suggestion not found' });
+        return;
+      }
+
+      const task = await this.taskService.rejectSuggestion(user.id, taskId);
+      if (!task) {
+        res.status(404).json({ error: 'Suggestion not found' });
+        return;
+      }
+
+      res.status(200).json({ message: 'Suggestion rejected' });
+    } catch (error) {
+      console.error('Reject suggestion error:', error);
+      res.status(500).json({ error: 'Failed to reject suggestion' });
+    }
+  }
+
+  async getPossibleDuplicates(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const duplicates = await this.taskService.getPossibleDuplicates(user.id);
+
+      res.status(200).json({ duplicates });
+    } catch (error) {
+      console.error('Get possible duplicates error:', error);
+      res.status(500).json({ error: 'Failed to fetch possible duplicates' });
+    }
+  }
+
+  async mergeDuplicate(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { duplicateId } = req.params;
+      // Keep the earlier task unless told otherwise
+      const keep = req.body?.keep ?? 'duplicate_of';
+
+      if (!isUuid(duplicateId)) {
+        res.status(404).json({ error: 'Possible duplicate not found' });
+        return;
+      }
+
+      if (keep !== 'task' && keep !== 'duplicate_of') {
+        res.status(400).json({ error: 'keep must be "task" or "duplicate_of"' });
+        return;
+      }
+
+      const task = await this.taskService.mergeDuplicate(user.id, duplicateId, keep);
+      if (!task) {
+        res.status(404).json({ error: 'Possible duplicate not found' });
+        return;
+      }
+
+      res.status(200).json({
+        message: 'Tasks merged',
+        task
+      });
+    } catch (error) {
+      console.error('Merge duplicate error:', error);
+      res.status(500).json({ error: 'Failed to merge tasks' });
+    }
+  }
+
+  async dismissDuplicate(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { duplicateId } = req.params;
+
+      if (!isUuid(duplicateId)) {
+        res.status(404).json({ error: 'Possible duplicate not found' });
+        return;
+      }
+
+      const dismissed = await this.taskService.dismissDuplicate(user.id, duplicateId);
+      if (!dismissed) {
+        res.status(404).json({ error: 'Possible duplicate not found' });
+        return;
+      }
+
+      res.status(200).json({ message: 'Possible duplicate dismissed' });
+    } catch (error) {
+      console.error('Dismiss duplicate error:', error);
+      res.status(500).json({ error: 'Failed to dismiss possible duplicate' });
+    }
+  }
+
+  async getTaskSources(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { taskId } = req.params;
+
+      if (!isUuid(taskId)) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      const sources = await this.taskService.getTaskSources(user.id, taskId);
+      if (!sources) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      res.status(200).json({ sources });
+    } catch (error) {
+      console.error('Get task sources error:', error);
+      res.status(500).json({ error: 'Failed to fetch task sources' });
+    }
+  }
+
+  async getSenderRules(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const rules = await this.taskService.getSenderRules(user.id);
+
+      res.status(200).json({ rules });
+    } catch (error) {
+      console.error('Get sender rules error:', error);
+      res.status(500).json({ error: 'Failed to fetch sender rules' });
+    }
+  }
+
+  async saveSenderRule(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { pattern, action } = req.body || {};
+
+      if (action !== 'allow' && action !== 'deny') {
+        res.status(400).json({ error: 'action must be "allow" or "deny"' });
+        return;
+      }
+
+      const rule = typeof pattern === 'string' ? await this.taskService.saveSenderRule(user.id, pattern, action) : null;
+      if (!rule) {
+        res.status(400).json({ error: 'pattern must be an email address or a domain' });
+        return;
+      }
+
+      res.status(201).json({ rule });
+    } catch (error) {
+      console.error('Save sender rule error:', error);
+      res.status(500).json({ error: 'Failed to save sender rule' });
+    }
+  }
+
+  async deleteSenderRule(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { ruleId } = req.params;
+
+      if (!isUuid(ruleId)) {
+        res.status(404).json({ error: 'Sender rule not found' });
+        return;
+      }
+
+      const deleted = await this.taskService.deleteSenderRule(user.id, ruleId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Sender rule not found' });
+        return;
+      }
+
+      res.status(200).json({ message: 'Sender rule deleted' });
+    } catch (error) {
+      console.error('Delete sender rule error:', error);
+      res.status(500).json({ error: 'Failed to delete sender rule' });
+    }
+  }
+
+  async updateTask(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+      const { taskId } = req.params;
+      const { updated_at } = req.body || {};
+
+      if (!isUuid(taskId)) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      if (!updated_at || typeof updated_at !== 'string' || isNaN(new Date(updated_at).getTime())) {
+        res.status(400).json({ error: 'updated_at of the task being edited is required' });
+        return;
+      }
+
+      const parsed = parseTaskEdits(req.body, ['updated_at']);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      if (Object.keys(parsed.edits).length === 0) {
+        res.status(400).json({ error: `At least one of ${EDITABLE_FIELDS.join(', ')} is required` });
+        return;
+      }
+
+      const result = await this.taskService.editTask(user.id, taskId, parsed.edits, updated_at);
+      if (!result) {
+        res.status(404).json({ error: 'Task not found' });
+        return;
+      }
+
+      if (result.conflict) {
+        res.status(409).json({ 
+          error: 'Task was modified by someone else. Review the latest version and try again.',
+          task: result.task 
+        });
+        return;
+      }
+
+      res.status(200).json({ 
+        message: 'Task updated',
+        task: result.task 
+      });
+    } catch (error) {
+      console.error('Update task error:', error);
+      res.status(500).json({ error: 'Failed to update task' });
+    }
+  }
+
   async updateTaskStatus(req: Request, res: Response): Promise<void> {
     try {
       const user = (req as any).user;
       const { taskId } = req.params;
       const { status } = req.body;
 
-      if (!status || !['PENDING', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'].includes(status)) {
+      if (!status || !STATUSES.includes(status)) {
         res.status(400).json({ error: 'Valid status is required' });
         return;
       }
 
-      const updatedTask = await this.taskService.updateTaskStatus(taskId, status);
+      const updatedTask = await this.taskService.updateTaskStatus(user.id, taskId, status);
 
       res.status(200).json({ 
         message: 'Task status updated',
@@ -156,6 +698,21 @@ export class TaskController {
     }
   }
 
+  async getAIStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const isAvailable = await this.taskService.isAIAvailable();
+
+      res.status(200).json({
+        provider: this.taskService.getAIProviderName(),
+        available: isAvailable,
+        registeredProviders: getRegisteredAIProviders(),
+      });
+    } catch (error) {
+      console.error('Get AI status error:', error);
+      res.status(500).json({ error: 'Failed to get AI provider status' });
+    }
+  }
+
   async debugParsing(req: Request, res: Response): Promise<void> {
     try {
       const user = (req as any).user;
@@ -166,9 +723,10 @@ export class TaskController {
       const integrations = await this.taskService.getIntegrationsForUser(user.id);
       console.log(`🔍 [DEBUG] User has ${integrations.length} integrations:`, integrations.map(i => ({ id: i.id, provider: i.provider, account_email: i.account_email, is_active: i.is_active })));
       
-      // Check if Ollama is available
-      const isOllamaAvailable = await this.taskService.isOllamaAvailable();
-      console.log(`🔍 [DEBUG] Ollama available: ${isOllamaAvailable}`);
+      // Check if the configured AI provider is available
+      const aiProvider = this.taskService.getAIProviderName();
+      const isAIAvailable = await this.taskService.isAIAvailable();
+      console.log(`🔍 [DEBUG] AI provider ${aiProvider} available: ${isAIAvailable}`);
       
       // Check if user has any tasks
       const tasks = await this.taskService.getUserTasks(user.id);
@@ -178,7 +736,8 @@ export class TaskController {
         user_id: user.id,
         integrations_count: integrations.length,
         integrations: integrations.map(i => ({ id: i.id, provider: i.provider, account_email: i.account_email, is_active: i.is_active })),
-        ollama_available: isOllamaAvailable,
+        ai_provider: aiProvider,
+        ai_available: isAIAvailable,
         tasks_count: tasks.length,
         message: 'Debug information logged to console'
       });
@@ -1,17 +1,30 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/AuthController';
 import { OAuthController } from '../controllers/OAuthController';
-import { authMiddleware } from '../../middleware/auth';
+import { ApiTokenController } from '../controllers/ApiTokenController';
+import { authMiddleware, requireSession } from '../../middleware/auth';
 
 const router = Router();
 const authController = new AuthController();
 const oauthController = new OAuthController();
+const apiTokenController = new ApiTokenController();
 
 // OAuth routes
 router.get('/google-auth-url', (req, res) => oauthController.getGoogleAuthUrl(req, res));
+router.get('/microsoft-auth-url', (req, res) => oauthController.getMicrosoftAuthUrl(req, res));
+router.post('/refresh', (req, res) => authController.refresh(req, res));
 
 // Protected routes only (authentication handled by Google OAuth)
 router.post('/logout', authMiddleware, (req, res) => authController.logout(req, res));
 router.get('/me', authMiddleware, (req, res) => authController.me(req, res));
+router.patch('/me', authMiddleware, requireSession, (req, res) => authController.updateMe(req, res));
+router.post('/logout-all', authMiddleware, requireSession, (req, res) => authController.logoutAll(req, res));
+router.get('/sessions', authMiddleware, requireSession, (req, res) => authController.listSessions(req, res));
+router.delete('/sessions/:sessionId', authMiddleware, requireSession, (req, res) => authController.revokeSession(req, res));
+
+// Personal access tokens (managed from a browser session only)
+router.get('/tokens', authMiddleware, requireSession, (req, res) => apiTokenController.listTokens(req, res));
+router.post('/tokens', authMiddleware, requireSession, (req, res) => apiTokenController.createToken(req, res));
+router.delete('/tokens/:tokenId', authMiddleware, requireSession, (req, res) => apiTokenController.revokeToken(req, res));
 
 export default router;
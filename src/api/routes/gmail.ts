@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { GmailController } from '../controllers/GmailController';
-import { authMiddleware } from '../../middleware/auth';
+import { authMiddleware, requireScope } from '../../middleware/auth';
 
 const router = Router();
 const gmailController = new GmailController();
 
-// All routes require authentication
+// All routes require authentication (API tokens need the gmail:read scope)
 router.use(authMiddleware);
+router.use(requireScope('gmail:read'));
 
 // Get Gmail profile
 router.get('/profile', (req, res) => gmailController.getGmailProfile(req, res));
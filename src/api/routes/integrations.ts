@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { IntegrationController } from '../controllers/IntegrationController';
-import { authMiddleware } from '../../middleware/auth';
+import { authMiddleware, requireSession } from '../../middleware/auth';
 
 const router = Router();
 const integrationController = new IntegrationController();
 
-// All routes require authentication
+// All routes require a signed-in user; connected accounts can't be managed with API tokens
 router.use(authMiddleware);
+router.use(requireSession);
 
 // Get all integrations (keychain)
 router.get('/', (req, res) => integrationController.getIntegrations(req, res));
@@ -14,9 +15,17 @@ router.get('/', (req, res) => integrationController.getIntegrations(req, res));
 // Get OAuth URL for adding a new account
 router.get('/add-account-url', (req, res) => integrationController.getAddAccountUrl(req, res));
 
+// Connect an IMAP mailbox, or update its server settings and password
+router.post('/imap', (req, res) => integrationController.addImapAccount(req, res));
+router.put('/:integrationId/imap', (req, res) => integrationController.updateImapCredentials(req, res));
+
 // Remove an integration
 router.delete('/:integrationId', (req, res) => integrationController.removeIntegration(req, res));
 
+// Choose the Slack conversations watched for tasks
+router.get('/:integrationId/slack/channels', (req, res) => integrationController.getSlackChannels(req, res));
+router.put('/:integrationId/slack/channels', (req, res) => integrationController.updateSlackChannels(req, res));
+
 // Toggle integration active status
 router.patch('/:integrationId/toggle', (req, res) => integrationController.toggleIntegration(req, res));
 
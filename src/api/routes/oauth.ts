@@ -7,5 +7,7 @@ const oauthController = new OAuthController();
 // OAuth routes
 router.get('/google/auth-url', (req, res) => oauthController.getGoogleAuthUrl(req, res));
 router.get('/google/callback', (req, res) => oauthController.handleGoogleCallback(req, res));
+router.get('/microsoft/callback', (req, res) => oauthController.handleMicrosoftCallback(req, res));
+router.get('/slack/callback', (req, res) => oauthController.handleSlackCallback(req, res));
 
 export default router;
@@ -1,17 +1,32 @@
 import { Router } from 'express';
 import { TaskController } from '../controllers/TaskController';
-import { authMiddleware } from '../../middleware/auth';
+import { authMiddleware, requireScope } from '../../middleware/auth';
 
 const router = Router();
 const taskController = new TaskController();
 
-// Task routes (all require authentication)
-router.post('/parse-gmail', authMiddleware, (req, res) => taskController.parseGmailForTasks(req, res));
-router.post('/reset-tracking', authMiddleware, (req, res) => taskController.resetMessageTracking(req, res));
-router.get('/unparsed-count', authMiddleware, (req, res) => taskController.getUnparsedMessageCount(req, res));
-router.get('/debug', authMiddleware, (req, res) => taskController.debugParsing(req, res));
-router.get('/', authMiddleware, (req, res) => taskController.getUserTasks(req, res));
-router.patch('/:taskId/status', authMiddleware, (req, res) => taskController.updateTaskStatus(req, res));
-router.delete('/:taskId', authMiddleware, (req, res) => taskController.deleteTask(req, res));
+// Task routes (all require authentication; API tokens need tasks:read or tasks:write)
+router.post('/parse-gmail', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.parseGmailForTasks(req, res));
+router.post('/reset-tracking', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.resetMessageTracking(req, res));
+router.get('/unparsed-count', authMiddleware, requireScope('tasks:read'), (req, res) => taskController.getUnparsedMessageCount(req, res));
+router.get('/ai-status', authMiddleware, requireScope('tasks:read'), (req, res) => taskController.getAIStatus(req, res));
+router.get('/debug', authMiddleware, requireScope('tasks:read'), (req, res) => taskController.debugParsing(req, res));
+router.get('/counts', authMiddleware, requireScope('tasks:read'), (req, res) => taskController.getTaskCounts(req, res));
+router.get('/search', authMiddleware, requireScope('tasks:read'), (req, res) => taskController.searchTasks(req, res));
+router.get('/suggestions', authMiddleware, requireScope('tasks:read'), (req, res) => taskController.getTaskSuggestions(req, res));
+router.post('/suggestions/:taskId/accept', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.acceptSuggestion(req, res));
+router.post('/suggestions/:taskId/reject', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.rejectSuggestion(req, res));
+router.get('/duplicates', authMiddleware, requireScope('tasks:read'), (req, res) => taskController.getPossibleDuplicates(req, res));
+router.post('/duplicates/:duplicateId/merge', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.mergeDuplicate(req, res));
+router.post('/duplicates/:duplicateId/dismiss', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.dismissDuplicate(req, res));
+router.get('/sender-rules', authMiddleware, requireScope('tasks:read'), (req, res) => taskController.getSenderRules(req, res));
+router.post('/sender-rules', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.saveSenderRule(req, res));
+router.delete('/sender-rules/:ruleId', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.deleteSenderRule(req, res));
+router.get('/', authMiddleware, requireScope('tasks:read'), (req, res) => taskController.getUserTasks(req, res));
+router.post('/', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.createTask(req, res));
+router.get('/:taskId/sources', authMiddleware, requireScope('tasks:read'), (req, res) => taskController.getTaskSources(req, res));
+router.patch('/:taskId', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.updateTask(req, res));
+router.patch('/:taskId/status', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.updateTaskStatus(req, res));
+router.delete('/:taskId', authMiddleware, requireScope('tasks:write'), (req, res) => taskController.deleteTask(req, res));
 
 export default router;
@@ -0,0 +1,50 @@
+/**
+ * Re-encrypt integration tokens (and IMAP credentials) with the current master key.
+ *
+ *   npm run rotate-token-keys            # rows that are unencrypted or on an older key version
+ *   npm run rotate-token-keys -- --all   # every row, with fresh data keys
+ *
+ * To rotate: add the new key to TOKEN_ENCRYPTION_KEYS with a higher version (keep the old
+ * one), run this command, then remove the old key once it reports no failures.
+ */
+import { connectDatabase, databaseService } from '../db';
+import { getCurrentKeyVersion } from '../utils/tokenEncryption';
+import { closePool } from '../utils/postgres';
+
+async function rotateTokenKeys(): Promise<void> {
+  const includeCurrent = process.argv.includes('--all');
+
+  await connectDatabase();
+
+  const currentVersion = getCurrentKeyVersion();
+  if (currentVersion === null) {
+    console.error('❌ TOKEN_ENCRYPTION_KEYS is not set; nothing to encrypt with');
+    process.exitCode = 1;
+    return;
+  }
+
+  const integrationIds = await databaseService.findIntegrationIdsForKeyRotation(includeCurrent);
+  console.log(`🔑 Re-encrypting ${integrationIds.length} integration(s) with key version ${currentVersion}`);
+
+  let failed = 0;
+  for (const integrationId of integrationIds) {
+    try {
+      await databaseService.reencryptIntegrationTokens(integrationId);
+    } catch (error) {
+      failed++;
+      console.error(`❌ Failed to re-encrypt integration ${integrationId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`✅ Re-encrypted ${integrationIds.length - failed} integration(s)${failed > 0 ? `, ${failed} failed` : ''}`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+rotateTokenKeys()
+  .catch((error) => {
+    console.error('❌ Key rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -13,38 +13,92 @@ export const config = {
   },
   jwt: {
     secret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-here',
-    expiresIn: '7d',
+  },
+  session: {
+    accessTokenTtlMinutes: parseInt(process.env.SESSION_ACCESS_TTL_MINUTES || '60', 10), // Lifetime of an access token before it must be refreshed
+    idleTimeoutDays: parseInt(process.env.SESSION_IDLE_TIMEOUT_DAYS || '7', 10), // Sessions not refreshed for this long expire
+    maxLifetimeDays: parseInt(process.env.SESSION_MAX_LIFETIME_DAYS || '30', 10), // Hard cap, however active the session is
+  },
+  oauth: {
+    stateSecret: process.env.OAUTH_STATE_SECRET || process.env.JWT_SECRET || 'your-super-secret-jwt-key-here', // Signs the OAuth state parameter
+    stateTtlMinutes: parseInt(process.env.OAUTH_STATE_TTL_MINUTES || '10', 10), // How long a sign-in/add-account flow may take
+  },
+  tokenEncryption: {
+    keys: process.env.TOKEN_ENCRYPTION_KEYS || '', // Master keys as "<version>:<base64 32-byte key>", comma-separated
+    currentVersion: process.env.TOKEN_ENCRYPTION_KEY_VERSION ? parseInt(process.env.TOKEN_ENCRYPTION_KEY_VERSION, 10) : undefined, // Defaults to the highest version
   },
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
     nodeEnv: process.env.NODE_ENV || 'development',
   },
   ai: {
+    provider: process.env.AI_PROVIDER || 'ollama', // Registered provider name: ollama | openai
+    maxParseAttempts: parseInt(process.env.AI_MAX_PARSE_ATTEMPTS || '3', 10), // Extraction attempts per message before giving up on it
     ollama: {
       baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
       model: process.env.OLLAMA_MODEL || 'llama3.2:3b', // Better model with larger context
       maxTokens: parseInt(process.env.OLLAMA_MAX_TOKENS || '8000', 10), // Increased context window
       batchSize: parseInt(process.env.OLLAMA_BATCH_SIZE || '5', 10),
+      embeddingModel: process.env.OLLAMA_EMBEDDING_MODEL || '', // e.g. nomic-embed-text; enables embedding-based duplicate detection
+    },
+    openai: {
+      baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:8080', // Any OpenAI-compatible server (llama.cpp, vLLM, ...)
+      apiKey: process.env.OPENAI_API_KEY || '',
+      model: process.env.OPENAI_MODEL || 'default',
+      maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '8000', 10),
+      batchSize: parseInt(process.env.OPENAI_BATCH_SIZE || '5', 10),
     },
   },
+  duplicates: {
+    titleSimilarity: parseFloat(process.env.DUPLICATE_TITLE_SIMILARITY || '0.8'), // Title bigram similarity (0-1) from which tasks are flagged as possible duplicates
+    embeddingSimilarity: parseFloat(process.env.DUPLICATE_EMBEDDING_SIMILARITY || '0.9'), // Cosine similarity of title embeddings, when enabled
+    windowDays: parseInt(process.env.DUPLICATE_WINDOW_DAYS || '30', 10), // Only tasks created this recently are compared
+  },
+  filters: {
+    skipListUnsubscribe: process.env.FILTER_SKIP_LIST_UNSUBSCRIBE !== 'false', // Skip messages with a List-Unsubscribe header (newsletters, mailing lists)
+    skipBulkPrecedence: process.env.FILTER_SKIP_BULK_PRECEDENCE !== 'false', // Skip messages marked Precedence: bulk, list or junk
+    skipLabels: (process.env.FILTER_SKIP_LABELS ?? 'CATEGORY_PROMOTIONS,CATEGORY_UPDATES') // Gmail labels whose messages are skipped
+      .split(',').map(label => label.trim()).filter(label => label !== ''),
+  },
+  monitor: {
+    enabled: process.env.MONITOR_ENABLED !== 'false',
+    intervalMinutes: parseInt(process.env.MONITOR_INTERVAL_MINUTES || '5', 10), // How often each mailbox is checked
+    maxBackoffMinutes: parseInt(process.env.MONITOR_MAX_BACKOFF_MINUTES || '240', 10),
+    leaseMinutes: parseInt(process.env.MONITOR_LEASE_MINUTES || '30', 10), // Longest a single run may hold an integration
+    quotaCooldownMinutes: parseInt(process.env.MONITOR_QUOTA_COOLDOWN_MINUTES || '60', 10), // Pause for accounts that hit Gmail quota limits
+  },
   slack: {
     clientId: process.env.SLACK_CLIENT_ID || '',
     clientSecret: process.env.SLACK_CLIENT_SECRET || '',
     redirectUri: process.env.SLACK_REDIRECT_URI || 'http://localhost:3000/auth/slack/callback',
+    authorizeUrl: process.env.SLACK_AUTHORIZE_URL || 'https://slack.com/oauth/v2/authorize',
+    apiBaseUrl: process.env.SLACK_API_BASE_URL || 'https://slack.com/api', // Point at a local fake Web API server for testing
+    fullSyncDays: parseInt(process.env.SLACK_FULL_SYNC_DAYS || '7', 10), // History scanned for a newly selected conversation
+    threadDays: parseInt(process.env.SLACK_THREAD_DAYS || '7', 10), // How long threads are checked for new replies
   },
   gmail: {
     clientId: process.env.GOOGLE_CLIENT_ID || '',
     clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
     redirectUri: process.env.GMAIL_REDIRECT_URI || 'http://localhost:3000/auth/gmail/callback',
+    fullSyncMaxMessages: parseInt(process.env.GMAIL_FULL_SYNC_MAX_MESSAGES || '500', 10), // Inbox depth scanned when there is no valid history cursor
+  },
+  imap: {
+    fullSyncMaxMessages: parseInt(process.env.IMAP_FULL_SYNC_MAX_MESSAGES || '500', 10), // Newest inbox messages scanned when there is no valid UID cursor
+    connectionTimeoutSeconds: parseInt(process.env.IMAP_CONNECTION_TIMEOUT_SECONDS || '30', 10),
+    tlsRejectUnauthorized: process.env.IMAP_TLS_REJECT_UNAUTHORIZED !== 'false', // Set to false to allow self-signed certificates (local test servers)
   },
   microsoft: {
     clientId: process.env.MICROSOFT_CLIENT_ID || '',
     clientSecret: process.env.MICROSOFT_CLIENT_SECRET || '',
     redirectUri: process.env.MICROSOFT_REDIRECT_URI || 'http://localhost:3000/auth/microsoft/callback',
+    authorityUrl: process.env.MICROSOFT_AUTHORITY_URL || 'https://login.microsoftonline.com/common', // OAuth authorize/token endpoints live under here
+    graphBaseUrl: process.env.MICROSOFT_GRAPH_BASE_URL || 'https://graph.microsoft.com/v1.0', // Point at a local fake Graph server for testing
+    fullSyncDays: parseInt(process.env.OUTLOOK_FULL_SYNC_DAYS || '14', 10), // Inbox age scanned when there is no valid delta link
   },
   google: {
     clientId: process.env.GOOGLE_CLIENT_ID || '',
     clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+    revokeUrl: process.env.GOOGLE_REVOKE_URL || 'https://oauth2.googleapis.com/revoke', // Point at a local stand-in for testing
   },
   microsoftUser: {
     clientId: process.env.MICROSOFT_CLIENT_ID_USER || '',
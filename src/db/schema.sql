@@ -15,31 +15,132 @@ CREATE TABLE IF NOT EXISTS users (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- IANA timezone (e.g. Europe/Berlin) relative due dates in emails are resolved in; unset means UTC
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+
 -- Sessions table for authentication
 CREATE TABLE IF NOT EXISTS sessions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  token VARCHAR(255) UNIQUE NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  access_expires_at TIMESTAMP WITH TIME ZONE,
+  refresh_token_hash VARCHAR(64) UNIQUE,
+  previous_refresh_token_hash VARCHAR(64),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  absolute_expires_at TIMESTAMP WITH TIME ZONE,
+  user_agent TEXT,
+  ip_address VARCHAR(64),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Short-lived access token plus a rotating refresh token (stored as a SHA-256 hash).
+-- expires_at slides forward on every refresh up to absolute_expires_at; rows without a
+-- refresh token are sessions from before rotation and simply run out at expires_at
+ALTER TABLE sessions ALTER COLUMN token TYPE TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS access_expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS refresh_token_hash VARCHAR(64) UNIQUE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS previous_refresh_token_hash VARCHAR(64);
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS absolute_expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ip_address VARCHAR(64);
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Personal access tokens for scripts: only a SHA-256 hash of the token is stored
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  token_prefix VARCHAR(16) NOT NULL,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  last_used_ip VARCHAR(64),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- OAuth states: single-use nonces (with PKCE verifier) for in-flight Google/Microsoft sign-in and Google/Microsoft/Slack add-account flows
+CREATE TABLE IF NOT EXISTS oauth_states (
+  nonce VARCHAR(64) PRIMARY KEY,
+  provider VARCHAR(20) NOT NULL DEFAULT 'google' CHECK (provider IN ('google', 'microsoft', 'slack')),
+  action VARCHAR(20) NOT NULL CHECK (action IN ('login', 'add-account')),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  code_verifier VARCHAR(128) NOT NULL,
   expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- The provider a state was issued for; its callback only accepts states for that provider
+ALTER TABLE oauth_states ADD COLUMN IF NOT EXISTS provider VARCHAR(20) NOT NULL DEFAULT 'google';
+ALTER TABLE oauth_states DROP CONSTRAINT IF EXISTS oauth_states_provider_check;
+ALTER TABLE oauth_states ADD CONSTRAINT oauth_states_provider_check CHECK (provider IN ('google', 'microsoft', 'slack'));
+
 -- Integrations table (Account Keychain)
 CREATE TABLE IF NOT EXISTS integrations (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  provider VARCHAR(50) NOT NULL,
+  provider VARCHAR(50) NOT NULL CHECK (provider IN ('google', 'microsoft', 'slack', 'imap')),
   account_email VARCHAR(255) NOT NULL,
   account_name VARCHAR(255),
   access_token TEXT,
   refresh_token TEXT,
+  encrypted_data_key TEXT,
+  key_version INTEGER,
   is_active BOOLEAN DEFAULT true,
+  health_status VARCHAR(20) DEFAULT 'ok' CHECK (health_status IN ('ok', 'needs_reauth', 'quota_exceeded', 'error')),
+  last_error_at TIMESTAMP WITH TIME ZONE,
+  last_error_message TEXT,
   metadata JSONB DEFAULT '{}',
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(user_id, provider, account_email)
 );
 
+-- Tokens are envelope-encrypted: a per-row data key wrapped with master key `key_version`;
+-- rows with a NULL key_version still hold plaintext tokens (existing databases)
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS encrypted_data_key TEXT;
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS key_version INTEGER;
+
+-- Health of the connection, updated whenever a provider API call fails (existing databases)
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS health_status VARCHAR(20) DEFAULT 'ok' CHECK (health_status IN ('ok', 'needs_reauth', 'quota_exceeded', 'error'));
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS last_error_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS last_error_message TEXT;
+
+-- Providers an account can be connected with (existing databases only allowed the OAuth ones)
+ALTER TABLE integrations DROP CONSTRAINT IF EXISTS integrations_provider_check;
+ALTER TABLE integrations ADD CONSTRAINT integrations_provider_check CHECK (provider IN ('google', 'microsoft', 'slack', 'imap'));
+
+-- Messages table (messages from connected accounts, normalized across providers; tasks are extracted from these)
+CREATE TABLE IF NOT EXISTS messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source VARCHAR(50) NOT NULL,
+  source_id VARCHAR(255) NOT NULL,
+  integration_id UUID REFERENCES integrations(id) ON DELETE CASCADE,
+  thread_id VARCHAR(255),
+  content TEXT,
+  sender TEXT,
+  recipients TEXT,
+  subject TEXT,
+  url TEXT,
+  internet_message_id TEXT,
+  timestamp TIMESTAMP WITH TIME ZONE,
+  metadata JSONB DEFAULT '{}',
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Messages are stored per integration before extraction (existing databases)
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS integration_id UUID REFERENCES integrations(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS thread_id VARCHAR(255);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS recipients TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS subject TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS url TEXT;
+ALTER TABLE messages ALTER COLUMN sender TYPE TEXT;
+
+-- RFC 822 Message-ID, to recognise the same email arriving in more than one connected account
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS internet_message_id TEXT;
+
 -- Tasks table
 CREATE TABLE IF NOT EXISTS tasks (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -52,27 +153,89 @@ CREATE TABLE IF NOT EXISTS tasks (
   due_date DATE,
   source VARCHAR(50) DEFAULT 'gmail',
   source_id VARCHAR(255),
-  message_id VARCHAR(255),
+  source_url TEXT,
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  thread_id VARCHAR(255),
   account_email VARCHAR(255),
   account_name VARCHAR(255),
   email_received_at TIMESTAMP WITH TIME ZONE,
   email_sender VARCHAR(255),
+  email_subject TEXT,
   email_recipients TEXT,
   confidence DECIMAL(3,2),
+  review_status VARCHAR(20) CHECK (review_status IN ('suggested', 'accepted', 'rejected')) DEFAULT 'accepted',
+  notes TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
--- Messages table
-CREATE TABLE IF NOT EXISTS messages (
+-- AI-extracted tasks start as suggestions; rejected ones are kept so re-parsing doesn't bring them back (existing databases)
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS review_status VARCHAR(20) CHECK (review_status IN ('suggested', 'accepted', 'rejected')) DEFAULT 'accepted';
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS email_subject TEXT;
+
+-- Link back to the source message where it can't be derived from source_id (Slack permalinks)
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS source_url TEXT;
+
+-- message_id used to hold the provider message ID (still in source_id); it now points at the stored message
+UPDATE tasks SET message_id = NULL WHERE message_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM messages WHERE messages.id::text = tasks.message_id::text);
+ALTER TABLE tasks ALTER COLUMN message_id TYPE UUID USING message_id::uuid;
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_message_id_fkey;
+ALTER TABLE tasks ADD CONSTRAINT tasks_message_id_fkey FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE SET NULL;
+
+-- Tasks belong to the conversation they were extracted from, so replies update them (existing databases)
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS thread_id VARCHAR(255);
+
+-- Deadline as written in the source message ("by 3pm next Friday") and, when it names a time
+-- of day, the exact moment; due_date holds its date in the user's timezone
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_phrase TEXT;
+
+-- Task sources: every message a task was extracted from. A task keeps one row per message,
+-- including those of duplicates merged into it; the tasks.source_* columns hold the newest
+CREATE TABLE IF NOT EXISTS task_sources (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  integration_id UUID REFERENCES integrations(id) ON DELETE SET NULL,
   source VARCHAR(50) NOT NULL,
   source_id VARCHAR(255) NOT NULL,
-  content TEXT,
-  sender VARCHAR(255),
-  timestamp TIMESTAMP WITH TIME ZONE,
-  metadata JSONB DEFAULT '{}',
+  source_url TEXT,
+  account_email VARCHAR(255),
+  email_sender TEXT,
+  email_subject TEXT,
+  email_received_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(task_id, source, source_id)
+);
+
+-- Tasks extracted before task_sources existed get their current source (existing databases)
+INSERT INTO task_sources (task_id, message_id, integration_id, source, source_id, source_url, account_email, email_sender, email_subject, email_received_at, created_at)
+SELECT id, message_id, integration_id, source, source_id, source_url, account_email, email_sender, email_subject, email_received_at, created_at
+FROM tasks WHERE source_id IS NOT NULL
+ON CONFLICT (task_id, source, source_id) DO NOTHING;
+
+-- Possible duplicates: a newly extracted task (task_id) that looks like an earlier one (duplicate_of),
+-- waiting for the user to merge or dismiss the pair
+CREATE TABLE IF NOT EXISTS task_duplicates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  duplicate_of UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('message_id', 'title', 'embedding')),
+  score DECIMAL(4,3),
+  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(task_id, duplicate_of)
+);
+
+-- Title embeddings for duplicate detection (only with OLLAMA_EMBEDDING_MODEL set); rows for
+-- another model or an edited title are recomputed
+CREATE TABLE IF NOT EXISTS task_embeddings (
+  task_id UUID PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+  model VARCHAR(255) NOT NULL,
+  title VARCHAR(500) NOT NULL,
+  embedding REAL[] NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -84,9 +247,48 @@ CREATE TABLE IF NOT EXISTS parsed_messages (
   gmail_message_id VARCHAR(255) NOT NULL,
   parsed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   tasks_extracted INTEGER DEFAULT 0,
+  status VARCHAR(20) DEFAULT 'parsed' CHECK (status IN ('parsed', 'failed', 'skipped')),
+  error TEXT,
+  skip_reason TEXT,
+  attempts INTEGER DEFAULT 1,
   UNIQUE(user_id, integration_id, gmail_message_id)
 );
 
+-- Extraction failures are recorded per message so they can be retried (existing databases)
+ALTER TABLE parsed_messages ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'parsed' CHECK (status IN ('parsed', 'failed'));
+ALTER TABLE parsed_messages ADD COLUMN IF NOT EXISTS error TEXT;
+ALTER TABLE parsed_messages ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 1;
+
+-- Messages the filter rules kept from the model are recorded as skipped, with the rule that matched (existing databases)
+ALTER TABLE parsed_messages ADD COLUMN IF NOT EXISTS skip_reason TEXT;
+ALTER TABLE parsed_messages DROP CONSTRAINT IF EXISTS parsed_messages_status_check;
+ALTER TABLE parsed_messages ADD CONSTRAINT parsed_messages_status_check CHECK (status IN ('parsed', 'failed', 'skipped'));
+
+-- Per-user sender rules for the filter: an address or a domain to always extract from (allow) or never (deny)
+CREATE TABLE IF NOT EXISTS sender_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pattern VARCHAR(255) NOT NULL,
+  action VARCHAR(10) NOT NULL CHECK (action IN ('allow', 'deny')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, pattern)
+);
+
+-- Integration sync state (background mailbox monitor: per-integration status, backoff and lease)
+CREATE TABLE IF NOT EXISTS integration_sync_state (
+  integration_id UUID PRIMARY KEY REFERENCES integrations(id) ON DELETE CASCADE,
+  status VARCHAR(20) CHECK (status IN ('idle', 'running', 'ok', 'error')) DEFAULT 'idle',
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_success_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_result JSONB DEFAULT '{}',
+  consecutive_failures INTEGER DEFAULT 0,
+  next_run_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  locked_by VARCHAR(255),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_users_google_id ON users(google_id);
@@ -95,6 +297,11 @@ CREATE INDEX IF NOT EXISTS idx_users_microsoft_id ON users(microsoft_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token);
 CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_refresh_token_hash ON sessions(previous_refresh_token_hash);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_states_expires_at ON oauth_states(expires_at);
 
 CREATE INDEX IF NOT EXISTS idx_integrations_user_id ON integrations(user_id);
 CREATE INDEX IF NOT EXISTS idx_integrations_provider ON integrations(provider);
@@ -106,15 +313,41 @@ CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
 CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
 CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date);
 CREATE INDEX IF NOT EXISTS idx_tasks_created_at ON tasks(created_at);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_review_status ON tasks(user_id, review_status);
+CREATE INDEX IF NOT EXISTS idx_tasks_message_id ON tasks(message_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_integration_thread_id ON tasks(integration_id, thread_id);
+-- Task listing (GET /api/tasks): filters and keyset pagination per user
+CREATE INDEX IF NOT EXISTS idx_tasks_user_created_at ON tasks(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_due_date ON tasks(user_id, (COALESCE(due_date, 'infinity'::date)), id);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_due_date_desc ON tasks(user_id, (COALESCE(due_date, '-infinity'::date)) DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_email_received_at ON tasks(user_id, (COALESCE(email_received_at, created_at)) DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_status ON tasks(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_priority ON tasks(user_id, priority);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_account_email ON tasks(user_id, account_email);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_source ON tasks(user_id, source);
+-- Full-text search (GET /api/tasks/search); the expression must match TASK_SEARCH_VECTOR in DatabaseService
+CREATE INDEX IF NOT EXISTS idx_tasks_search_vector ON tasks USING GIN ((setweight(to_tsvector('english', COALESCE(title, '')), 'A') || setweight(to_tsvector('english', COALESCE(email_subject, '')), 'B') || setweight(to_tsvector('english', COALESCE(description, '')), 'C') || setweight(to_tsvector('english', COALESCE(email_sender, '') || ' ' || regexp_replace(COALESCE(email_sender, ''), '[@._+-]+', ' ', 'g')), 'D')));
 
 CREATE INDEX IF NOT EXISTS idx_messages_user_id ON messages(user_id);
 CREATE INDEX IF NOT EXISTS idx_messages_source ON messages(source);
 CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_integration_source_id ON messages(integration_id, source_id);
+CREATE INDEX IF NOT EXISTS idx_messages_integration_thread_id ON messages(integration_id, thread_id);
+CREATE INDEX IF NOT EXISTS idx_messages_user_internet_message_id ON messages(user_id, internet_message_id);
+
+CREATE INDEX IF NOT EXISTS idx_task_sources_task_id ON task_sources(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_sources_integration_source_id ON task_sources(integration_id, source_id);
+CREATE INDEX IF NOT EXISTS idx_task_sources_message_id ON task_sources(message_id);
+
+CREATE INDEX IF NOT EXISTS idx_task_duplicates_user_status ON task_duplicates(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_task_duplicates_duplicate_of ON task_duplicates(duplicate_of);
 
 CREATE INDEX IF NOT EXISTS idx_parsed_messages_user_id ON parsed_messages(user_id);
 CREATE INDEX IF NOT EXISTS idx_parsed_messages_integration_id ON parsed_messages(integration_id);
 CREATE INDEX IF NOT EXISTS idx_parsed_messages_gmail_message_id ON parsed_messages(gmail_message_id);
 
+CREATE INDEX IF NOT EXISTS idx_integration_sync_state_next_run_at ON integration_sync_state(next_run_at);
+
 -- Function to automatically update the updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
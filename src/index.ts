@@ -8,8 +8,12 @@ import integrationRoutes from './api/routes/integrations';
 import gmailRoutes from './api/routes/gmail';
 import taskRoutes from './api/routes/tasks';
 import oauthRoutes from './api/routes/oauth';
+import { MailboxMonitor } from './services/monitor/MailboxMonitor';
+import { SessionCleanup } from './services/auth/SessionCleanup';
 
 const app = express();
+const mailboxMonitor = new MailboxMonitor();
+const sessionCleanup = new SessionCleanup();
 
 // Middleware
 app.use(cors());
@@ -61,15 +65,26 @@ async function startServer() {
       console.log(`🌐 Frontend: http://localhost:${port}`);
     });
 
+    // Start background mailbox monitoring
+    mailboxMonitor.start();
+
+    // Clear out expired sessions, once at startup and then hourly
+    sessionCleanup.start();
+    await sessionCleanup.runOnce();
+
     // Graceful shutdown
     process.on('SIGINT', async () => {
       console.log('\n🛑 Shutting down gracefully...');
+      await mailboxMonitor.stop();
+      await sessionCleanup.stop();
       await disconnectDatabase();
       process.exit(0);
     });
 
     process.on('SIGTERM', async () => {
       console.log('\n🛑 Shutting down gracefully...');
+      await mailboxMonitor.stop();
+      await sessionCleanup.stop();
       await disconnectDatabase();
       process.exit(0);
     });
@@ -1,10 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
-import { AuthService } from '../services/auth/AuthService';
+import { AuthService, ClientInfo } from '../services/auth/AuthService';
+import { ApiTokenService, ApiTokenScope, isApiToken } from '../services/auth/ApiTokenService';
 
 export interface AuthenticatedRequest extends Request {
   user?: any;
+  sessionId?: string;
+  apiToken?: { id: string; scopes: string[] }; // Set when authenticated with a personal access token
 }
 
+export const getClientInfo = (req: Request): ClientInfo => ({
+  userAgent: req.get('user-agent')?.substring(0, 512),
+  ipAddress: req.ip,
+});
+
+/**
+ * Accepts browser session tokens and personal access tokens. Routes reachable with an
+ * access token must also use requireScope (or requireSession to refuse them).
+ */
 export const authMiddleware = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -19,18 +31,68 @@ export const authMiddleware = async (
     }
 
     const token = authHeader.substring(7);
+
+    if (isApiToken(token)) {
+      const apiTokenService = new ApiTokenService();
+      const authenticated = await apiTokenService.validateToken(token, req.ip);
+
+      if (!authenticated) {
+        res.status(401).json({ error: 'Invalid or expired API token' });
+        return;
+      }
+
+      req.user = authenticated.user;
+      req.apiToken = { id: authenticated.token.id, scopes: authenticated.token.scopes };
+      next();
+      return;
+    }
+
     const authService = new AuthService();
-    const user = await authService.validateToken(token);
+    const authenticated = await authService.validateToken(token);
 
-    if (!user) {
+    if (!authenticated) {
       res.status(401).json({ error: 'Invalid or expired token' });
       return;
     }
 
-    req.user = user;
+    req.user = authenticated.user;
+    req.sessionId = authenticated.session.id;
     next();
   } catch (error) {
     console.error('Auth middleware error:', error);
     res.status(401).json({ error: 'Authentication failed' });
   }
 };
+
+/**
+ * Require a scope from personal access tokens. Browser sessions have full access.
+ */
+export const requireScope = (scope: ApiTokenScope) => (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.apiToken && !req.apiToken.scopes.includes(scope)) {
+    res.status(403).json({ error: `API token is missing the ${scope} scope` });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Refuse personal access tokens, for account management that only the signed-in user
+ * should do (sessions, tokens, connected accounts).
+ */
+export const requireSession = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.apiToken) {
+    res.status(403).json({ error: 'This endpoint cannot be used with an API token' });
+    return;
+  }
+
+  next();
+};
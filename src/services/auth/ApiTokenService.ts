@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { databaseService } from '../../db';
+import { ApiToken, ApiTokenSummary, User } from '../database/DatabaseService';
+
+export const API_TOKEN_SCOPES = ['tasks:read', 'tasks:write', 'gmail:read'] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+// Lets the auth middleware tell API tokens from session tokens without a lookup
+export const API_TOKEN_PREFIX = 'sbt_';
+
+export const MAX_API_TOKEN_EXPIRY_DAYS = 365;
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+export function isApiTokenScope(scope: unknown): scope is ApiTokenScope {
+  return typeof scope === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(scope);
+}
+
+export interface CreateApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays?: number; // Omitted: never expires
+}
+
+export interface AuthenticatedApiToken {
+  user: User;
+  token: ApiToken;
+}
+
+/**
+ * Personal access tokens. The plaintext token is returned once, at creation; only its
+ * SHA-256 hash is stored, so a lost token has to be replaced rather than recovered.
+ */
+export class ApiTokenService {
+  async createToken(userId: string, input: CreateApiTokenInput): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+    const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const expiresAt = input.expiresInDays
+      ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined;
+
+    const apiToken = await databaseService.createApiToken({
+      user_id: userId,
+      name: input.name,
+      token_prefix: token.substring(0, API_TOKEN_PREFIX.length + 6),
+      token_hash: this.hashToken(token),
+      scopes: input.scopes,
+      expires_at: expiresAt,
+    });
+
+    return { token, apiToken };
+  }
+
+  async listTokens(userId: string): Promise<ApiTokenSummary[]> {
+    return await databaseService.findApiTokensByUserId(userId);
+  }
+
+  async revokeToken(userId: string, tokenId: string): Promise<boolean> {
+    return await databaseService.deleteApiToken(userId, tokenId);
+  }
+
+  async validateToken(token: string, ipAddress?: string): Promise<AuthenticatedApiToken | null> {
+    const apiToken = await databaseService.findApiTokenByHash(this.hashToken(token));
+
+    if (!apiToken || (apiToken.expires_at && new Date(apiToken.expires_at) < new Date())) {
+      return null;
+    }
+
+    const user = await databaseService.findUserById(apiToken.user_id);
+    if (!user) {
+      return null;
+    }
+
+    await databaseService.touchApiToken(apiToken.id, ipAddress);
+
+    return { user, token: apiToken };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
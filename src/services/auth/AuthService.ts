@@ -1,8 +1,9 @@
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { databaseService } from '../../db';
 import { config } from '../../config';
-import { User, Session } from '../database/DatabaseService';
+import { User, Session, SessionSummary } from '../database/DatabaseService';
 
 export interface GoogleUserData {
   email: string;
@@ -10,9 +11,24 @@ export interface GoogleUserData {
   google_id: string;
 }
 
-export interface AuthResult {
+export interface AuthResult extends SessionTokens {
   user: Omit<User, 'password'>;
-  token: string;
+}
+
+export interface SessionTokens {
+  token: string; // Short-lived access token, sent as the Bearer token
+  refreshToken: string; // Exchanged for a new token pair at POST /api/auth/refresh; single use
+}
+
+// Where a session was created or last refreshed from, shown in the session list
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface AuthenticatedSession {
+  user: User;
+  session: Session;
 }
 
 // Removed password-related interfaces since we only use Google OAuth
@@ -24,38 +40,143 @@ export class AuthService {
     await databaseService.deleteSession(token);
   }
 
-  async validateToken(token: string): Promise<User | null> {
+  async validateToken(token: string): Promise<AuthenticatedSession | null> {
     const session = await databaseService.findSessionByToken(token);
+    if (!session) {
+      return null;
+    }
 
-    if (!session || new Date(session.expires_at) < new Date()) {
+    // Sessions from before refresh rotation have no separate access expiry
+    const now = new Date();
+    const accessExpiresAt = new Date(session.access_expires_at || session.expires_at);
+    if (accessExpiresAt < now || new Date(session.expires_at) < now) {
       return null;
     }
 
-    return await databaseService.findUserById(session.user_id);
+    const user = await databaseService.findUserById(session.user_id);
+    if (!user) {
+      return null;
+    }
+
+    await databaseService.touchSession(session.id);
+
+    return { user, session };
   }
 
-  async createSession(userId: string): Promise<string> {
-    const token = jwt.sign({ userId }, config.jwt.secret, {
-      expiresIn: config.jwt.expiresIn,
-    });
+  async createSession(userId: string, client: ClientInfo = {}): Promise<SessionTokens> {
+    const { token, accessExpiresAt } = this.issueAccessToken(userId);
+    const refreshToken = this.generateRefreshToken();
 
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days from now
+    const absoluteExpiresAt = new Date(Date.now() + config.session.maxLifetimeDays * 24 * 60 * 60 * 1000);
 
     await databaseService.createSession({
       user_id: userId,
       token,
-      expires_at: expiresAt.toISOString(),
+      access_expires_at: accessExpiresAt.toISOString(),
+      refresh_token_hash: this.hashRefreshToken(refreshToken),
+      expires_at: this.getIdleExpiry(absoluteExpiresAt).toISOString(),
+      absolute_expires_at: absoluteExpiresAt.toISOString(),
+      user_agent: client.userAgent,
+      ip_address: client.ipAddress,
+    });
+
+    return { token, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair and slide the session's
+   * expiry forward. Each refresh token works once: presenting one that has already been
+   * rotated means it was copied, so the whole session is revoked.
+   */
+  async refreshSession(refreshToken: string, client: ClientInfo = {}): Promise<SessionTokens | null> {
+    const refreshTokenHash = this.hashRefreshToken(refreshToken);
+    const session = await databaseService.findSessionByRefreshTokenHash(refreshTokenHash);
+
+    if (!session) {
+      return null;
+    }
+
+    if (session.refresh_token_hash !== refreshTokenHash) {
+      console.warn(`⚠️ Reused refresh token for session ${session.id} (user ${session.user_id}), revoking the session`);
+      await databaseService.deleteSessionById(session.user_id, session.id);
+      return null;
+    }
+
+    if (new Date(session.expires_at) < new Date()) {
+      return null;
+    }
+
+    const { token, accessExpiresAt } = this.issueAccessToken(session.user_id);
+    const nextRefreshToken = this.generateRefreshToken();
+    const absoluteExpiresAt = session.absolute_expires_at ? new Date(session.absolute_expires_at) : undefined;
+
+    const rotated = await databaseService.rotateSession(session.id, refreshTokenHash, {
+      token,
+      access_expires_at: accessExpiresAt.toISOString(),
+      refresh_token_hash: this.hashRefreshToken(nextRefreshToken),
+      expires_at: this.getIdleExpiry(absoluteExpiresAt).toISOString(),
+      user_agent: client.userAgent,
+      ip_address: client.ipAddress,
     });
 
-    return token;
+    // Lost a race with another refresh of the same token
+    if (!rotated) {
+      return null;
+    }
+
+    return { token, refreshToken: nextRefreshToken };
+  }
+
+  async listSessions(userId: string): Promise<SessionSummary[]> {
+    return await databaseService.findActiveSessionsByUserId(userId);
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    return await databaseService.deleteSessionById(userId, sessionId);
+  }
+
+  async revokeAllSessions(userId: string): Promise<number> {
+    return await databaseService.deleteSessionsByUserId(userId);
+  }
+
+  /**
+   * Set the timezone due dates in the user's emails are resolved in (an IANA name, already validated)
+   */
+  async updateTimezone(userId: string, timezone: string): Promise<User> {
+    return await databaseService.updateUser(userId, { timezone });
+  }
+
+  private issueAccessToken(userId: string): { token: string; accessExpiresAt: Date } {
+    const ttlSeconds = config.session.accessTokenTtlMinutes * 60;
+
+    // jwtid keeps tokens unique when the same user signs in twice within a second
+    const token = jwt.sign({ userId }, config.jwt.secret, {
+      expiresIn: ttlSeconds,
+      jwtid: crypto.randomBytes(12).toString('base64url'),
+    });
+
+    return { token, accessExpiresAt: new Date(Date.now() + ttlSeconds * 1000) };
+  }
+
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hashRefreshToken(refreshToken: string): string {
+    return crypto.createHash('sha256').update(refreshToken).digest('hex');
+  }
+
+  private getIdleExpiry(absoluteExpiresAt?: Date): Date {
+    const idleExpiresAt = new Date(Date.now() + config.session.idleTimeoutDays * 24 * 60 * 60 * 1000);
+    return absoluteExpiresAt && absoluteExpiresAt < idleExpiresAt ? absoluteExpiresAt : idleExpiresAt;
   }
 
   async findOrCreateUserBySocialId(
     provider: 'google' | 'microsoft',
     socialId: string,
     email: string,
-    name?: string
+    name?: string,
+    client: ClientInfo = {}
   ): Promise<AuthResult> {
     const field = provider === 'google' ? 'google_id' : 'microsoft_id';
     
@@ -77,9 +198,9 @@ export class AuthService {
       user = await databaseService.updateUser(user.id, { [field]: socialId });
     }
 
-    const token = await this.createSession(user.id);
+    const tokens = await this.createSession(user.id, client);
 
-    return { user, token };
+    return { user, ...tokens };
   }
 
   // Removed changePassword method since we only use Google OAuth
@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import { databaseService } from '../../db';
+import { config } from '../../config';
+import { OAuthState } from '../database/DatabaseService';
+
+const GOOGLE_SCOPES = 'https://www.googleapis.com/auth/gmail.readonly https://www.googleapis.com/auth/gmail.modify https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/userinfo.profile';
+export const MICROSOFT_SCOPES = 'openid profile email offline_access User.Read Mail.Read';
+// User-token scopes: read the user's conversations and messages, resolve names and build permalinks
+const SLACK_USER_SCOPES = 'channels:read,channels:history,groups:read,groups:history,im:read,im:history,mpim:read,mpim:history,users:read,users:read.email';
+
+export type OAuthAction = OAuthState['action'];
+export type OAuthProvider = OAuthState['provider'];
+
+/**
+ * OAuth `state` handling for Google and Microsoft sign-in and Google, Microsoft and Slack
+ * add-account flows.
+ *
+ * The state sent to the provider is `<nonce>.<hmac>`. The nonce is stored server-side together
+ * with the provider, the action, the user who started an add-account flow and the PKCE verifier,
+ * and is deleted when the callback uses it. Nothing in the state itself is trusted beyond the nonce.
+ */
+export class OAuthStateService {
+  async getGoogleAuthUrl(action: OAuthAction, userId?: string, loginHint?: string): Promise<string> {
+    const { state, codeChallenge } = await this.issueState('google', action, userId);
+
+    return `https://accounts.google.com/o/oauth2/v2/auth?` +
+      `client_id=${process.env.GOOGLE_CLIENT_ID}` +
+      `&redirect_uri=${encodeURIComponent(process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/auth/google/callback')}` +
+      `&response_type=code` +
+      `&scope=${encodeURIComponent(GOOGLE_SCOPES)}` +
+      `&access_type=offline` +
+      `&prompt=consent` +
+      `&code_challenge=${codeChallenge}` +
+      `&code_challenge_method=S256` +
+      (loginHint ? `&login_hint=${encodeURIComponent(loginHint)}` : '') +
+      `&state=${encodeURIComponent(state)}`;
+  }
+
+  async getMicrosoftAuthUrl(action: OAuthAction, userId?: string, loginHint?: string): Promise<string> {
+    const { state, codeChallenge } = await this.issueState('microsoft', action, userId);
+
+    return `${config.microsoft.authorityUrl}/oauth2/v2.0/authorize?` +
+      `client_id=${encodeURIComponent(config.microsoft.clientId)}` +
+      `&redirect_uri=${encodeURIComponent(config.microsoft.redirectUri)}` +
+      `&response_type=code` +
+      `&response_mode=query` +
+      `&scope=${encodeURIComponent(MICROSOFT_SCOPES)}` +
+      `&prompt=select_account` +
+      `&code_challenge=${codeChallenge}` +
+      `&code_challenge_method=S256` +
+      (loginHint ? `&login_hint=${encodeURIComponent(loginHint)}` : '') +
+      `&state=${encodeURIComponent(state)}`;
+  }
+
+  /**
+   * Slack only connects workspaces to an existing user, so there is no login action.
+   * `teamId` pre-selects the workspace when reconnecting.
+   */
+  async getSlackAuthUrl(userId: string, teamId?: string): Promise<string> {
+    // Slack's OAuth v2 doesn't take a PKCE challenge; the stored verifier just goes unused
+    const { state } = await this.issueState('slack', 'add-account', userId);
+
+    return `${config.slack.authorizeUrl}?` +
+      `client_id=${encodeURIComponent(config.slack.clientId)}` +
+      `&redirect_uri=${encodeURIComponent(config.slack.redirectUri)}` +
+      `&user_scope=${encodeURIComponent(SLACK_USER_SCOPES)}` +
+      (teamId ? `&team=${encodeURIComponent(teamId)}` : '') +
+      `&state=${encodeURIComponent(state)}`;
+  }
+
+  /**
+   * Verify the signature and consume the stored state. Returns null if the state is
+   * forged, expired, already used or was issued for a different provider.
+   */
+  async consumeState(state: string, provider: OAuthProvider): Promise<OAuthState | null> {
+    const [nonce, signature] = state.split('.');
+    if (!nonce || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(nonce));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const oauthState = await databaseService.consumeOAuthState(nonce);
+    return oauthState && oauthState.provider === provider ? oauthState : null;
+  }
+
+  private async issueState(
+    provider: OAuthProvider,
+    action: OAuthAction,
+    userId?: string
+  ): Promise<{ state: string; codeChallenge: string }> {
+    if (action === 'add-account' && !userId) {
+      throw new Error('Adding an account requires an authenticated user');
+    }
+
+    const nonce = crypto.randomBytes(32).toString('base64url');
+    const codeVerifier = crypto.randomBytes(48).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    // Opportunistic cleanup of abandoned flows
+    await databaseService.deleteExpiredOAuthStates();
+    await databaseService.createOAuthState({
+      nonce,
+      provider,
+      action,
+      user_id: userId,
+      code_verifier: codeVerifier,
+      expires_at: new Date(Date.now() + config.oauth.stateTtlMinutes * 60 * 1000).toISOString(),
+    });
+
+    return { state: `${nonce}.${this.sign(nonce)}`, codeChallenge };
+  }
+
+  private sign(nonce: string): string {
+    return crypto.createHmac('sha256', config.oauth.stateSecret).update(nonce).digest('base64url');
+  }
+}
@@ -0,0 +1,39 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { databaseService } from '../../db';
+
+export class SessionCleanup {
+  private task?: ScheduledTask;
+
+  /**
+   * Delete expired sessions and abandoned OAuth states once an hour. Expired rows are
+   * already rejected on use; this only keeps the tables from growing.
+   */
+  start(): void {
+    this.task = cron.schedule('17 * * * *', () => this.runOnce(), {
+      name: 'session-cleanup',
+      noOverlap: true,
+    });
+
+    console.log('🧹 Session cleanup scheduled (hourly)');
+  }
+
+  async stop(): Promise<void> {
+    if (this.task) {
+      await this.task.stop();
+      this.task = undefined;
+    }
+  }
+
+  async runOnce(): Promise<void> {
+    try {
+      const sessions = await databaseService.deleteExpiredSessions();
+      const oauthStates = await databaseService.deleteExpiredOAuthStates();
+
+      if (sessions > 0 || oauthStates > 0) {
+        console.log(`🧹 Session cleanup: removed ${sessions} expired sessions, ${oauthStates} expired OAuth states`);
+      }
+    } catch (error) {
+      console.error('❌ Session cleanup failed:', error);
+    }
+  }
+}
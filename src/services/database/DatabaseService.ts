@@ -1,5 +1,6 @@
 import { query, getClient } from '../../utils/postgres';
 import { v4 as uuidv4 } from 'uuid';
+import { encryptTokens, decryptTokens, getCurrentKeyVersion, encryptSecret, decryptSecret } from '../../utils/tokenEncryption';
 
 export interface User {
   id: string;
@@ -7,6 +8,7 @@ export interface User {
   name?: string;
   google_id?: string;
   microsoft_id?: string;
+  timezone?: string; // IANA name; due dates in emails are resolved in it. Unset means UTC
   created_at: string;
   updated_at: string;
 }
@@ -15,6 +17,41 @@ export interface Session {
   id: string;
   user_id: string;
   token: string;
+  access_expires_at?: string; // When `token` stops being accepted; unset for sessions created before rotation
+  refresh_token_hash?: string;
+  previous_refresh_token_hash?: string; // Kept after rotation so a replayed refresh token can be detected
+  expires_at: string; // Sliding: pushed forward on every refresh
+  absolute_expires_at?: string;
+  user_agent?: string;
+  ip_address?: string;
+  last_seen_at?: string;
+  created_at: string;
+}
+
+// What the session list shows; tokens and hashes never leave the database layer
+export type SessionSummary = Pick<Session, 'id' | 'user_agent' | 'ip_address' | 'last_seen_at' | 'expires_at' | 'created_at'>;
+
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string; // First characters of the token, to tell tokens apart in the UI
+  token_hash: string;
+  scopes: string[];
+  expires_at?: string; // Unset: never expires
+  last_used_at?: string;
+  last_used_ip?: string;
+  created_at: string;
+}
+
+export type ApiTokenSummary = Omit<ApiToken, 'token_hash' | 'user_id'>;
+
+export interface OAuthState {
+  nonce: string;
+  provider: 'google' | 'microsoft' | 'slack';
+  action: 'login' | 'add-account';
+  user_id?: string; // Set for add-account: the authenticated user who started the flow
+  code_verifier: string; // PKCE verifier, sent with the code exchange
   expires_at: string;
   created_at: string;
 }
@@ -26,20 +63,141 @@ export interface Task {
   status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
   due_date?: string;
+  due_at?: string; // Exact deadline, when the source names a time of day; due_date is its local date
+  due_phrase?: string; // Deadline as written in the source message, e.g. "by 3pm next Friday"
   source: string;
   source_id?: string;
-  message_id?: string;
+  source_url?: string; // Permalink to the source message, for sources whose links can't be built from source_id
+  message_id?: string; // Stored message the task was extracted from (messages.id)
+  thread_id?: string; // Conversation the task belongs to; later replies update the task instead of duplicating it
   user_id: string;
   integration_id?: string;
   account_email?: string;
   account_name?: string;
   email_received_at?: string;
   email_sender?: string;
+  email_subject?: string;
   email_recipients?: string;
+  confidence?: number;
+  review_status?: 'suggested' | 'accepted' | 'rejected';
+  notes?: string;
   created_at: string;
   updated_at: string;
 }
 
+/** User-editable task fields; null clears a field */
+export interface TaskEdits {
+  title?: string;
+  description?: string | null;
+  priority?: Task['priority'];
+  due_date?: string | null;
+  notes?: string | null;
+}
+
+export type TaskUpdates = TaskEdits & { status?: Task['status'] };
+
+/** Fields a later message in a conversation can change on a task extracted from it */
+export type ThreadTaskUpdates = Partial<Pick<Task,
+  'description' | 'priority' | 'due_date' | 'confidence' | 'source_id' | 'source_url' | 'message_id' |
+  'email_received_at' | 'email_sender' | 'email_subject' | 'email_recipients'>> & {
+  // null clears the time or phrase left from an earlier due date
+  due_at?: string | null;
+  due_phrase?: string | null;
+};
+
+export type TaskSortField = 'created_at' | 'due_date' | 'priority' | 'email_received_at';
+
+export interface TaskQuery {
+  status?: Task['status'][];
+  priority?: Task['priority'][];
+  accountEmail?: string;
+  source?: string[];
+  dueFrom?: string; // YYYY-MM-DD, inclusive
+  dueTo?: string; // YYYY-MM-DD, inclusive
+  text?: string;
+  excludeSelfSent?: boolean; // Skip tasks from emails the account owner sent
+  sort?: TaskSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  nextCursor: string | null;
+}
+
+export interface TaskSearchResult extends Task {
+  rank: number;
+  title_highlight: string; // Title with matches wrapped in <mark></mark>
+  snippet: string; // Best matching fragments of description, subject and sender
+}
+
+// A message a task was extracted from; a task merged with its duplicates keeps the sources of all of them
+export interface TaskSource {
+  id: string;
+  task_id: string;
+  message_id?: string;
+  integration_id?: string;
+  source: string;
+  source_id: string;
+  source_url?: string;
+  account_email?: string;
+  email_sender?: string;
+  email_subject?: string;
+  email_received_at?: string;
+  created_at: string;
+}
+
+// Two tasks that look like the same piece of work, waiting for the user to merge or dismiss them
+export interface TaskDuplicate {
+  id: string;
+  user_id: string;
+  task_id: string; // The newer task, flagged when it was created
+  duplicate_of: string;
+  reason: 'message_id' | 'title' | 'embedding';
+  score: number | string; // DECIMAL columns come back as strings
+  status: 'pending' | 'dismissed';
+  created_at: string;
+}
+
+export type TaskDuplicatePair = TaskDuplicate & { task: Task; duplicate_task: Task };
+
+export interface TaskCountRow {
+  account_email: string | null;
+  status: Task['status'];
+  priority: Task['priority'];
+  count: number;
+}
+
+// Columns updateTask may write; any other key in the updates object is ignored
+const TASK_UPDATABLE_COLUMNS: (keyof TaskUpdates)[] = ['title', 'description', 'status', 'priority', 'due_date', 'notes'];
+
+// Sort expressions for queryTasks. Nullable columns are coalesced to +/-infinity so
+// NULLs sort last and the keyset comparison never sees a NULL.
+const TASK_SORT_EXPRESSIONS: Record<TaskSortField, { asc: string; desc: string; type: string }> = {
+  created_at: { asc: 'created_at', desc: 'created_at', type: 'timestamptz' },
+  // Each direction has its own index (idx_tasks_user_due_date, idx_tasks_user_due_date_desc)
+  due_date: { asc: `COALESCE(due_date, 'infinity'::date)`, desc: `COALESCE(due_date, '-infinity'::date)`, type: 'date' },
+  email_received_at: {
+    asc: `COALESCE(email_received_at, created_at)`,
+    desc: `COALESCE(email_received_at, created_at)`,
+    type: 'timestamptz',
+  },
+  priority: {
+    asc: `CASE priority WHEN 'URGENT' THEN 4 WHEN 'HIGH' THEN 3 WHEN 'MEDIUM' THEN 2 ELSE 1 END`,
+    desc: `CASE priority WHEN 'URGENT' THEN 4 WHEN 'HIGH' THEN 3 WHEN 'MEDIUM' THEN 2 ELSE 1 END`,
+    type: 'int',
+  },
+};
+
+// Weighted full-text document for a task. Must match idx_tasks_search_vector in
+// schema.sql exactly, otherwise Postgres won't use the index. The sender is also
+// indexed with @ and . replaced by spaces so "acme" finds billing@acme.com.
+const TASK_SEARCH_VECTOR = `(setweight(to_tsvector('english', COALESCE(title, '')), 'A') || setweight(to_tsvector('english', COALESCE(email_subject, '')), 'B') || setweight(to_tsvector('english', COALESCE(description, '')), 'C') || setweight(to_tsvector('english', COALESCE(email_sender, '') || ' ' || regexp_replace(COALESCE(email_sender, ''), '[@._+-]+', ' ', 'g')), 'D'))`;
+
+const SEARCH_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter=" … "';
+
 export interface ParsedMessage {
   id: string;
   user_id: string;
@@ -47,8 +205,25 @@ export interface ParsedMessage {
   gmail_message_id: string;
   parsed_at: string;
   tasks_extracted: number;
+  status?: 'parsed' | 'failed' | 'skipped';
+  error?: string | null;
+  skip_reason?: string | null; // Filter rule that kept a skipped message from the model
+  attempts?: number;
 }
 
+// Messages from a sender are always extracted (allow) or never (deny), whatever their headers say
+export interface SenderRule {
+  id: string;
+  user_id: string;
+  pattern: string; // Lowercase address (bob@example.com) or domain (example.com, also matching its subdomains)
+  action: 'allow' | 'deny';
+  created_at: string;
+}
+
+// ok: last call succeeded; needs_reauth: grant revoked/expired, user must reconnect;
+// quota_exceeded: Gmail rate/quota limits; error: anything else (network, 5xx)
+export type IntegrationHealthStatus = 'ok' | 'needs_reauth' | 'quota_exceeded' | 'error';
+
 export interface Integration {
   id: string;
   user_id: string;
@@ -58,18 +233,51 @@ export interface Integration {
   access_token: string;
   refresh_token?: string;
   is_active: boolean;
+  health_status?: IntegrationHealthStatus;
+  last_error_at?: string;
+  last_error_message?: string;
   metadata?: any;
   created_at: string;
   updated_at: string;
 }
 
+export interface IntegrationSyncState {
+  integration_id: string;
+  status: 'idle' | 'running' | 'ok' | 'error';
+  last_run_at?: string;
+  last_success_at?: string;
+  last_error?: string;
+  last_result?: any;
+  consecutive_failures: number;
+  next_run_at: string;
+  locked_by?: string;
+  locked_until?: string;
+  updated_at: string;
+}
+
+/** How a sync run ended; see completeSyncRun */
+export interface SyncRunOutcome {
+  status: 'ok' | 'error';
+  error?: string;
+  result?: any;
+  consecutiveFailures: number;
+  nextRunAt: Date;
+}
+
+/** A message from a connected account, normalized across providers (see MessageSource) */
 export interface Message {
   id: string;
   source: string;
-  source_id: string;
+  source_id: string; // Provider message ID
+  integration_id?: string;
+  thread_id?: string;
   content: string;
   sender?: string;
-  timestamp: string;
+  recipients?: string;
+  subject?: string;
+  url?: string;
+  internet_message_id?: string; // RFC 822 Message-ID (email only), the same in every mailbox that received the message
+  timestamp: string; // When the message was received
   metadata?: any;
   user_id: string;
   created_at: string;
@@ -153,10 +361,21 @@ export class DatabaseService {
     const now = new Date().toISOString();
     
     const result = await query(
-      `INSERT INTO sessions (id, user_id, token, expires_at, created_at)
-       VALUES ($1, $2, $3, $4, $5)
+      `INSERT INTO sessions (id, user_id, token, access_expires_at, refresh_token_hash, expires_at, absolute_expires_at, user_agent, ip_address, last_seen_at, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $10)
        RETURNING *`,
-      [id, sessionData.user_id, sessionData.token, sessionData.expires_at, now]
+      [
+        id,
+        sessionData.user_id,
+        sessionData.token,
+        sessionData.access_expires_at || null,
+        sessionData.refresh_token_hash || null,
+        sessionData.expires_at,
+        sessionData.absolute_expires_at || null,
+        sessionData.user_agent || null,
+        sessionData.ip_address || null,
+        now,
+      ]
     );
 
     if (result.rows.length === 0) throw new Error('Failed to create session');
@@ -172,6 +391,73 @@ export class DatabaseService {
     return result.rows.length > 0 ? result.rows[0] : null;
   }
 
+  /**
+   * Find the session a refresh token belongs to, whether it is the current refresh token
+   * or the one it replaced (the caller tells the two apart)
+   */
+  async findSessionByRefreshTokenHash(refreshTokenHash: string): Promise<Session | null> {
+    const result = await query(
+      'SELECT * FROM sessions WHERE refresh_token_hash = $1 OR previous_refresh_token_hash = $1',
+      [refreshTokenHash]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Swap in a new access/refresh token pair, but only if the session still holds the
+   * refresh token being redeemed. Returns null if another refresh got there first.
+   */
+  async rotateSession(
+    sessionId: string,
+    currentRefreshTokenHash: string,
+    updates: Pick<Session, 'token' | 'access_expires_at' | 'refresh_token_hash' | 'expires_at' | 'user_agent' | 'ip_address'>
+  ): Promise<Session | null> {
+    const result = await query(
+      `UPDATE sessions
+       SET token = $3, access_expires_at = $4, refresh_token_hash = $5, previous_refresh_token_hash = refresh_token_hash,
+           expires_at = $6, user_agent = COALESCE($7, user_agent), ip_address = COALESCE($8, ip_address), last_seen_at = NOW()
+       WHERE id = $1 AND refresh_token_hash = $2
+       RETURNING *`,
+      [
+        sessionId,
+        currentRefreshTokenHash,
+        updates.token,
+        updates.access_expires_at,
+        updates.refresh_token_hash,
+        updates.expires_at,
+        updates.user_agent || null,
+        updates.ip_address || null,
+      ]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Record activity on a session. Only writes when last_seen_at is older than
+   * `minIntervalSeconds`, so busy sessions don't cost an UPDATE per request.
+   */
+  async touchSession(sessionId: string, minIntervalSeconds: number = 60): Promise<void> {
+    await query(
+      `UPDATE sessions SET last_seen_at = NOW()
+       WHERE id = $1 AND (last_seen_at IS NULL OR last_seen_at < NOW() - make_interval(secs => $2))`,
+      [sessionId, minIntervalSeconds]
+    );
+  }
+
+  async findActiveSessionsByUserId(userId: string): Promise<SessionSummary[]> {
+    const result = await query(
+      `SELECT id, user_agent, ip_address, last_seen_at, expires_at, created_at
+       FROM sessions
+       WHERE user_id = $1 AND expires_at > NOW()
+       ORDER BY last_seen_at DESC NULLS LAST, created_at DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
   async deleteSession(token: string): Promise<void> {
     await query(
       'DELETE FROM sessions WHERE token = $1',
@@ -179,11 +465,118 @@ export class DatabaseService {
     );
   }
 
-  async deleteExpiredSessions(): Promise<void> {
-    await query(
+  async deleteSessionById(userId: string, sessionId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM sessions WHERE id = $1 AND user_id = $2',
+      [sessionId, userId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  async deleteSessionsByUserId(userId: string): Promise<number> {
+    const result = await query(
+      'DELETE FROM sessions WHERE user_id = $1',
+      [userId]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const result = await query(
       'DELETE FROM sessions WHERE expires_at < $1',
       [new Date().toISOString()]
     );
+
+    return result.rowCount || 0;
+  }
+
+  // API token operations
+  async createApiToken(tokenData: Pick<ApiToken, 'user_id' | 'name' | 'token_prefix' | 'token_hash' | 'scopes' | 'expires_at'>): Promise<ApiTokenSummary> {
+    const id = uuidv4();
+
+    const result = await query(
+      `INSERT INTO api_tokens (id, user_id, name, token_prefix, token_hash, scopes, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id, name, token_prefix, scopes, expires_at, last_used_at, last_used_ip, created_at`,
+      [id, tokenData.user_id, tokenData.name, tokenData.token_prefix, tokenData.token_hash, tokenData.scopes, tokenData.expires_at || null]
+    );
+
+    if (result.rows.length === 0) throw new Error('Failed to create API token');
+    return result.rows[0];
+  }
+
+  async findApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const result = await query(
+      'SELECT * FROM api_tokens WHERE token_hash = $1',
+      [tokenHash]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  async findApiTokensByUserId(userId: string): Promise<ApiTokenSummary[]> {
+    const result = await query(
+      `SELECT id, name, token_prefix, scopes, expires_at, last_used_at, last_used_ip, created_at
+       FROM api_tokens
+       WHERE user_id = $1
+       ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Record that a token was used. Like touchSession, skips the write if it was recorded
+   * within the last `minIntervalSeconds`.
+   */
+  async touchApiToken(tokenId: string, ipAddress?: string, minIntervalSeconds: number = 60): Promise<void> {
+    await query(
+      `UPDATE api_tokens SET last_used_at = NOW(), last_used_ip = $2
+       WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - make_interval(secs => $3))`,
+      [tokenId, ipAddress || null, minIntervalSeconds]
+    );
+  }
+
+  async deleteApiToken(userId: string, tokenId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM api_tokens WHERE id = $1 AND user_id = $2',
+      [tokenId, userId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  // OAuth state operations
+  async createOAuthState(stateData: Omit<OAuthState, 'created_at'>): Promise<OAuthState> {
+    const result = await query(
+      `INSERT INTO oauth_states (nonce, provider, action, user_id, code_verifier, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [stateData.nonce, stateData.provider, stateData.action, stateData.user_id || null, stateData.code_verifier, stateData.expires_at]
+    );
+
+    if (result.rows.length === 0) throw new Error('Failed to create OAuth state');
+    return result.rows[0];
+  }
+
+  /**
+   * Delete and return an unexpired state in one statement, so a state can only be used once
+   */
+  async consumeOAuthState(nonce: string): Promise<OAuthState | null> {
+    const result = await query(
+      'DELETE FROM oauth_states WHERE nonce = $1 AND expires_at > NOW() RETURNING *',
+      [nonce]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  async deleteExpiredOAuthStates(): Promise<number> {
+    const result = await query('DELETE FROM oauth_states WHERE expires_at < NOW()');
+    return result.rowCount || 0;
   }
 
   // Task operations
@@ -193,15 +586,15 @@ export class DatabaseService {
     
     const result = await query(
       `INSERT INTO tasks (id, user_id, integration_id, title, description, status, priority, 
-       due_date, source, source_id, message_id, account_email, account_name, 
-       email_received_at, email_sender, email_recipients, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+       due_date, due_at, due_phrase, source, source_id, source_url, message_id, thread_id, account_email, account_name, 
+       email_received_at, email_sender, email_subject, email_recipients, confidence, review_status, notes, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26)
        RETURNING *`,
       [id, taskData.user_id, taskData.integration_id, taskData.title, taskData.description,
-       taskData.status || 'PENDING', taskData.priority || 'MEDIUM', taskData.due_date, 
-       taskData.source, taskData.source_id, taskData.message_id, taskData.account_email, 
-       taskData.account_name, taskData.email_received_at, taskData.email_sender, 
-       taskData.email_recipients, now, now]
+       taskData.status || 'PENDING', taskData.priority || 'MEDIUM', taskData.due_date, taskData.due_at, taskData.due_phrase,
+       taskData.source, taskData.source_id, taskData.source_url, taskData.message_id, taskData.thread_id, taskData.account_email, 
+       taskData.account_name, taskData.email_received_at, taskData.email_sender, taskData.email_subject,
+       taskData.email_recipients, taskData.confidence, taskData.review_status || 'accepted', taskData.notes, now, now]
     );
 
     if (result.rows.length === 0) throw new Error('Failed to create task');
@@ -210,13 +603,428 @@ export class DatabaseService {
 
   async findTasksByUserId(userId: string): Promise<Task[]> {
     const result = await query(
-      'SELECT * FROM tasks WHERE user_id = $1 ORDER BY created_at DESC',
+      `SELECT * FROM tasks WHERE user_id = $1 AND review_status = 'accepted' ORDER BY created_at DESC`,
       [userId]
     );
 
     return result.rows || [];
   }
 
+  /**
+   * Filtered, sorted, keyset-paginated task listing. The cursor is opaque to callers:
+   * it encodes the sort key (as text, to keep timestamp precision) and ID of the last row.
+   */
+  async queryTasks(userId: string, options: TaskQuery = {}): Promise<TaskPage> {
+    const conditions = [`user_id = $1`, `review_status = 'accepted'`];
+    const values: any[] = [userId];
+    const addValue = (value: any) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (options.status?.length) conditions.push(`status = ANY(${addValue(options.status)})`);
+    if (options.priority?.length) conditions.push(`priority = ANY(${addValue(options.priority)})`);
+    if (options.source?.length) conditions.push(`source = ANY(${addValue(options.source)})`);
+    if (options.accountEmail) conditions.push(`account_email = ${addValue(options.accountEmail)}`);
+    if (options.dueFrom) conditions.push(`due_date >= ${addValue(options.dueFrom)}::date`);
+    if (options.dueTo) conditions.push(`due_date <= ${addValue(options.dueTo)}::date`);
+    if (options.excludeSelfSent) {
+      conditions.push(`(email_sender IS NULL OR account_email IS NULL OR LOWER(email_sender) <> LOWER(account_email))`);
+    }
+    if (options.text) {
+      const pattern = addValue(`%${options.text.replace(/[\\%_]/g, match => `\\${match}`)}%`);
+      conditions.push(`(title ILIKE ${pattern} OR description ILIKE ${pattern} OR email_sender ILIKE ${pattern})`);
+    }
+
+    const sort = TASK_SORT_EXPRESSIONS[options.sort || 'created_at'];
+    const order = options.order || 'desc';
+    const sortExpression = sort[order];
+
+    if (options.cursor) {
+      const cursor = this.decodeTaskCursor(options.cursor);
+      const comparison = order === 'asc' ? '>' : '<';
+      conditions.push(`(${sortExpression}, id) ${comparison} (${addValue(cursor.key)}::${sort.type}, ${addValue(cursor.id)}::uuid)`);
+    }
+
+    const limit = options.limit || 50;
+    const result = await query(
+      `SELECT *, (${sortExpression})::text AS sort_key FROM tasks
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${sortExpression} ${order.toUpperCase()}, id ${order.toUpperCase()}
+       LIMIT ${addValue(limit + 1)}`,
+      values
+    );
+
+    const rows = result.rows || [];
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const lastRow = pageRows[pageRows.length - 1];
+
+    return {
+      tasks: pageRows.map(({ sort_key, ...task }) => task as Task),
+      nextCursor: hasMore && lastRow ? this.encodeTaskCursor(lastRow.sort_key, lastRow.id) : null,
+    };
+  }
+
+  async countTasksByUserId(userId: string): Promise<TaskCountRow[]> {
+    const result = await query(
+      `SELECT account_email, status, priority, COUNT(*)::int AS count FROM tasks
+       WHERE user_id = $1 AND review_status = 'accepted'
+       GROUP BY account_email, status, priority`,
+      [userId]
+    );
+
+    return result.rows || [];
+  }
+
+  /**
+   * Ranked full-text search over accepted tasks and the sender/subject of their source email.
+   * `text` uses web search syntax: quoted phrases, OR, and -word to exclude.
+   */
+  async searchTasks(userId: string, text: string, limit: number = 20): Promise<TaskSearchResult[]> {
+    const result = await query(
+      `SELECT tasks.*,
+              ts_rank_cd(${TASK_SEARCH_VECTOR}, search_query) AS rank,
+              ts_headline('english', title, search_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title_highlight,
+              ts_headline('english', concat_ws(' · ', description, email_subject, email_sender), search_query, '${SEARCH_HEADLINE_OPTIONS}') AS snippet
+       FROM tasks, websearch_to_tsquery('english', $2) AS search_query
+       WHERE user_id = $1 AND review_status = 'accepted' AND ${TASK_SEARCH_VECTOR} @@ search_query
+       ORDER BY rank DESC, created_at DESC
+       LIMIT $3`,
+      [userId, text, limit]
+    );
+
+    return result.rows || [];
+  }
+
+  private encodeTaskCursor(key: string, id: string): string {
+    return Buffer.from(JSON.stringify({ k: key, id })).toString('base64url');
+  }
+
+  private decodeTaskCursor(cursor: string): { key: string; id: string } {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof decoded.k !== 'string' || typeof decoded.id !== 'string' || !/^[0-9a-f-]{36}$/i.test(decoded.id)) {
+        throw new Error('Malformed cursor');
+      }
+      return { key: decoded.k, id: decoded.id };
+    } catch (error) {
+      throw new Error('Invalid cursor');
+    }
+  }
+
+  async findTaskSuggestionsByUserId(userId: string): Promise<Task[]> {
+    const result = await query(
+      `SELECT * FROM tasks WHERE user_id = $1 AND review_status = 'suggested'
+       ORDER BY email_received_at DESC NULLS LAST, created_at DESC`,
+      [userId]
+    );
+
+    return result.rows || [];
+  }
+
+  /**
+   * Tasks extracted from a conversation, oldest first, including rejected suggestions
+   */
+  async findTasksByThread(userId: string, integrationId: string, threadId: string): Promise<Task[]> {
+    const result = await query(
+      `SELECT * FROM tasks
+       WHERE user_id = $1 AND integration_id = $2 AND thread_id = $3
+       ORDER BY created_at ASC`,
+      [userId, integrationId, threadId]
+    );
+
+    return result.rows || [];
+  }
+
+  /**
+   * Move a task to the newest message of its conversation and apply the fields extracted
+   * from it (only those given). Used when a reply mentions a task that already exists.
+   */
+  async updateTaskFromThread(id: string, updates: ThreadTaskUpdates): Promise<Task | null> {
+    const fields: string[] = [];
+    const values: any[] = [id];
+
+    for (const [column, value] of Object.entries(updates)) {
+      if (value !== undefined) {
+        values.push(value);
+        fields.push(`${column} = $${values.length}`);
+      }
+    }
+
+    values.push(new Date().toISOString());
+    fields.push(`updated_at = $${values.length}`);
+
+    const result = await query(
+      `UPDATE tasks SET ${fields.join(', ')} WHERE id = $1 RETURNING *`,
+      values
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Link a task to a message it was extracted from; linking the same message twice is a no-op
+   */
+  async addTaskSource(sourceData: Omit<TaskSource, 'id' | 'created_at'>): Promise<void> {
+    await query(
+      `INSERT INTO task_sources (id, task_id, message_id, integration_id, source, source_id, source_url,
+       account_email, email_sender, email_subject, email_received_at, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT (task_id, source, source_id) DO NOTHING`,
+      [uuidv4(), sourceData.task_id, sourceData.message_id, sourceData.integration_id, sourceData.source,
+       sourceData.source_id, sourceData.source_url, sourceData.account_email, sourceData.email_sender,
+       sourceData.email_subject, sourceData.email_received_at, new Date().toISOString()]
+    );
+  }
+
+  /**
+   * Source messages of tasks, newest first
+   */
+  async findTaskSourcesByTaskIds(taskIds: string[]): Promise<TaskSource[]> {
+    if (taskIds.length === 0) return [];
+
+    const result = await query(
+      `SELECT * FROM task_sources WHERE task_id = ANY($1)
+       ORDER BY email_received_at DESC NULLS LAST, created_at DESC`,
+      [taskIds]
+    );
+
+    return result.rows || [];
+  }
+
+  /**
+   * The user's tasks (other than rejected suggestions) extracted from a message: the
+   * integration's copy, or any stored message with the same RFC 822 Message-ID, which is how
+   * the same email shows up in two connected accounts
+   */
+  async findTasksBySourceMessage(
+    userId: string,
+    integrationId: string | undefined,
+    sourceId: string,
+    internetMessageId?: string
+  ): Promise<Task[]> {
+    const result = await query(
+      `SELECT * FROM tasks
+       WHERE user_id = $1 AND review_status <> 'rejected' AND id IN (
+         SELECT task_sources.task_id FROM task_sources
+         LEFT JOIN messages ON messages.id = task_sources.message_id
+         WHERE (task_sources.integration_id = $2 AND task_sources.source_id = $3)
+            OR ($4::text IS NOT NULL AND messages.user_id = $1 AND messages.internet_message_id = $4)
+       )
+       ORDER BY created_at ASC`,
+      [userId, integrationId ?? null, sourceId, internetMessageId ?? null]
+    );
+
+    return result.rows || [];
+  }
+
+  /**
+   * The user's recent open tasks, newest first, to compare a new task against
+   */
+  async findDuplicateCandidates(userId: string, excludeTaskId: string, createdSince: string, limit: number): Promise<Task[]> {
+    const result = await query(
+      `SELECT * FROM tasks
+       WHERE user_id = $1 AND id <> $2 AND review_status <> 'rejected'
+         AND status NOT IN ('COMPLETED', 'CANCELLED') AND created_at >= $3
+       ORDER BY created_at DESC
+       LIMIT $4`,
+      [userId, excludeTaskId, createdSince, limit]
+    );
+
+    return result.rows || [];
+  }
+
+  /**
+   * Flag a pair of tasks as possible duplicates. A pair already flagged (or dismissed) is left as it is.
+   */
+  async createTaskDuplicate(duplicateData: Pick<TaskDuplicate, 'user_id' | 'task_id' | 'duplicate_of' | 'reason' | 'score'>): Promise<void> {
+    await query(
+      `INSERT INTO task_duplicates (id, user_id, task_id, duplicate_of, reason, score, status, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, 'pending', $7)
+       ON CONFLICT (task_id, duplicate_of) DO NOTHING`,
+      [uuidv4(), duplicateData.user_id, duplicateData.task_id, duplicateData.duplicate_of,
+       duplicateData.reason, duplicateData.score, new Date().toISOString()]
+    );
+  }
+
+  /**
+   * Pending possible duplicates with both tasks, newest first. Pairs where either task has
+   * since been rejected are left out.
+   */
+  async findPendingTaskDuplicates(userId: string): Promise<TaskDuplicatePair[]> {
+    const result = await query(
+      `SELECT task_duplicates.*, row_to_json(task) AS task, row_to_json(duplicate_task) AS duplicate_task
+       FROM task_duplicates
+       JOIN tasks AS task ON task.id = task_duplicates.task_id
+       JOIN tasks AS duplicate_task ON duplicate_task.id = task_duplicates.duplicate_of
+       WHERE task_duplicates.user_id = $1 AND task_duplicates.status = 'pending'
+         AND task.review_status <> 'rejected' AND duplicate_task.review_status <> 'rejected'
+       ORDER BY task_duplicates.created_at DESC`,
+      [userId]
+    );
+
+    return result.rows || [];
+  }
+
+  async findTaskDuplicateById(id: string): Promise<TaskDuplicate | null> {
+    const result = await query('SELECT * FROM task_duplicates WHERE id = $1', [id]);
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  async dismissTaskDuplicate(id: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE task_duplicates SET status = 'dismissed' WHERE id = $1 AND status = 'pending'`,
+      [id]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Merge task `removeId` into `keepId` in one transaction. The kept task takes over the
+   * other's source links, fills an empty description or due date from it, gains its notes
+   * and is accepted if either task was. The other task is deleted, and with it its
+   * possible-duplicate pairs. Returns null if either task no longer exists.
+   */
+  async mergeTasks(keepId: string, removeId: string): Promise<Task | null> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      const locked = await client.query('SELECT id FROM tasks WHERE id = ANY($1) FOR UPDATE', [[keepId, removeId]]);
+      if (locked.rows.length !== 2) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(
+        `INSERT INTO task_sources (id, task_id, message_id, integration_id, source, source_id, source_url,
+         account_email, email_sender, email_subject, email_received_at, created_at)
+         SELECT uuid_generate_v4(), $1, message_id, integration_id, source, source_id, source_url,
+           account_email, email_sender, email_subject, email_received_at, created_at
+         FROM task_sources WHERE task_id = $2
+         ON CONFLICT (task_id, source, source_id) DO NOTHING`,
+        [keepId, removeId]
+      );
+
+      const result = await client.query(
+        `UPDATE tasks AS kept SET
+           description = COALESCE(kept.description, removed.description),
+           due_date = COALESCE(kept.due_date, removed.due_date),
+           due_at = CASE WHEN kept.due_date IS NULL THEN removed.due_at ELSE kept.due_at END,
+           due_phrase = CASE WHEN kept.due_date IS NULL THEN removed.due_phrase ELSE kept.due_phrase END,
+           notes = CASE
+             WHEN removed.notes IS NULL OR removed.notes = kept.notes THEN kept.notes
+             WHEN kept.notes IS NULL THEN removed.notes
+             ELSE kept.notes || E'\n\n' || removed.notes
+           END,
+           review_status = CASE WHEN removed.review_status = 'accepted' THEN 'accepted' ELSE kept.review_status END,
+           updated_at = $3
+         FROM tasks AS removed
+         WHERE kept.id = $1 AND removed.id = $2
+         RETURNING kept.*`,
+        [keepId, removeId, new Date().toISOString()]
+      );
+
+      await client.query('DELETE FROM tasks WHERE id = $1', [removeId]);
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Stored title embeddings by task ID, for the given model and only where the title hasn't
+   * changed since it was embedded
+   */
+  async findTaskEmbeddings(tasks: Pick<Task, 'id' | 'title'>[], model: string): Promise<Map<string, number[]>> {
+    if (tasks.length === 0) return new Map();
+
+    const result = await query(
+      'SELECT task_id, title, embedding FROM task_embeddings WHERE task_id = ANY($1) AND model = $2',
+      [tasks.map(task => task.id), model]
+    );
+
+    const titles = new Map(tasks.map(task => [task.id, task.title]));
+    return new Map(
+      result.rows
+        .filter(row => titles.get(row.task_id) === row.title)
+        .map(row => [row.task_id, row.embedding])
+    );
+  }
+
+  async saveTaskEmbedding(taskId: string, model: string, title: string, embedding: number[]): Promise<void> {
+    await query(
+      `INSERT INTO task_embeddings (task_id, model, title, embedding, created_at)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (task_id) DO UPDATE SET
+         model = EXCLUDED.model, title = EXCLUDED.title, embedding = EXCLUDED.embedding, created_at = EXCLUDED.created_at`,
+      [taskId, model, title, embedding, new Date().toISOString()]
+    );
+  }
+
+  /**
+   * Titles of suggestions the user rejected for a source message
+   */
+  async findRejectedTaskTitles(userId: string, integrationId: string, sourceId: string): Promise<string[]> {
+    const result = await query(
+      `SELECT title FROM tasks
+       WHERE user_id = $1 AND integration_id = $2 AND source_id = $3 AND review_status = 'rejected'`,
+      [userId, integrationId, sourceId]
+    );
+
+    return result.rows.map(row => row.title);
+  }
+
+  /**
+   * Accept a suggestion, applying any edits made during review in the same update
+   */
+  async acceptTaskSuggestion(id: string, edits: TaskEdits = {}): Promise<Task | null> {
+    const result = await query(
+      `UPDATE tasks SET
+         title = COALESCE($2, title),
+         description = CASE WHEN $3::boolean THEN $4 ELSE description END,
+         priority = COALESCE($5, priority),
+         due_date = CASE WHEN $6::boolean THEN $7::date ELSE due_date END,
+         due_at = CASE WHEN $6::boolean AND due_date IS DISTINCT FROM $7::date THEN NULL ELSE due_at END,
+         notes = CASE WHEN $8::boolean THEN $9 ELSE notes END,
+         review_status = 'accepted',
+         updated_at = $10
+       WHERE id = $1 AND review_status = 'suggested'
+       RETURNING *`,
+      [
+        id,
+        edits.title ?? null,
+        edits.description !== undefined,
+        edits.description ?? null,
+        edits.priority ?? null,
+        edits.due_date !== undefined,
+        edits.due_date ?? null,
+        edits.notes !== undefined,
+        edits.notes ?? null,
+        new Date().toISOString(),
+      ]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  async rejectTaskSuggestion(id: string): Promise<Task | null> {
+    const result = await query(
+      `UPDATE tasks SET review_status = 'rejected', updated_at = $2
+       WHERE id = $1 AND review_status = 'suggested'
+       RETURNING *`,
+      [id, new Date().toISOString()]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
   async findTaskById(taskId: string): Promise<Task | null> {
     const result = await query(
       'SELECT * FROM tasks WHERE id = $1',
@@ -226,31 +1034,43 @@ export class DatabaseService {
     return result.rows.length > 0 ? result.rows[0] : null;
   }
 
-  async updateTask(id: string, updates: Partial<Task>): Promise<Task> {
-    const now = new Date().toISOString();
-    const fields = [];
-    const values = [];
-    let paramIndex = 1;
-
-    for (const [key, value] of Object.entries(updates)) {
-      if (key !== 'id' && key !== 'created_at') {
-        fields.push(`${key} = $${paramIndex}`);
-        values.push(value);
-        paramIndex++;
+  /**
+   * Update whitelisted task columns. When expectedUpdatedAt is given the update only
+   * applies if the row hasn't changed since then. Returns null if nothing was updated.
+   * Moving the due date to another day drops the extracted due time.
+   */
+  async updateTask(id: string, updates: TaskUpdates, expectedUpdatedAt?: string): Promise<Task | null> {
+    const fields: string[] = [];
+    const values: any[] = [id];
+
+    for (const column of TASK_UPDATABLE_COLUMNS) {
+      if (updates[column] !== undefined) {
+        values.push(updates[column]);
+        fields.push(`${column} = $${values.length}`);
       }
     }
-    
-    fields.push(`updated_at = $${paramIndex}`);
-    values.push(now);
-    values.push(id);
+
+    if (updates.due_date !== undefined) {
+      values.push(updates.due_date);
+      fields.push(`due_at = CASE WHEN due_date IS NOT DISTINCT FROM $${values.length}::date THEN due_at ELSE NULL END`);
+    }
+
+    values.push(new Date().toISOString());
+    fields.push(`updated_at = $${values.length}`);
+
+    let condition = 'id = $1';
+    if (expectedUpdatedAt) {
+      values.push(expectedUpdatedAt);
+      // Clients only see millisecond precision, the column stores microseconds
+      condition += ` AND date_trunc('milliseconds', updated_at) = $${values.length}::timestamptz`;
+    }
 
     const result = await query(
-      `UPDATE tasks SET ${fields.join(', ')} WHERE id = $${paramIndex + 1} RETURNING *`,
+      `UPDATE tasks SET ${fields.join(', ')} WHERE ${condition} RETURNING *`,
       values
     );
 
-    if (result.rows.length === 0) throw new Error('Failed to update task');
-    return result.rows[0];
+    return result.rows.length > 0 ? result.rows[0] : null;
   }
 
   async deleteTask(id: string): Promise<void> {
@@ -266,18 +1086,20 @@ export class DatabaseService {
     const id = uuidv4();
     const now = new Date().toISOString();
     
+    const tokens = encryptTokens(integrationData);
+    
     const result = await query(
       `INSERT INTO integrations (id, user_id, provider, account_email, account_name, 
-       access_token, refresh_token, is_active, metadata, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       access_token, refresh_token, encrypted_data_key, key_version, is_active, metadata, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
        RETURNING *`,
       [id, integrationData.user_id, integrationData.provider, integrationData.account_email,
-       integrationData.account_name, integrationData.access_token, integrationData.refresh_token,
-       integrationData.is_active !== false, JSON.stringify(integrationData.metadata || {}), now, now]
+       integrationData.account_name, tokens.access_token, tokens.refresh_token, tokens.encrypted_data_key,
+       tokens.key_version, integrationData.is_active !== false, JSON.stringify(integrationData.metadata || {}), now, now]
     );
 
     if (result.rows.length === 0) throw new Error('Failed to create integration');
-    return result.rows[0];
+    return this.decryptIntegration(result.rows[0]);
   }
 
   async findIntegrationsByUserId(userId: string): Promise<Integration[]> {
@@ -286,7 +1108,7 @@ export class DatabaseService {
       [userId]
     );
 
-    return result.rows || [];
+    return (result.rows || []).map(row => this.decryptIntegration(row));
   }
 
   async findIntegrationsByProvider(userId: string, provider: string): Promise<Integration[]> {
@@ -295,7 +1117,7 @@ export class DatabaseService {
       [userId, provider]
     );
 
-    return result.rows || [];
+    return (result.rows || []).map(row => this.decryptIntegration(row));
   }
 
   async findActiveIntegrationsByProvider(userId: string, provider: string): Promise<Integration[]> {
@@ -304,7 +1126,16 @@ export class DatabaseService {
       [userId, provider]
     );
 
-    return result.rows || [];
+    return (result.rows || []).map(row => this.decryptIntegration(row));
+  }
+
+  async findAllActiveIntegrationsByProvider(provider: string): Promise<Integration[]> {
+    const result = await query(
+      'SELECT * FROM integrations WHERE provider = $1 AND is_active = true ORDER BY created_at ASC',
+      [provider]
+    );
+
+    return (result.rows || []).map(row => this.decryptIntegration(row));
   }
 
   async findIntegrationById(id: string): Promise<Integration | null> {
@@ -313,7 +1144,7 @@ export class DatabaseService {
       [id]
     );
 
-    return result.rows.length > 0 ? result.rows[0] : null;
+    return result.rows.length > 0 ? this.decryptIntegration(result.rows[0]) : null;
   }
 
   async updateIntegration(id: string, updates: Partial<Integration>): Promise<Integration> {
@@ -322,7 +1153,19 @@ export class DatabaseService {
     const values = [];
     let paramIndex = 1;
 
-    for (const [key, value] of Object.entries(updates)) {
+    // Tokens share the row's data key, so re-encrypt both under a fresh one
+    const { access_token, refresh_token, ...otherUpdates } = updates;
+    const columns: Record<string, any> = { ...otherUpdates };
+    if (access_token !== undefined || refresh_token !== undefined) {
+      const current = await this.findIntegrationById(id);
+      if (!current) throw new Error('Failed to update integration');
+      Object.assign(columns, encryptTokens({
+        access_token: access_token !== undefined ? access_token : current.access_token,
+        refresh_token: refresh_token !== undefined ? refresh_token : current.refresh_token,
+      }));
+    }
+
+    for (const [key, value] of Object.entries(columns)) {
       if (key !== 'id' && key !== 'created_at') {
         if (key === 'metadata') {
           fields.push(`${key} = $${paramIndex}`);
@@ -345,30 +1188,255 @@ export class DatabaseService {
     );
 
     if (result.rows.length === 0) throw new Error('Failed to update integration');
-    return result.rows[0];
+    return this.decryptIntegration(result.rows[0]);
   }
 
   async deleteIntegration(id: string): Promise<void> {
     await query('DELETE FROM integrations WHERE id = $1', [id]);
   }
 
+  /**
+   * Remove an integration with its parsed_messages and stored messages, and either delete
+   * its tasks or keep the accepted ones (detached from the integration; account_email still
+   * says where they came from). Suggestions are always deleted. `beforeCommit` runs inside the transaction, so if
+   * it throws (e.g. the provider grant could not be revoked) nothing is removed.
+   */
+  async deleteIntegrationWithData(
+    id: string,
+    options: { deleteTasks: boolean },
+    beforeCommit?: () => Promise<void>
+  ): Promise<{ tasksDeleted: number; tasksKept: number; parsedMessagesDeleted: number; messagesDeleted: number }> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      // Lock the row so a concurrent sync can't write tasks for it mid-removal
+      await client.query('SELECT id FROM integrations WHERE id = $1 FOR UPDATE', [id]);
+
+      const parsedMessages = await client.query('DELETE FROM parsed_messages WHERE integration_id = $1', [id]);
+
+      let tasksDeleted = 0;
+      let tasksKept = 0;
+      if (options.deleteTasks) {
+        tasksDeleted = (await client.query('DELETE FROM tasks WHERE integration_id = $1', [id])).rowCount || 0;
+      } else {
+        tasksDeleted = (await client.query(
+          `DELETE FROM tasks WHERE integration_id = $1 AND review_status <> 'accepted'`,
+          [id]
+        )).rowCount || 0;
+        tasksKept = (await client.query(
+          'UPDATE tasks SET integration_id = NULL, updated_at = NOW() WHERE integration_id = $1',
+          [id]
+        )).rowCount || 0;
+      }
+
+      // Kept tasks lose their link to the stored message (ON DELETE SET NULL)
+      const messages = await client.query('DELETE FROM messages WHERE integration_id = $1', [id]);
+
+      await client.query('DELETE FROM integrations WHERE id = $1', [id]);
+
+      if (beforeCommit) {
+        await beforeCommit();
+      }
+
+      await client.query('COMMIT');
+      return { tasksDeleted, tasksKept, parsedMessagesDeleted: parsedMessages.rowCount || 0, messagesDeleted: messages.rowCount || 0 };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record the outcome of a provider API call. Errors also store when and why; going back
+   * to ok keeps the last error for reference.
+   */
+  async updateIntegrationHealth(id: string, status: IntegrationHealthStatus, message?: string): Promise<void> {
+    if (status === 'ok') {
+      await query(`UPDATE integrations SET health_status = 'ok' WHERE id = $1`, [id]);
+      return;
+    }
+
+    await query(
+      `UPDATE integrations SET health_status = $2, last_error_at = NOW(), last_error_message = $3 WHERE id = $1`,
+      [id, status, message ? message.substring(0, 1000) : null]
+    );
+  }
+
+  /**
+   * IDs of integrations whose tokens (or IMAP credentials) are unencrypted or wrapped with an
+   * older master key. With `includeCurrent`, every integration is returned (to issue fresh data keys).
+   */
+  async findIntegrationIdsForKeyRotation(includeCurrent: boolean = false): Promise<string[]> {
+    const currentVersion = getCurrentKeyVersion();
+    if (currentVersion === null) throw new Error('TOKEN_ENCRYPTION_KEYS is not configured');
+
+    const result = await query(
+      `SELECT id FROM integrations
+       WHERE $1 OR key_version IS DISTINCT FROM $2
+         OR (metadata ? 'imapCredentials' AND (metadata->'imapCredentials'->>'key_version')::int IS DISTINCT FROM $2)
+       ORDER BY created_at ASC`,
+      [includeCurrent, currentVersion]
+    );
+
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Re-encrypt one integration's tokens (and IMAP credentials) under fresh data keys wrapped
+   * with the current master key. The row is locked so a concurrent token refresh can't be
+   * overwritten.
+   */
+  async reencryptIntegrationTokens(id: string): Promise<void> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        'SELECT access_token, refresh_token, encrypted_data_key, key_version, metadata FROM integrations WHERE id = $1 FOR UPDATE',
+        [id]
+      );
+
+      if (result.rows.length > 0) {
+        const tokens = encryptTokens(decryptTokens(result.rows[0]));
+        const metadata = result.rows[0].metadata || {};
+        if (metadata.imapCredentials) {
+          metadata.imapCredentials = encryptSecret(decryptSecret(metadata.imapCredentials));
+        }
+        await client.query(
+          `UPDATE integrations SET access_token = $1, refresh_token = $2, encrypted_data_key = $3, key_version = $4, metadata = $5
+           WHERE id = $6`,
+          [tokens.access_token, tokens.refresh_token, tokens.encrypted_data_key, tokens.key_version, JSON.stringify(metadata), id]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Decrypt tokens and drop the envelope columns so they never leave this service
+  private decryptIntegration(row: any): Integration {
+    const { encrypted_data_key, key_version, ...integration } = row;
+    return { ...integration, ...decryptTokens({ ...row }) };
+  }
+
+  // Integration sync state operations (background mailbox monitor)
+
+  /**
+   * Atomically claim an integration for a background run. Returns null when the
+   * integration is not due yet or another instance currently holds the lease.
+   * User-triggered runs pass `ignoreSchedule` to claim it before it is due.
+   */
+  async acquireSyncLease(
+    integrationId: string,
+    instanceId: string,
+    leaseUntil: Date,
+    options: { ignoreSchedule?: boolean } = {}
+  ): Promise<IntegrationSyncState | null> {
+    const now = new Date().toISOString();
+
+    const result = await query(
+      `INSERT INTO integration_sync_state (integration_id, status, locked_by, locked_until, next_run_at, updated_at)
+       VALUES ($1, 'running', $2, $3, $4, $4)
+       ON CONFLICT (integration_id) DO UPDATE
+       SET status = 'running', locked_by = EXCLUDED.locked_by, locked_until = EXCLUDED.locked_until, updated_at = EXCLUDED.updated_at
+       WHERE ($5::boolean OR integration_sync_state.next_run_at <= $4)
+         AND (integration_sync_state.locked_until IS NULL OR integration_sync_state.locked_until < $4)
+       RETURNING *`,
+      [integrationId, instanceId, leaseUntil.toISOString(), now, options.ignoreSchedule === true]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  async completeSyncRun(
+    integrationId: string,
+    instanceId: string,
+    outcome: SyncRunOutcome
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    await query(
+      `UPDATE integration_sync_state
+       SET status = $1, last_error = $2, last_result = $3, consecutive_failures = $4, next_run_at = $5,
+           last_run_at = $6, last_success_at = CASE WHEN $1 = 'ok' THEN $6::timestamptz ELSE last_success_at END,
+           locked_by = NULL, locked_until = NULL, updated_at = $6
+       WHERE integration_id = $7 AND locked_by = $8`,
+      [outcome.status, outcome.error || null, JSON.stringify(outcome.result || {}), outcome.consecutiveFailures,
+       outcome.nextRunAt.toISOString(), now, integrationId, instanceId]
+    );
+  }
+
+  async findSyncStatesByUserId(userId: string): Promise<IntegrationSyncState[]> {
+    const result = await query(
+      `SELECT s.* FROM integration_sync_state s
+       JOIN integrations i ON i.id = s.integration_id
+       WHERE i.user_id = $1`,
+      [userId]
+    );
+
+    return result.rows || [];
+  }
+
   // Message operations
+  /**
+   * Store a message. A message an integration already stored (same provider ID, e.g. from a
+   * concurrent run) is updated in place, so the row's ID stays stable.
+   */
   async createMessage(messageData: Omit<Message, 'id' | 'created_at'>): Promise<Message> {
     const id = uuidv4();
     const now = new Date().toISOString();
     
     const result = await query(
-      `INSERT INTO messages (id, source, source_id, content, sender, timestamp, metadata, user_id, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `INSERT INTO messages (id, source, source_id, integration_id, thread_id, content, sender, recipients,
+       subject, url, internet_message_id, timestamp, metadata, user_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       ON CONFLICT (integration_id, source_id) DO UPDATE SET
+         thread_id = EXCLUDED.thread_id, content = EXCLUDED.content, sender = EXCLUDED.sender,
+         recipients = EXCLUDED.recipients, subject = EXCLUDED.subject, url = EXCLUDED.url,
+         internet_message_id = EXCLUDED.internet_message_id, timestamp = EXCLUDED.timestamp, metadata = EXCLUDED.metadata
        RETURNING *`,
-      [id, messageData.source, messageData.source_id, messageData.content, messageData.sender,
-       messageData.timestamp, JSON.stringify(messageData.metadata || {}), messageData.user_id, now]
+      [id, messageData.source, messageData.source_id, messageData.integration_id, messageData.thread_id,
+       messageData.content, messageData.sender, messageData.recipients, messageData.subject, messageData.url,
+       messageData.internet_message_id, messageData.timestamp, JSON.stringify(messageData.metadata || {}), messageData.user_id, now]
     );
 
     if (result.rows.length === 0) throw new Error('Failed to create message');
     return result.rows[0];
   }
 
+  /**
+   * Stored messages of a conversation, oldest first
+   */
+  async findMessagesByThreadId(integrationId: string, threadId: string): Promise<Message[]> {
+    const result = await query(
+      'SELECT * FROM messages WHERE integration_id = $1 AND thread_id = $2 ORDER BY timestamp ASC',
+      [integrationId, threadId]
+    );
+
+    return result.rows || [];
+  }
+
+  /**
+   * Stored messages of an integration by provider message ID
+   */
+  async findMessagesBySourceIds(integrationId: string, sourceIds: string[]): Promise<Message[]> {
+    if (sourceIds.length === 0) return [];
+
+    const result = await query(
+      'SELECT * FROM messages WHERE integration_id = $1 AND source_id = ANY($2)',
+      [integrationId, sourceIds]
+    );
+
+    return result.rows || [];
+  }
+
   async findMessagesByUserId(userId: string): Promise<Message[]> {
     const result = await query(
       'SELECT * FROM messages WHERE user_id = $1 ORDER BY timestamp DESC',
@@ -460,12 +1528,23 @@ export class DatabaseService {
     const now = new Date().toISOString();
     
     const result = await query(
-      `INSERT INTO parsed_messages (id, user_id, integration_id, gmail_message_id, parsed_at, tasks_extracted)
-       VALUES ($1, $2, $3, $4, $5, $6)
+      `INSERT INTO parsed_messages (id, user_id, integration_id, gmail_message_id, parsed_at, tasks_extracted, status, error, skip_reason, attempts)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 1)
        ON CONFLICT (user_id, integration_id, gmail_message_id) 
-       DO UPDATE SET tasks_extracted = EXCLUDED.tasks_extracted, parsed_at = EXCLUDED.parsed_at
+       DO UPDATE SET tasks_extracted = EXCLUDED.tasks_extracted, parsed_at = EXCLUDED.parsed_at,
+         status = EXCLUDED.status, error = EXCLUDED.error, skip_reason = EXCLUDED.skip_reason, attempts = parsed_messages.attempts + 1
        RETURNING *`,
-      [id, parsedMessageData.user_id, parsedMessageData.integration_id, parsedMessageData.gmail_message_id, now, parsedMessageData.tasks_extracted || 0]
+      [
+        id,
+        parsedMessageData.user_id,
+        parsedMessageData.integration_id,
+        parsedMessageData.gmail_message_id,
+        now,
+        parsedMessageData.tasks_extracted || 0,
+        parsedMessageData.status || 'parsed',
+        parsedMessageData.error || null,
+        parsedMessageData.skip_reason || null,
+      ]
     );
 
     if (result.rows.length === 0) throw new Error('Failed to create parsed message');
@@ -490,19 +1569,71 @@ export class DatabaseService {
     return result.rows.length > 0;
   }
 
-  async getParsedMessageIds(userId: string, integrationId: string): Promise<Set<string>> {
+  /**
+   * IDs of messages that are done: parsed successfully, skipped by the filter rules, or failed maxAttempts times
+   */
+  async getParsedMessageIds(userId: string, integrationId: string, maxAttempts: number): Promise<Set<string>> {
     const result = await query(
-      'SELECT gmail_message_id FROM parsed_messages WHERE user_id = $1 AND integration_id = $2',
-      [userId, integrationId]
+      `SELECT gmail_message_id FROM parsed_messages
+       WHERE user_id = $1 AND integration_id = $2 AND (status IN ('parsed', 'skipped') OR attempts >= $3)`,
+      [userId, integrationId, maxAttempts]
     );
 
     return new Set(result.rows.map(row => row.gmail_message_id));
   }
 
+  /**
+   * IDs of messages whose extraction failed and that still have attempts left
+   */
+  async getRetryableMessageIds(userId: string, integrationId: string, maxAttempts: number): Promise<string[]> {
+    const result = await query(
+      `SELECT gmail_message_id FROM parsed_messages
+       WHERE user_id = $1 AND integration_id = $2 AND status = 'failed' AND attempts < $3
+       ORDER BY parsed_at`,
+      [userId, integrationId, maxAttempts]
+    );
+
+    return result.rows.map(row => row.gmail_message_id);
+  }
+
   async clearParsedMessages(userId: string, integrationId: string): Promise<void> {
     await query(
       'DELETE FROM parsed_messages WHERE user_id = $1 AND integration_id = $2',
       [userId, integrationId]
     );
   }
+
+  // SenderRule operations
+  async findSenderRulesByUserId(userId: string): Promise<SenderRule[]> {
+    const result = await query(
+      'SELECT * FROM sender_rules WHERE user_id = $1 ORDER BY action, pattern',
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Add a sender rule; a rule for the same address or domain has its action replaced
+   */
+  async upsertSenderRule(userId: string, pattern: string, action: SenderRule['action']): Promise<SenderRule> {
+    const result = await query(
+      `INSERT INTO sender_rules (id, user_id, pattern, action, created_at)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id, pattern) DO UPDATE SET action = EXCLUDED.action
+       RETURNING *`,
+      [uuidv4(), userId, pattern, action, new Date().toISOString()]
+    );
+
+    return result.rows[0];
+  }
+
+  async deleteSenderRule(userId: string, ruleId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM sender_rules WHERE id = $1 AND user_id = $2',
+      [ruleId, userId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
 }
@@ -1,28 +1,28 @@
 import axios from 'axios';
+import { config } from '../../config';
+import { IntegrationHealthStatus } from '../database/DatabaseService';
+import { MimePart, decodeHtmlEntities, extractMimeText } from '../../utils/emailContent';
 
 export interface GmailMessage {
   id: string;
   threadId: string;
   labelIds: string[];
   snippet: string;
-  payload: {
+  payload: MimePart & {
     headers: Array<{
       name: string;
       value: string;
     }>;
-    body?: {
-      data?: string;
-    };
-    parts?: Array<{
-      mimeType: string;
-      body: {
-        data?: string;
-      };
-    }>;
   };
   internalDate: string;
 }
 
+export interface GmailThread {
+  id: string;
+  historyId: string;
+  messages: GmailMessage[]; // Oldest first
+}
+
 export interface GmailProfile {
   emailAddress: string;
   messagesTotal: number;
@@ -30,21 +30,100 @@ export interface GmailProfile {
   historyId: string;
 }
 
+export interface GmailHistoryResult {
+  messageIds: string[];
+  historyId: string;
+}
+
 export interface TokenRefreshResult {
   accessToken: string;
   refreshToken?: string;
   expiresIn: number;
 }
 
+export interface HealthReport {
+  status: IntegrationHealthStatus;
+  message?: string;
+}
+
+/**
+ * Thrown when the stored grant can no longer be used (revoked or expired refresh token,
+ * or no refresh token at all). Only the user can fix this by reconnecting the account.
+ */
+export class GmailAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GmailAuthError';
+  }
+}
+
+const QUOTA_ERROR_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded', 'dailyLimitExceeded', 'quotaExceeded'];
+const AUTH_ERROR_REASONS = ['authError', 'insufficientPermissions'];
+
+/**
+ * Map a failed Gmail call to an integration health state. Returns null for errors that
+ * say nothing about the account itself (e.g. a 404 for a deleted message).
+ */
+export function classifyGmailError(error: unknown): HealthReport | null {
+  if (error instanceof GmailAuthError) {
+    return { status: 'needs_reauth', message: error.message };
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const apiError = error.response?.data?.error;
+    const reason: string | undefined = apiError?.errors?.[0]?.reason;
+    const message = apiError?.message || error.message;
+
+    if (status === 404) return null;
+    if (status === 401 || (status === 403 && reason && AUTH_ERROR_REASONS.includes(reason))) {
+      return { status: 'needs_reauth', message };
+    }
+    if (status === 429 || (status === 403 && reason && QUOTA_ERROR_REASONS.includes(reason))) {
+      return { status: 'quota_exceeded', message };
+    }
+    return { status: 'error', message };
+  }
+
+  return { status: 'error', message: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+/**
+ * Revoke a Google grant. Revoking the refresh token also invalidates its access tokens.
+ * A token Google no longer recognises (400 invalid_token) is already revoked, so that
+ * counts as success; anything else throws.
+ */
+export async function revokeGoogleToken(token: string): Promise<void> {
+  try {
+    await axios.post(config.google.revokeUrl, new URLSearchParams({ token }).toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 10000,
+    });
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 400) {
+      console.log(`🔍 [DEBUG] Google token already invalid (${error.response.data?.error || 'bad request'}), nothing to revoke`);
+      return;
+    }
+    throw error;
+  }
+}
+
 export class GmailService {
   private accessToken: string;
   private refreshToken?: string;
   private onTokenRefresh?: (result: TokenRefreshResult) => Promise<void>;
-
-  constructor(accessToken: string, refreshToken?: string, onTokenRefresh?: (result: TokenRefreshResult) => Promise<void>) {
+  private onHealthChange?: (report: HealthReport) => Promise<void>;
+
+  constructor(
+    accessToken: string,
+    refreshToken?: string,
+    onTokenRefresh?: (result: TokenRefreshResult) => Promise<void>,
+    onHealthChange?: (report: HealthReport) => Promise<void>
+  ) {
     this.accessToken = accessToken;
     this.refreshToken = refreshToken;
     this.onTokenRefresh = onTokenRefresh;
+    this.onHealthChange = onHealthChange;
   }
 
   private getHeaders() {
@@ -56,7 +135,7 @@ export class GmailService {
 
   private async refreshAccessToken(): Promise<string> {
     if (!this.refreshToken) {
-      throw new Error('No refresh token available');
+      throw new GmailAuthError('No refresh token available');
     }
 
     try {
@@ -92,11 +171,42 @@ export class GmailService {
       return access_token;
     } catch (error) {
       console.error('❌ Failed to refresh access token:', error);
+      // invalid_grant: the user revoked access, or the refresh token expired
+      if (axios.isAxiosError(error) && error.response?.data?.error === 'invalid_grant') {
+        throw new GmailAuthError('Google access was revoked or has expired (invalid_grant)');
+      }
       throw new Error('Failed to refresh access token');
     }
   }
 
+  /**
+   * Run a Gmail API call and report the outcome to onHealthChange, so the integration's
+   * health reflects the most recent call
+   */
   private async makeAuthenticatedRequest<T>(requestFn: () => Promise<T>): Promise<T> {
+    try {
+      const result = await this.sendWithRetry(requestFn);
+      await this.reportHealth({ status: 'ok' });
+      return result;
+    } catch (error) {
+      const report = classifyGmailError(error);
+      if (report) {
+        await this.reportHealth(report);
+      }
+      throw error;
+    }
+  }
+
+  private async reportHealth(report: HealthReport): Promise<void> {
+    if (!this.onHealthChange) return;
+    try {
+      await this.onHealthChange(report);
+    } catch (error) {
+      console.error('❌ Failed to record integration health:', error);
+    }
+  }
+
+  private async sendWithRetry<T>(requestFn: () => Promise<T>): Promise<T> {
     try {
       return await requestFn();
     } catch (error) {
@@ -187,6 +297,135 @@ export class GmailService {
     });
   }
 
+  /**
+   * A conversation with all of its messages, including the user's own replies and messages
+   * outside the inbox. Returns null if the thread no longer exists.
+   */
+  async getThread(threadId: string): Promise<GmailThread | null> {
+    try {
+      return await this.makeAuthenticatedRequest(async () => {
+        const response = await axios.get(
+          `https://gmail.googleapis.com/gmail/v1/users/me/threads/${threadId}`,
+          { headers: this.getHeaders() }
+        );
+        return response.data;
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        console.log(`Thread ${threadId} no longer exists, skipping`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List message IDs matching a query, following pagination up to the given limit
+   */
+  async listMessageIds(query: string, limit: number): Promise<string[]> {
+    const messageIds: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        q: query,
+        maxResults: String(Math.min(500, limit - messageIds.length)),
+      });
+      if (pageToken) {
+        params.set('pageToken', pageToken);
+      }
+
+      const data = await this.makeAuthenticatedRequest(async () => {
+        const response = await axios.get(
+          `https://gmail.googleapis.com/gmail/v1/users/me/messages?${params.toString()}`,
+          { headers: this.getHeaders() }
+        );
+        return response.data;
+      });
+
+      messageIds.push(...(data.messages || []).map((msg: { id: string }) => msg.id));
+      pageToken = data.nextPageToken;
+    } while (pageToken && messageIds.length < limit);
+
+    return messageIds;
+  }
+
+  /**
+   * List IDs of messages added to a label since the given history cursor.
+   * Returns null when Gmail no longer keeps history that far back (404),
+   * in which case the caller has to fall back to a full resync.
+   */
+  async getHistory(startHistoryId: string, labelId: string = 'INBOX'): Promise<GmailHistoryResult | null> {
+    const messageIds = new Set<string>();
+    let historyId = startHistoryId;
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const params = new URLSearchParams({
+          startHistoryId,
+          historyTypes: 'messageAdded',
+          labelId,
+        });
+        if (pageToken) {
+          params.set('pageToken', pageToken);
+        }
+
+        const data = await this.makeAuthenticatedRequest(async () => {
+          const response = await axios.get(
+            `https://gmail.googleapis.com/gmail/v1/users/me/history?${params.toString()}`,
+            { headers: this.getHeaders() }
+          );
+          return response.data;
+        });
+
+        for (const record of data.history || []) {
+          for (const added of record.messagesAdded || []) {
+            messageIds.add(added.message.id);
+          }
+        }
+
+        historyId = data.historyId || historyId;
+        pageToken = data.nextPageToken;
+      } while (pageToken);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        console.log(`🔄 History cursor ${startHistoryId} has expired, full resync required`);
+        return null;
+      }
+      throw error;
+    }
+
+    return { messageIds: Array.from(messageIds), historyId };
+  }
+
+  /**
+   * Fetch full message details in small chunks to stay under Gmail's rate limits.
+   * Messages deleted since they were listed are skipped.
+   */
+  async getMessagesByIds(messageIds: string[], chunkSize: number = 10): Promise<GmailMessage[]> {
+    const messages: GmailMessage[] = [];
+
+    for (let i = 0; i < messageIds.length; i += chunkSize) {
+      const chunk = messageIds.slice(i, i + chunkSize);
+      const chunkMessages = await Promise.all(chunk.map(async (messageId) => {
+        try {
+          return await this.getMessage(messageId);
+        } catch (error) {
+          if (axios.isAxiosError(error) && error.response?.status === 404) {
+            console.log(`Message ${messageId} no longer exists, skipping`);
+            return null;
+          }
+          throw error;
+        }
+      }));
+
+      messages.push(...chunkMessages.filter((message): message is GmailMessage => message !== null));
+    }
+
+    return messages;
+  }
+
   async searchMessages(query: string, maxResults: number = 10): Promise<GmailMessage[]> {
     return this.getMessages(maxResults, query);
   }
@@ -207,38 +446,10 @@ export class GmailService {
     return this.getMessages(maxResults, `subject:${subject}`);
   }
 
-  // Helper method to extract email content
+  // Helper method to extract email content: the readable text of the body, from any depth of
+  // multipart nesting
   extractEmailContent(message: GmailMessage): string {
-    let content = '';
-
-    // Try to get content from body
-    if (message.payload.body?.data) {
-      content = Buffer.from(message.payload.body.data, 'base64').toString('utf-8');
-    }
-
-    // If no content in body, try parts
-    if (!content && message.payload.parts) {
-      for (const part of message.payload.parts) {
-        if (part.mimeType === 'text/plain' && part.body?.data) {
-          content = Buffer.from(part.body.data, 'base64').toString('utf-8');
-          break;
-        }
-      }
-    }
-
-    // If still no content, try HTML parts
-    if (!content && message.payload.parts) {
-      for (const part of message.payload.parts) {
-        if (part.mimeType === 'text/html' && part.body?.data) {
-          content = Buffer.from(part.body.data, 'base64').toString('utf-8');
-          // Strip HTML tags for plain text
-          content = content.replace(/<[^>]*>/g, '');
-          break;
-        }
-      }
-    }
-
-    return content || message.snippet;
+    return extractMimeText(message.payload).trim() || decodeHtmlEntities(message.snippet || '');
   }
 
   // Helper method to extract email headers
@@ -278,6 +489,18 @@ export class GmailService {
     return to || cc;
   }
 
+  // Helper method to get the RFC 822 Message-ID
+  getInternetMessageId(message: GmailMessage): string | undefined {
+    const headers = this.extractEmailHeaders(message);
+    return headers['message-id'] || undefined;
+  }
+
+  // Helper method to get any other header, by lowercase name
+  getHeader(message: GmailMessage, name: string): string | undefined {
+    const headers = this.extractEmailHeaders(message);
+    return headers[name] || undefined;
+  }
+
   // Helper method to get date
   getDate(message: GmailMessage): Date {
     return new Date(parseInt(message.internalDate));
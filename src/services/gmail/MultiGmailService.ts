@@ -1,25 +1,17 @@
 import { DatabaseService } from '../database/DatabaseService';
-import { GmailService, TokenRefreshResult } from './GmailService';
+import { createIntegrationGmailService } from './integrationGmail';
+import { MimePart } from '../../utils/emailContent';
 
 export interface GmailMessage {
   id: string;
   threadId: string;
   labelIds: string[];
   snippet: string;
-  payload: {
+  payload: MimePart & {
     headers: Array<{
       name: string;
       value: string;
     }>;
-    body?: {
-      data?: string;
-    };
-    parts?: Array<{
-      mimeType: string;
-      body: {
-        data?: string;
-      };
-    }>;
   };
   internalDate: string;
   // Additional fields for multi-account support
@@ -35,31 +27,6 @@ export class MultiGmailService {
     this.databaseService = new DatabaseService();
   }
 
-  /**
-   * Create a token refresh callback for a specific integration
-   */
-  private createTokenRefreshCallback(integrationId: string) {
-    return async (result: TokenRefreshResult) => {
-      try {
-        console.log(`🔄 Updating integration ${integrationId} with new tokens`);
-        
-        const updateData: any = {
-          access_token: result.accessToken,
-        };
-        
-        // Only update refresh token if a new one is provided
-        if (result.refreshToken) {
-          updateData.refresh_token = result.refreshToken;
-        }
-        
-        await this.databaseService.updateIntegration(integrationId, updateData);
-        console.log(`✅ Integration ${integrationId} updated with new tokens`);
-      } catch (error) {
-        console.error(`❌ Failed to update integration ${integrationId} with new tokens:`, error);
-      }
-    };
-  }
-
   /**
    * Get messages from all connected Gmail accounts for a user
    */
@@ -75,12 +42,7 @@ export class MultiGmailService {
       // Get messages from all integrations
       const messagePromises = integrations.map(async (integration) => {
         try {
-          const tokenRefreshCallback = this.createTokenRefreshCallback(integration.id);
-          const gmailService = new GmailService(
-            integration.access_token,
-            integration.refresh_token,
-            tokenRefreshCallback
-          );
+          const gmailService = createIntegrationGmailService(integration, this.databaseService);
 
           const messages = await gmailService.getMessages(maxResults, query);
           
@@ -140,12 +102,7 @@ export class MultiGmailService {
       // Try to get the message from each integration until found
       for (const integration of integrations) {
         try {
-          const tokenRefreshCallback = this.createTokenRefreshCallback(integration.id);
-          const gmailService = new GmailService(
-            integration.access_token,
-            integration.refresh_token,
-            tokenRefreshCallback
-          );
+          const gmailService = createIntegrationGmailService(integration, this.databaseService);
 
           const message = await gmailService.getMessage(messageId);
           
@@ -183,12 +140,7 @@ export class MultiGmailService {
 
       const countPromises = integrations.map(async (integration) => {
         try {
-          const tokenRefreshCallback = this.createTokenRefreshCallback(integration.id);
-          const gmailService = new GmailService(
-            integration.access_token,
-            integration.refresh_token,
-            tokenRefreshCallback
-          );
+          const gmailService = createIntegrationGmailService(integration, this.databaseService);
 
           return await gmailService.getInboxMessageCount();
         } catch (error) {
@@ -224,12 +176,7 @@ export class MultiGmailService {
 
       const profilePromises = integrations.map(async (integration) => {
         try {
-          const tokenRefreshCallback = this.createTokenRefreshCallback(integration.id);
-          const gmailService = new GmailService(
-            integration.access_token,
-            integration.refresh_token,
-            tokenRefreshCallback
-          );
+          const gmailService = createIntegrationGmailService(integration, this.databaseService);
 
           const profile = await gmailService.getProfile();
           
@@ -0,0 +1,17 @@
+import { DatabaseService, Integration } from '../database/DatabaseService';
+import { persistRefreshedTokens, trackIntegrationHealth } from '../integrations/integrationHealth';
+import { GmailService } from './GmailService';
+
+/**
+ * Create a Gmail client for an integration that persists refreshed tokens and records
+ * the integration's health after every API call. Repeated `ok` reports are dropped so a
+ * healthy account costs no extra queries.
+ */
+export function createIntegrationGmailService(integration: Integration, databaseService: DatabaseService): GmailService {
+  return new GmailService(
+    integration.access_token,
+    integration.refresh_token,
+    persistRefreshedTokens(integration, databaseService),
+    trackIntegrationHealth(integration, databaseService)
+  );
+}
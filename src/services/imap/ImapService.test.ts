@@ -0,0 +1,114 @@
+import { ImapFlow } from 'imapflow';
+import { ImapService, toImapMessageId } from './ImapService';
+
+jest.mock('imapflow', () => ({ ImapFlow: jest.fn() }));
+
+interface FakeMailbox {
+  uidValidity: bigint;
+  uidNext: number;
+  uids: number[];
+}
+
+// An INBOX holding `uids`; search answers UID ranges (`n:*`) and `all` like a server would
+function useMailbox(mailbox: FakeMailbox): { search: jest.Mock; fetchAll: jest.Mock } {
+  const search = jest.fn(async (query: { uid?: string; all?: boolean }) => {
+    if (query.all) return mailbox.uids;
+    const from = parseInt(String(query.uid).split(':')[0], 10);
+    const matches = mailbox.uids.filter(uid => uid >= from);
+    // `n:*` always includes the highest UID
+    return matches.length > 0 ? matches : mailbox.uids.slice(-1);
+  });
+  const fetchAll = jest.fn(async (uids: number[]) => uids.map(uid => ({ uid, envelope: { subject: `Message ${uid}` } })));
+
+  (ImapFlow as unknown as jest.Mock).mockImplementation(() => ({
+    mailbox: { uidValidity: mailbox.uidValidity, uidNext: mailbox.uidNext, exists: mailbox.uids.length },
+    connect: jest.fn(async () => undefined),
+    getMailboxLock: jest.fn(async () => ({ release: jest.fn() })),
+    logout: jest.fn(async () => undefined),
+    close: jest.fn(),
+    search,
+    fetchAll,
+  }));
+
+  return { search, fetchAll };
+}
+
+function createService(): ImapService {
+  return new ImapService({ host: 'localhost', port: 993, secure: true, username: 'ann', password: 'secret' });
+}
+
+describe('ImapService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('listNewMessageIds', () => {
+    it('lists the newest messages and remembers the highest UID without a cursor', async () => {
+      useMailbox({ uidValidity: BigInt(7), uidNext: 13, uids: [3, 5, 8, 10, 12] });
+
+      const result = await createService().listNewMessageIds(undefined, 3);
+
+      expect(result.messageIds).toEqual(['7:8', '7:10', '7:12']);
+      expect(result.cursor).toBe('7:12');
+    });
+
+    it('lists only messages after the cursor UID while UIDVALIDITY is unchanged', async () => {
+      const { search } = useMailbox({ uidValidity: BigInt(7), uidNext: 16, uids: [5, 8, 12, 14, 15] });
+
+      const result = await createService().listNewMessageIds('7:12', 100);
+
+      expect(search).toHaveBeenCalledWith({ uid: '13:*' }, { uid: true });
+      expect(result.messageIds).toEqual(['7:14', '7:15']);
+      expect(result.cursor).toBe('7:15');
+    });
+
+    it('keeps the cursor when nothing arrived, ignoring the highest UID that `n:*` always matches', async () => {
+      useMailbox({ uidValidity: BigInt(7), uidNext: 13, uids: [5, 8, 12] });
+
+      const result = await createService().listNewMessageIds('7:12', 100);
+
+      expect(result.messageIds).toEqual([]);
+      expect(result.cursor).toBe('7:12');
+    });
+
+    it('resyncs the whole inbox when UIDVALIDITY changed', async () => {
+      const { search } = useMailbox({ uidValidity: BigInt(9), uidNext: 4, uids: [1, 2, 3] });
+
+      const result = await createService().listNewMessageIds('7:12', 100);
+
+      expect(search).toHaveBeenCalledWith({ all: true }, { uid: true });
+      expect(result.messageIds).toEqual(['9:1', '9:2', '9:3']);
+      expect(result.cursor).toBe('9:3');
+    });
+
+    it('moves the cursor past expunged messages using UIDNEXT', async () => {
+      useMailbox({ uidValidity: BigInt(7), uidNext: 21, uids: [3, 5] });
+
+      const result = await createService().listNewMessageIds(undefined, 100);
+
+      expect(result.cursor).toBe('7:20');
+    });
+  });
+
+  describe('getMessagesByIds', () => {
+    it('skips messages from an older UIDVALIDITY', async () => {
+      const { fetchAll } = useMailbox({ uidValidity: BigInt(9), uidNext: 4, uids: [1, 2, 3] });
+
+      const messages = await createService().getMessagesByIds(['7:2', toImapMessageId('9', 2), 'not-an-id']);
+
+      expect(fetchAll).toHaveBeenCalledWith([2], expect.anything(), { uid: true });
+      expect(messages.map(message => message.id)).toEqual(['9:2']);
+    });
+
+    it('fetches nothing when every ID is from an older UIDVALIDITY', async () => {
+      const { fetchAll } = useMailbox({ uidValidity: BigInt(9), uidNext: 4, uids: [1, 2, 3] });
+
+      expect(await createService().getMessagesByIds(['7:2'])).toEqual([]);
+      expect(fetchAll).not.toHaveBeenCalled();
+    });
+  });
+});
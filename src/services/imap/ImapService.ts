@@ -0,0 +1,261 @@
+import { ImapFlow, MailboxObject, FetchMessageObject, MessageAddressObject } from 'imapflow';
+import { config } from '../../config';
+import { HealthReport } from '../gmail/GmailService';
+import { extractMimeText, parseMimeMessage } from '../../utils/emailContent';
+
+export interface ImapCredentials {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 993); otherwise STARTTLS is used when offered
+  username: string;
+  password: string;
+}
+
+export interface ImapMessage {
+  id: string; // `<UIDVALIDITY>:<UID>`
+  uid: number;
+  envelope: NonNullable<FetchMessageObject['envelope']>;
+  internalDate?: Date;
+  headers: Record<string, string>; // The FILTER_HEADERS present, by lowercase name
+  content: string; // Readable text of the body
+}
+
+export interface ImapSyncResult {
+  messageIds: string[];
+  cursor: string; // `<UIDVALIDITY>:<highest UID seen>`
+}
+
+const INBOX = 'INBOX';
+// Messages are fetched whole up to this size; text parts usually come before attachments,
+// so a longer message cut short still has its text
+const MAX_SOURCE_BYTES = 1024 * 1024;
+// Headers fetched for the filter rules that run before extraction
+const FILTER_HEADERS = ['list-unsubscribe', 'precedence'];
+
+/**
+ * Map a failed IMAP operation to an integration health state, like classifyGmailError.
+ * Rejected credentials need the user to update them; anything else (unreachable server,
+ * timeouts) is retried.
+ */
+export function classifyImapError(error: unknown): HealthReport {
+  const imapError = error as { authenticationFailed?: boolean; responseText?: string; code?: string; message?: string };
+
+  if (imapError?.authenticationFailed) {
+    return { status: 'needs_reauth', message: imapError.responseText || 'IMAP login failed' };
+  }
+
+  return {
+    status: 'error',
+    message: imapError?.responseText || imapError?.message || imapError?.code || 'Unknown error',
+  };
+}
+
+/**
+ * Build the ID an IMAP message is tracked by. UIDs are only unique within one UIDVALIDITY,
+ * so a server that resets UIDs produces new IDs instead of matching old ones.
+ */
+export function toImapMessageId(uidValidity: string, uid: number): string {
+  return `${uidValidity}:${uid}`;
+}
+
+function parseImapMessageId(messageId: string): { uidValidity: string; uid: number } | null {
+  const [uidValidity, uid] = messageId.split(':');
+  const parsedUid = parseInt(uid, 10);
+  return uidValidity && !isNaN(parsedUid) ? { uidValidity, uid: parsedUid } : null;
+}
+
+/**
+ * Inbox access for a generic IMAP account. Every public method opens its own connection,
+ * works on the INBOX and logs out again; the outcome is reported to onHealthChange.
+ */
+export class ImapService {
+  private credentials: ImapCredentials;
+  private onHealthChange?: (report: HealthReport) => Promise<void>;
+
+  constructor(credentials: ImapCredentials, onHealthChange?: (report: HealthReport) => Promise<void>) {
+    this.credentials = credentials;
+    this.onHealthChange = onHealthChange;
+  }
+
+  private createClient(): ImapFlow {
+    const timeout = config.imap.connectionTimeoutSeconds * 1000;
+    return new ImapFlow({
+      host: this.credentials.host,
+      port: this.credentials.port,
+      secure: this.credentials.secure,
+      auth: {
+        user: this.credentials.username,
+        pass: this.credentials.password,
+      },
+      tls: { rejectUnauthorized: config.imap.tlsRejectUnauthorized },
+      logger: false,
+      disableAutoIdle: true,
+      connectionTimeout: timeout,
+      greetingTimeout: timeout,
+      socketTimeout: timeout * 4,
+    });
+  }
+
+  /**
+   * Connect, open the INBOX, run `work` and log out, reporting the account's health
+   */
+  private async withInbox<T>(work: (client: ImapFlow, mailbox: MailboxObject) => Promise<T>): Promise<T> {
+    const client = this.createClient();
+
+    try {
+      await client.connect();
+      const lock = await client.getMailboxLock(INBOX, { readOnly: true });
+      let result: T;
+      try {
+        result = await work(client, client.mailbox as MailboxObject);
+      } finally {
+        lock.release();
+      }
+      await client.logout();
+      await this.reportHealth({ status: 'ok' });
+      return result;
+    } catch (error) {
+      client.close();
+      await this.reportHealth(classifyImapError(error));
+      throw error;
+    }
+  }
+
+  private async reportHealth(report: HealthReport): Promise<void> {
+    if (!this.onHealthChange) return;
+    try {
+      await this.onHealthChange(report);
+    } catch (error) {
+      console.error('❌ Failed to record integration health:', error);
+    }
+  }
+
+  /**
+   * Check that the server accepts the credentials and has an INBOX
+   */
+  async verify(): Promise<void> {
+    await this.withInbox(async () => undefined);
+  }
+
+  async getInboxMessageCount(): Promise<number> {
+    return this.withInbox(async (_client, mailbox) => mailbox.exists);
+  }
+
+  /**
+   * List inbox messages that arrived after `cursor` (`<UIDVALIDITY>:<last UID>`). Without
+   * a cursor, or when the server's UIDVALIDITY changed (so old UIDs mean nothing), falls
+   * back to the newest `maxMessages` messages; already-parsed IDs are filtered by the caller.
+   */
+  async listNewMessageIds(cursor: string | undefined, maxMessages: number): Promise<ImapSyncResult> {
+    return this.withInbox(async (client, mailbox) => {
+      const uidValidity = mailbox.uidValidity.toString();
+      const previous = cursor ? parseImapMessageId(cursor) : null;
+
+      let uids: number[];
+      let lastUid: number;
+      if (previous && previous.uidValidity === uidValidity) {
+        // `n:*` always matches the highest UID, even when it is below n
+        uids = ((await client.search({ uid: `${previous.uid + 1}:*` }, { uid: true })) || [])
+          .filter(uid => uid > previous.uid)
+          .sort((a, b) => a - b);
+        lastUid = uids.length > 0 ? uids[uids.length - 1] : previous.uid;
+        console.log(`🔍 [DEBUG] Incremental IMAP sync from UID ${previous.uid}: ${uids.length} new messages`);
+      } else {
+        console.log(`🔍 [DEBUG] Full IMAP resync (cursor ${previous ? 'invalidated by UIDVALIDITY change' : 'missing'})`);
+        const allUids = ((await client.search({ all: true }, { uid: true })) || []).sort((a, b) => a - b);
+        uids = allUids.slice(-maxMessages);
+        lastUid = Math.max(mailbox.uidNext - 1, allUids.length > 0 ? allUids[allUids.length - 1] : 0);
+      }
+
+      return {
+        messageIds: uids.map(uid => toImapMessageId(uidValidity, uid)),
+        cursor: toImapMessageId(uidValidity, lastUid),
+      };
+    });
+  }
+
+  /**
+   * Fetch messages with their envelope and readable body. Messages that were expunged, or
+   * whose IDs belong to an older UIDVALIDITY, are skipped.
+   */
+  async getMessagesByIds(messageIds: string[]): Promise<ImapMessage[]> {
+    if (messageIds.length === 0) return [];
+
+    return this.withInbox(async (client, mailbox) => {
+      const uidValidity = mailbox.uidValidity.toString();
+      const uids = messageIds
+        .map(parseImapMessageId)
+        .filter((parsed): parsed is { uidValidity: string; uid: number } => parsed !== null && parsed.uidValidity === uidValidity)
+        .map(parsed => parsed.uid);
+
+      if (uids.length < messageIds.length) {
+        console.log(`Skipping ${messageIds.length - uids.length} messages from an older UIDVALIDITY`);
+      }
+      if (uids.length === 0) return [];
+
+      const fetched = await client.fetchAll(
+        uids,
+        { uid: true, envelope: true, internalDate: true, headers: FILTER_HEADERS, source: { maxLength: MAX_SOURCE_BYTES } },
+        { uid: true }
+      );
+
+      return fetched.map(message => ({
+        id: toImapMessageId(uidValidity, message.uid),
+        uid: message.uid,
+        envelope: message.envelope || {},
+        internalDate: message.internalDate ? new Date(message.internalDate) : undefined,
+        headers: message.headers ? this.parseHeaders(message.headers) : {},
+        content: message.source ? extractMimeText(parseMimeMessage(message.source)).trim() : '',
+      }));
+    });
+  }
+
+  // Raw header lines as fetched, unfolded, by lowercase name
+  private parseHeaders(raw: Buffer): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of raw.toString('utf8').replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.substring(0, separator).trim().toLowerCase()] = line.substring(separator + 1).trim();
+      }
+    }
+    return headers;
+  }
+
+  // Helper method to extract email content
+  extractEmailContent(message: ImapMessage): string {
+    return message.content;
+  }
+
+  // Helper method to get sender, formatted like a From header
+  getSenderEmail(message: ImapMessage): string {
+    return (message.envelope.from || []).map(address => this.formatAddress(address)).join(', ');
+  }
+
+  getSubject(message: ImapMessage): string {
+    return message.envelope.subject || '';
+  }
+
+  // Helper method to get recipients (to + cc)
+  getRecipients(message: ImapMessage): string {
+    return [...(message.envelope.to || []), ...(message.envelope.cc || [])]
+      .map(address => this.formatAddress(address))
+      .join(', ');
+  }
+
+  getInternetMessageId(message: ImapMessage): string | undefined {
+    return message.envelope.messageId || undefined;
+  }
+
+  getHeader(message: ImapMessage, name: string): string | undefined {
+    return message.headers[name.toLowerCase()] || undefined;
+  }
+
+  getDate(message: ImapMessage): Date {
+    return message.envelope.date || message.internalDate || new Date();
+  }
+
+  private formatAddress(address: MessageAddressObject): string {
+    return address.name && address.name !== address.address ? `${address.name} <${address.address}>` : address.address || '';
+  }
+}
@@ -0,0 +1,27 @@
+import { DatabaseService, Integration } from '../database/DatabaseService';
+import { trackIntegrationHealth } from '../integrations/integrationHealth';
+import { decryptSecret, encryptSecret, EncryptedSecret } from '../../utils/tokenEncryption';
+import { ImapCredentials, ImapService } from './ImapService';
+
+/**
+ * Encrypt IMAP credentials for integration.metadata.imapCredentials. The whole set is
+ * encrypted, so the server and username don't show up in metadata either.
+ */
+export function encryptImapCredentials(credentials: ImapCredentials): EncryptedSecret {
+  return encryptSecret(JSON.stringify(credentials));
+}
+
+export function getImapCredentials(integration: Integration): ImapCredentials {
+  if (!integration.metadata?.imapCredentials) {
+    throw new Error('IMAP integration has no stored credentials');
+  }
+  return JSON.parse(decryptSecret(integration.metadata.imapCredentials));
+}
+
+/**
+ * Create an IMAP client for an integration that records the integration's health; see
+ * createIntegrationGmailService
+ */
+export function createIntegrationImapService(integration: Integration, databaseService: DatabaseService): ImapService {
+  return new ImapService(getImapCredentials(integration), trackIntegrationHealth(integration, databaseService));
+}
@@ -0,0 +1,67 @@
+import { config } from '../../config';
+import { DatabaseService, Integration, IntegrationHealthStatus } from '../database/DatabaseService';
+import { HealthReport, TokenRefreshResult } from '../gmail/GmailService';
+
+/**
+ * onTokenRefresh callback that writes new tokens back to the integration, so long-running
+ * and background work survives access token expiry
+ */
+export function persistRefreshedTokens(
+  integration: Integration,
+  databaseService: DatabaseService
+): (result: TokenRefreshResult) => Promise<void> {
+  return async (result: TokenRefreshResult) => {
+    try {
+      console.log(`🔄 Updating integration ${integration.id} with new tokens`);
+      await databaseService.updateIntegration(integration.id, {
+        access_token: result.accessToken,
+        // Only replace the refresh token if the provider issued a new one
+        ...(result.refreshToken ? { refresh_token: result.refreshToken } : {}),
+      });
+    } catch (error) {
+      console.error(`❌ Failed to update integration ${integration.id} with new tokens:`, error);
+    }
+  };
+}
+
+/**
+ * onHealthChange callback that records the integration's health, skipping writes while
+ * it stays `ok`
+ */
+export function trackIntegrationHealth(
+  integration: Integration,
+  databaseService: DatabaseService
+): (report: HealthReport) => Promise<void> {
+  let currentStatus: IntegrationHealthStatus = integration.health_status || 'ok';
+
+  return async (report: HealthReport) => {
+    if (report.status === 'ok' && currentStatus === 'ok') return;
+
+    if (report.status !== currentStatus) {
+      console.log(`🩺 Integration ${integration.id} (${integration.account_email}) health: ${currentStatus} -> ${report.status}`);
+    }
+    currentStatus = report.status;
+    await databaseService.updateIntegrationHealth(integration.id, report.status, report.message);
+  };
+}
+
+/**
+ * Why background sync and extraction should leave an integration alone right now, or
+ * null if it can be used. Revoked grants wait for the user to reconnect; quota errors
+ * are retried once the cooldown has passed. Generic errors are retried normally.
+ */
+export function getIntegrationSkipReason(integration: Integration): string | null {
+  if (integration.health_status === 'needs_reauth') {
+    return 'Account access was revoked or expired; reconnect the account';
+  }
+
+  if (integration.health_status === 'quota_exceeded' && integration.last_error_at) {
+    const retryAt = new Date(integration.last_error_at).getTime() + config.monitor.quotaCooldownMinutes * 60 * 1000;
+    if (Date.now() < retryAt) {
+      const providerName = integration.provider === 'microsoft' ? 'Outlook' : integration.provider === 'slack' ? 'Slack' : 'Gmail';
+      return `${providerName} quota exceeded; retrying after ${new Date(retryAt).toISOString()}`;
+    }
+  }
+
+  return null;
+}
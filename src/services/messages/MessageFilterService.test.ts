@@ -0,0 +1,104 @@
+import { Message, SenderRule } from '../database/DatabaseService';
+import { config } from '../../config';
+import { findSenderRule, getSkipReason, normalizeSenderPattern, parseSenderAddress } from './MessageFilterService';
+import { MessageSignals } from './MessageSource';
+
+jest.mock('../database/DatabaseService', () => ({ DatabaseService: jest.fn() }));
+
+const UNSUBSCRIBE = '<mailto:unsubscribe@shop.com>';
+
+function rule(pattern: string, action: SenderRule['action']): SenderRule {
+  return { id: `rule-${pattern}`, user_id: 'user-1', pattern, action, created_at: '2026-10-01T00:00:00Z' };
+}
+
+function message(sender: string, signals: MessageSignals = {}): Pick<Message, 'sender' | 'metadata'> {
+  return { sender, metadata: { signals } };
+}
+
+describe('parseSenderAddress', () => {
+  it.each([
+    ['Bob <Bob@Example.com>', 'bob@example.com'],
+    ['bob@example.com', 'bob@example.com'],
+    ['"Smith, Bob" <bob@example.com>', 'bob@example.com'],
+    ['Newsletter', undefined],
+  ])('%s -> %s', (sender, address) => {
+    expect(parseSenderAddress(sender)).toBe(address);
+  });
+});
+
+describe('normalizeSenderPattern', () => {
+  it.each([
+    ['Boss@Example.com', 'boss@example.com'],
+    ['  example.com ', 'example.com'],
+    ['@example.com', 'example.com'],
+    ['*.example.com', 'example.com'],
+    ['news.example.co.uk', 'news.example.co.uk'],
+    ['example', null],
+    ['bob@', null],
+    ['two words.com', null],
+    ['', null],
+  ])('%j -> %j', (pattern, normalized) => {
+    expect(normalizeSenderPattern(pattern)).toBe(normalized);
+  });
+});
+
+describe('findSenderRule', () => {
+  const rules = [
+    rule('example.com', 'deny'),
+    rule('news.example.com', 'allow'),
+    rule('boss@example.com', 'allow'),
+    rule('spam@partner.org', 'deny'),
+  ];
+
+  it.each([
+    ['boss@example.com', 'boss@example.com'], // The address wins over its domain
+    ['alice@example.com', 'example.com'],
+    ['digest@news.example.com', 'news.example.com'], // The closest domain wins
+    ['digest@eu.news.example.com', 'news.example.com'],
+    ['bob@partner.org', undefined], // Address rules don't cover the rest of the domain
+    ['bob@example.com.evil.net', undefined],
+  ])('%s -> %s', (address, pattern) => {
+    expect(findSenderRule(address, rules)?.pattern).toBe(pattern);
+  });
+});
+
+describe('getSkipReason', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each<[string, Pick<Message, 'sender' | 'metadata'>, string | null]>([
+    ['an ordinary message', message('Bob <bob@example.com>'), null],
+    ['a List-Unsubscribe header', message('news@shop.com', { listUnsubscribe: UNSUBSCRIBE }), 'list_unsubscribe'],
+    ['Precedence: bulk', message('news@shop.com', { precedence: 'bulk' }), 'precedence:bulk'],
+    ['Precedence: list, in any case', message('news@shop.com', { precedence: ' List ' }), 'precedence:list'],
+    ['Precedence: junk', message('news@shop.com', { precedence: 'junk' }), 'precedence:junk'],
+    ['another Precedence', message('bob@example.com', { precedence: 'first-class' }), null],
+    ['a promotions label', message('news@shop.com', { labels: ['INBOX', 'CATEGORY_PROMOTIONS'] }), 'label:CATEGORY_PROMOTIONS'],
+    ['an updates label', message('news@shop.com', { labels: ['CATEGORY_UPDATES'] }), 'label:CATEGORY_UPDATES'],
+    ['a personal label', message('bob@example.com', { labels: ['INBOX', 'CATEGORY_PERSONAL'] }), null],
+    ['several signals, the first one found', message('news@shop.com', { listUnsubscribe: UNSUBSCRIBE, precedence: 'bulk' }), 'list_unsubscribe'],
+    ['no metadata', { sender: 'bob@example.com', metadata: undefined }, null],
+  ])('%s', (_description, input, reason) => {
+    expect(getSkipReason(input, [])).toBe(reason);
+  });
+
+  it.each<[string, SenderRule[], string | null]>([
+    ['an allowed address is read despite bulk signals', [rule('news@shop.com', 'allow')], null],
+    ['an allowed domain is read despite bulk signals', [rule('shop.com', 'allow')], null],
+    ['a denied address is skipped', [rule('news@shop.com', 'deny')], 'sender_denied:news@shop.com'],
+    ['a denied domain is skipped', [rule('shop.com', 'deny')], 'sender_denied:shop.com'],
+    ['an allowed address beats its denied domain', [rule('shop.com', 'deny'), rule('news@shop.com', 'allow')], null],
+    ['a denied address beats its allowed domain', [rule('shop.com', 'allow'), rule('news@shop.com', 'deny')], 'sender_denied:news@shop.com'],
+    ['rules for other senders change nothing', [rule('other.com', 'allow')], 'list_unsubscribe'],
+  ])('%s', (_description, rules, reason) => {
+    expect(getSkipReason(message('Shop <News@Shop.com>', { listUnsubscribe: UNSUBSCRIBE }), rules)).toBe(reason);
+  });
+
+  it('only applies the signals switched on in config', () => {
+    jest.replaceProperty(config, 'filters', { skipListUnsubscribe: false, skipBulkPrecedence: false, skipLabels: [] });
+
+    expect(getSkipReason(message('news@shop.com', { listUnsubscribe: UNSUBSCRIBE, precedence: 'bulk', labels: ['CATEGORY_PROMOTIONS'] }), [])).toBeNull();
+    expect(getSkipReason(message('news@shop.com'), [rule('shop.com', 'deny')])).toBe('sender_denied:shop.com');
+  });
+});
@@ -0,0 +1,120 @@
+import { DatabaseService, Message, SenderRule } from '../database/DatabaseService';
+import { MessageSignals } from './MessageSource';
+import { config } from '../../config';
+
+// Precedence header values used by bulk senders and mailing lists
+const BULK_PRECEDENCE = ['bulk', 'list', 'junk'];
+
+const ADDRESS_PATTERN = /^[^\s@<>]+@[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+/**
+ * The address in a From header such as "Bob <bob@example.com>", lowercased
+ */
+export function parseSenderAddress(sender: string): string | undefined {
+  const match = sender.match(/<([^<>\s]+@[^<>\s]+)>/) || sender.match(/([^\s<>,;"]+@[^\s<>,;"]+)/);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+/**
+ * A sender rule pattern as stored: a lowercase address or domain. Leading "@" and "*." are
+ * dropped, so "@example.com" and "*.example.com" both mean the domain. Null if it is neither.
+ */
+export function normalizeSenderPattern(pattern: string): string | null {
+  const normalized = pattern.trim().toLowerCase().replace(/^(\*\.|@)/, '');
+  return ADDRESS_PATTERN.test(normalized) || DOMAIN_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * The rule for a sender address: one for the address itself, else the one for the closest
+ * enclosing domain (news.example.com before example.com)
+ */
+export function findSenderRule(address: string, rules: SenderRule[]): SenderRule | undefined {
+  const exact = rules.find(rule => rule.pattern === address);
+  if (exact) return exact;
+
+  let domain = address.substring(address.lastIndexOf('@') + 1);
+  while (domain.includes('.')) {
+    const rule = rules.find(candidate => candidate.pattern === domain);
+    if (rule) return rule;
+    domain = domain.substring(domain.indexOf('.') + 1);
+  }
+  return undefined;
+}
+
+/**
+ * Why a message shouldn't go to the model, or null to extract from it. Sender rules come
+ * first, so newsletters from an allowed sender are still read; then the header and label
+ * signals that are switched on in config.filters.
+ */
+export function getSkipReason(message: Pick<Message, 'sender' | 'metadata'>, rules: SenderRule[]): string | null {
+  const address = message.sender ? parseSenderAddress(message.sender) : undefined;
+  const rule = address ? findSenderRule(address, rules) : undefined;
+  if (rule?.action === 'allow') return null;
+  if (rule?.action === 'deny') return `sender_denied:${rule.pattern}`;
+
+  const signals: MessageSignals = message.metadata?.signals || {};
+
+  if (config.filters.skipListUnsubscribe && signals.listUnsubscribe) {
+    return 'list_unsubscribe';
+  }
+
+  const precedence = signals.precedence?.trim().toLowerCase();
+  if (config.filters.skipBulkPrecedence && precedence && BULK_PRECEDENCE.includes(precedence)) {
+    return `precedence:${precedence}`;
+  }
+
+  const label = signals.labels?.find(candidate => config.filters.skipLabels.includes(candidate));
+  if (label) {
+    return `label:${label}`;
+  }
+
+  return null;
+}
+
+/**
+ * Rules that keep messages away from the model before extraction: bulk mail recognized by
+ * its headers or Gmail category, and the user's own sender allow/deny list
+ */
+export class MessageFilterService {
+  private databaseService: DatabaseService;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+  }
+
+  /**
+   * The messages to skip, keyed by provider message ID, with the reason for each
+   */
+  async getSkipReasons(userId: string, messages: Message[]): Promise<Map<string, string>> {
+    const rules = await this.databaseService.findSenderRulesByUserId(userId);
+    const reasons = new Map<string, string>();
+
+    for (const message of messages) {
+      const reason = getSkipReason(message, rules);
+      if (reason) {
+        reasons.set(message.source_id, reason);
+      }
+    }
+
+    return reasons;
+  }
+
+  async getSenderRules(userId: string): Promise<SenderRule[]> {
+    return await this.databaseService.findSenderRulesByUserId(userId);
+  }
+
+  /**
+   * Add or replace the rule for an address or domain. Returns null if the pattern is neither.
+   */
+  async saveSenderRule(userId: string, pattern: string, action: SenderRule['action']): Promise<SenderRule | null> {
+    const normalized = normalizeSenderPattern(pattern);
+    if (!normalized) return null;
+
+    return await this.databaseService.upsertSenderRule(userId, normalized, action);
+  }
+
+  async deleteSenderRule(userId: string, ruleId: string): Promise<boolean> {
+    return await this.databaseService.deleteSenderRule(userId, ruleId);
+  }
+}
@@ -0,0 +1,317 @@
+import { DatabaseService, Integration, Task } from '../database/DatabaseService';
+import { GmailMessage, GmailService } from '../gmail/GmailService';
+import { createIntegrationGmailService } from '../gmail/integrationGmail';
+import { OutlookService } from '../outlook/OutlookService';
+import { createIntegrationOutlookService } from '../outlook/integrationOutlook';
+import { SlackService, SlackConversation, SlackMessage, isMonitoredConversation } from '../slack/SlackService';
+import { createIntegrationSlackService } from '../slack/integrationSlack';
+import { createIntegrationImapService } from '../imap/integrationImap';
+import { config } from '../../config';
+
+// Inbox messages only (excluding archived, trash, spam)
+const INBOX_QUERY = 'label:INBOX -label:archive -label:trash -label:spam';
+
+// A fetched message, normalized across providers; stored as a `messages` row before extraction
+export interface SourceMessage {
+  id: string; // Provider message ID (messages.source_id)
+  threadId?: string; // Conversation the message belongs to, where the provider has one
+  content: string;
+  sender: string;
+  subject: string;
+  recipients: string;
+  receivedAt: string;
+  url?: string; // Link back to the message when it can't be built from the ID
+  internetMessageId?: string; // RFC 822 Message-ID without angle brackets (email only)
+  signals?: MessageSignals;
+}
+
+// What the filter rules look at before extraction; stored in messages.metadata (email only)
+export interface MessageSignals {
+  listUnsubscribe?: string; // List-Unsubscribe header, sent by newsletters and mailing lists
+  precedence?: string; // Precedence header, e.g. bulk
+  labels?: string[]; // Gmail label IDs, e.g. CATEGORY_PROMOTIONS
+}
+
+// Incremental sync position: a single token, or one per conversation (Slack)
+export type SyncCursor = string | Record<string, string>;
+
+/**
+ * Where messages come from, whichever provider a connected account is on: lists what is new
+ * since the last sync and fetches messages normalized to SourceMessage
+ */
+export interface MessageSource {
+  source: Task['source']; // Source of the messages and the tasks extracted from them
+  cursorKey: string; // integration.metadata key holding the incremental sync cursor
+  findNewMessageIds(): Promise<{ messageIds: string[]; cursor: SyncCursor }>;
+  getMessages(messageIds: string[]): Promise<SourceMessage[]>;
+  // Every message of a conversation, oldest first, for sources that can fetch whole threads
+  // (including the user's replies); for the others, the stored messages of the thread are used
+  getThread?(threadId: string): Promise<SourceMessage[]>;
+}
+
+/**
+ * Open the integration's messages with a client that persists refreshed tokens and records
+ * the integration's health. One client is used for the whole run, since Microsoft rotates
+ * refresh tokens on every refresh.
+ */
+export function openMessageSource(integration: Integration, databaseService: DatabaseService): MessageSource {
+  if (integration.provider === 'google') {
+    const gmailService = createIntegrationGmailService(integration, databaseService);
+    const toSourceMessage = (message: GmailMessage): SourceMessage => ({
+      id: message.id,
+      threadId: message.threadId,
+      content: gmailService.extractEmailContent(message),
+      sender: gmailService.getSenderEmail(message),
+      subject: gmailService.getSubject(message),
+      recipients: gmailService.getRecipients(message),
+      receivedAt: gmailService.getDate(message).toISOString(),
+      internetMessageId: normalizeInternetMessageId(gmailService.getInternetMessageId(message)),
+      signals: {
+        listUnsubscribe: gmailService.getHeader(message, 'list-unsubscribe'),
+        precedence: gmailService.getHeader(message, 'precedence'),
+        labels: message.labelIds,
+      },
+    });
+
+    return {
+      source: 'gmail',
+      cursorKey: 'gmailHistoryId',
+      findNewMessageIds: async () => {
+        const { messageIds, historyId } = await findNewGmailMessageIds(integration, gmailService);
+        return { messageIds, cursor: historyId };
+      },
+      getMessages: async (messageIds) => (await gmailService.getMessagesByIds(messageIds)).map(toSourceMessage),
+      getThread: async (threadId) => ((await gmailService.getThread(threadId))?.messages || []).map(toSourceMessage),
+    };
+  }
+
+  if (integration.provider === 'microsoft') {
+    const outlookService = createIntegrationOutlookService(integration, databaseService);
+    return {
+      source: 'outlook',
+      cursorKey: 'outlookDeltaLink',
+      findNewMessageIds: async () => {
+        const { messageIds, deltaLink } = await findNewOutlookMessageIds(integration, outlookService);
+        return { messageIds, cursor: deltaLink };
+      },
+      getMessages: async (messageIds) => (await outlookService.getMessagesByIds(messageIds)).map(message => ({
+        id: message.id,
+        threadId: message.conversationId,
+        content: outlookService.extractEmailContent(message),
+        sender: outlookService.getSenderEmail(message),
+        subject: outlookService.getSubject(message),
+        recipients: outlookService.getRecipients(message),
+        receivedAt: outlookService.getDate(message).toISOString(),
+        internetMessageId: normalizeInternetMessageId(outlookService.getInternetMessageId(message)),
+        signals: {
+          listUnsubscribe: outlookService.getHeader(message, 'list-unsubscribe'),
+          precedence: outlookService.getHeader(message, 'precedence'),
+        },
+      })),
+    };
+  }
+
+  if (integration.provider === 'imap') {
+    const imapService = createIntegrationImapService(integration, databaseService);
+    return {
+      source: 'imap',
+      cursorKey: 'imapCursor',
+      findNewMessageIds: async () => {
+        const { messageIds, cursor } = await imapService.listNewMessageIds(integration.metadata?.imapCursor, config.imap.fullSyncMaxMessages);
+        return { messageIds, cursor };
+      },
+      getMessages: async (messageIds) => (await imapService.getMessagesByIds(messageIds)).map(message => ({
+        id: message.id,
+        content: imapService.extractEmailContent(message),
+        sender: imapService.getSenderEmail(message),
+        subject: imapService.getSubject(message),
+        recipients: imapService.getRecipients(message),
+        receivedAt: imapService.getDate(message).toISOString(),
+        internetMessageId: normalizeInternetMessageId(imapService.getInternetMessageId(message)),
+        signals: {
+          listUnsubscribe: imapService.getHeader(message, 'list-unsubscribe'),
+          precedence: imapService.getHeader(message, 'precedence'),
+        },
+      })),
+    };
+  }
+
+  if (integration.provider === 'slack') {
+    const slackService = createIntegrationSlackService(integration, databaseService);
+    // Listed once per run; both steps need to know what kind of conversation a message is in
+    let conversations: Promise<Map<string, SlackConversation>> | undefined;
+    const getConversations = () => conversations ??= slackService.listConversations()
+      .then(list => new Map(list.map(conversation => [conversation.id, conversation])));
+
+    return {
+      source: 'slack',
+      cursorKey: 'slackCursors',
+      findNewMessageIds: async () => {
+        const { messageIds, cursors } = await findNewSlackMessageIds(integration, slackService, await getConversations());
+        return { messageIds, cursor: cursors };
+      },
+      getMessages: async (messageIds) => getSlackMessages(slackService, await getConversations(), messageIds),
+    };
+  }
+
+  throw new Error(`Parsing is not supported for ${integration.provider} integrations`);
+}
+
+/**
+ * Message-IDs are compared across providers, which don't all keep the angle brackets
+ */
+function normalizeInternetMessageId(messageId: string | undefined): string | undefined {
+  const normalized = messageId?.trim().replace(/^<|>$/g, '');
+  return normalized || undefined;
+}
+
+/**
+ * Find inbox message IDs added since the integration's stored Gmail history cursor.
+ * Without a cursor, or once Gmail has expired it, falls back to a full resync of
+ * the inbox (up to gmail.fullSyncMaxMessages); already-parsed IDs are filtered by the caller.
+ */
+async function findNewGmailMessageIds(
+  integration: Integration,
+  gmailService: GmailService
+): Promise<{ messageIds: string[]; historyId: string }> {
+  const cursor: string | undefined = integration.metadata?.gmailHistoryId;
+
+  if (cursor) {
+    const history = await gmailService.getHistory(cursor);
+    if (history) {
+      console.log(`🔍 [DEBUG] Incremental sync from history ${cursor}: ${history.messageIds.length} added messages`);
+      return history;
+    }
+  }
+
+  // Read the current history ID before listing so nothing arriving mid-scan is missed
+  const profile = await gmailService.getProfile();
+  console.log(`🔍 [DEBUG] Full resync for integration ${integration.id} (cursor ${cursor ? 'expired' : 'missing'})`);
+  const messageIds = await gmailService.listMessageIds(INBOX_QUERY, config.gmail.fullSyncMaxMessages);
+
+  return { messageIds, historyId: profile.historyId };
+}
+
+/**
+ * Find Outlook inbox message IDs added since the stored Graph delta link. Without a link,
+ * or once Graph has expired it, starts a new delta query over the last
+ * microsoft.fullSyncDays days.
+ */
+async function findNewOutlookMessageIds(
+  integration: Integration,
+  outlookService: OutlookService
+): Promise<{ messageIds: string[]; deltaLink: string }> {
+  const deltaLink: string | undefined = integration.metadata?.outlookDeltaLink;
+
+  if (deltaLink) {
+    const delta = await outlookService.getInboxDelta(deltaLink, config.microsoft.fullSyncDays);
+    if (delta) {
+      console.log(`🔍 [DEBUG] Incremental Outlook sync: ${delta.messageIds.length} added messages`);
+      return delta;
+    }
+  }
+
+  console.log(`🔍 [DEBUG] Full Outlook resync for integration ${integration.id} (delta link ${deltaLink ? 'expired' : 'missing'})`);
+  const delta = await outlookService.getInboxDelta(undefined, config.microsoft.fullSyncDays);
+  if (!delta) {
+    throw new Error('Outlook delta query could not be started');
+  }
+
+  return delta;
+}
+
+/**
+ * Find Slack messages to extract tasks from: everything other people wrote in watched DMs
+ * and group DMs, and messages that mention the user in watched channels, thread replies
+ * included. Each conversation keeps its own cursor (the newest ts seen); a newly watched one
+ * starts slack.fullSyncDays back. Message IDs are `<conversation ID>:<ts>`, with
+ * `:<thread ts>` appended for thread replies.
+ */
+async function findNewSlackMessageIds(
+  integration: Integration,
+  slackService: SlackService,
+  conversations: Map<string, SlackConversation>
+): Promise<{ messageIds: string[]; cursors: Record<string, string> }> {
+  const slackUserId: string = integration.metadata?.slackUserId;
+  const previousCursors: Record<string, string> = integration.metadata?.slackCursors || {};
+  const selectedIds: string[] | undefined = integration.metadata?.slackChannels;
+  const defaultOldest = String((Date.now() - config.slack.fullSyncDays * 24 * 60 * 60 * 1000) / 1000);
+  const threadCutoff = (Date.now() - config.slack.threadDays * 24 * 60 * 60 * 1000) / 1000;
+
+  const messageIds: string[] = [];
+  const cursors: Record<string, string> = {};
+
+  for (const conversation of conversations.values()) {
+    if (!isMonitoredConversation(conversation, selectedIds)) continue;
+
+    const oldest = previousCursors[conversation.id] || defaultOldest;
+    // Older threads can still get replies, so the history is read back to slack.threadDays
+    // to find them; only messages after the cursor are new
+    const history = await slackService.getHistory(conversation.id, String(Math.min(parseFloat(oldest), threadCutoff)));
+    const messages = history.filter(message => parseFloat(message.ts) > parseFloat(oldest));
+
+    const replies: SlackMessage[] = [];
+    for (const parent of history) {
+      if (parent.reply_count && parent.latest_reply && parseFloat(parent.latest_reply) > parseFloat(oldest)) {
+        // Replies also sent to the channel are already in the history
+        const threadReplies = await slackService.getReplies(conversation.id, parent.ts, oldest);
+        replies.push(...threadReplies.filter(reply => reply.subtype !== 'thread_broadcast'));
+      }
+    }
+
+    cursors[conversation.id] = [...messages, ...replies]
+      .reduce((newest, message) => parseFloat(message.ts) > parseFloat(newest) ? message.ts : newest, oldest);
+
+    const isDirect = conversation.is_im || conversation.is_mpim;
+    const isWanted = (message: SlackMessage) => slackService.isUserMessage(message) && message.user !== slackUserId
+      && (isDirect || slackService.mentionsUser(message, slackUserId));
+    messageIds.push(
+      ...messages.filter(isWanted).map(message => `${conversation.id}:${message.ts}`),
+      ...replies.filter(isWanted).map(reply => `${conversation.id}:${reply.ts}:${reply.thread_ts}`)
+    );
+  }
+
+  console.log(`🔍 [DEBUG] Slack sync for integration ${integration.id}: ${Object.keys(cursors).length} conversations, ${messageIds.length} new messages`);
+  return { messageIds, cursors };
+}
+
+/**
+ * Fetch Slack messages by `<conversation ID>:<ts>[:<thread ts>]`, with names resolved and a
+ * permalink for each. Messages deleted since they were listed are skipped.
+ */
+async function getSlackMessages(
+  slackService: SlackService,
+  conversations: Map<string, SlackConversation>,
+  messageIds: string[]
+): Promise<SourceMessage[]> {
+  const messages: SourceMessage[] = [];
+
+  for (const messageId of messageIds) {
+    const [conversationId, ts, threadTs] = messageId.split(':');
+
+    const message = await slackService.getMessage(conversationId, ts, threadTs);
+    if (!message || !message.user) {
+      console.log(`Message ${messageId} no longer exists, skipping`);
+      continue;
+    }
+
+    const sender = await slackService.getUser(message.user);
+    const conversation = conversations.get(conversationId);
+    const where = conversation?.is_im
+      ? 'Direct message'
+      : conversation?.is_mpim ? 'Group message' : `#${conversation?.name || conversationId}`;
+
+    messages.push({
+      id: messageId,
+      threadId: `${conversationId}:${message.thread_ts || message.ts}`,
+      content: await slackService.formatText(message.text || ''),
+      sender: sender.email ? `${sender.name} <${sender.email}>` : sender.name,
+      subject: `Slack: ${where}`,
+      recipients: where,
+      receivedAt: slackService.getDate(message).toISOString(),
+      url: await slackService.getPermalink(conversationId, ts),
+    });
+  }
+
+  return messages;
+}
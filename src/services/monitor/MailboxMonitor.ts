@@ -0,0 +1,134 @@
+import cron, { ScheduledTask } from 'node-cron';
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../../config';
+import { DatabaseService, Integration } from '../database/DatabaseService';
+import { TaskService } from '../tasks/TaskService';
+import { getIntegrationSkipReason } from '../integrations/integrationHealth';
+
+export class MailboxMonitor {
+  private databaseService: DatabaseService;
+  private taskService: TaskService;
+  private instanceId: string;
+  private task?: ScheduledTask;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+    this.taskService = new TaskService();
+    this.instanceId = `${os.hostname()}:${process.pid}:${uuidv4()}`;
+  }
+
+  /**
+   * Start checking mailboxes in the background. The scheduler ticks every minute;
+   * each integration is only picked up once its own next_run_at has passed.
+   */
+  start(): void {
+    if (!config.monitor.enabled) {
+      console.log('⏸️  Mailbox monitor disabled (MONITOR_ENABLED=false)');
+      return;
+    }
+
+    this.task = cron.schedule('* * * * *', () => this.runOnce(), {
+      name: 'mailbox-monitor',
+      noOverlap: true,
+    });
+
+    console.log(`👀 Mailbox monitor started (every ${config.monitor.intervalMinutes} min per account, instance ${this.instanceId})`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.task) {
+      await this.task.stop();
+      this.task = undefined;
+      console.log('🛑 Mailbox monitor stopped');
+    }
+  }
+
+  /**
+   * Check every active Gmail, Outlook, IMAP and Slack integration that is due and extract tasks from new messages
+   */
+  async runOnce(): Promise<void> {
+    try {
+      const integrations = [
+        ...await this.databaseService.findAllActiveIntegrationsByProvider('google'),
+        ...await this.databaseService.findAllActiveIntegrationsByProvider('microsoft'),
+        ...await this.databaseService.findAllActiveIntegrationsByProvider('imap'),
+        ...await this.databaseService.findAllActiveIntegrationsByProvider('slack'),
+      ];
+      if (integrations.length === 0) {
+        return;
+      }
+
+      // Don't burn backoff on every account when the AI service itself is down
+      if (!(await this.taskService.isAIAvailable())) {
+        console.warn(`⚠️ Mailbox monitor: AI provider ${this.taskService.getAIProviderName()} is not available, skipping this run`);
+        return;
+      }
+
+      // One account failing (even while recording its outcome) must not stop the others;
+      // a lease left behind expires after leaseMinutes
+      for (const integration of integrations) {
+        try {
+          await this.processIntegration(integration);
+        } catch (error) {
+          console.error(`❌ Mailbox monitor: ${integration.account_email} (${integration.id}) could not be processed:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Mailbox monitor run failed:', error);
+    }
+  }
+
+  private async processIntegration(integration: Integration): Promise<void> {
+    // Accounts that need reconnecting (or are cooling down from quota errors) aren't
+    // failures of this run, so they don't take a lease or add to the backoff
+    if (getIntegrationSkipReason(integration)) {
+      return;
+    }
+
+    const leaseUntil = new Date(Date.now() + config.monitor.leaseMinutes * 60 * 1000);
+    const state = await this.databaseService.acquireSyncLease(integration.id, this.instanceId, leaseUntil);
+
+    if (!state) {
+      // Not due yet, or another instance is already working on it
+      return;
+    }
+
+    console.log(`🔍 Mailbox monitor: checking ${integration.account_email} (${integration.id})`);
+
+    try {
+      const result = await this.taskService.parseGmailForTasks(integration.user_id, integration.id);
+
+      await this.databaseService.completeSyncRun(integration.id, this.instanceId, {
+        status: 'ok',
+        result,
+        consecutiveFailures: 0,
+        nextRunAt: this.getNextRunAt(0),
+      });
+
+      if (result.processed > 0 || result.skipped > 0) {
+        console.log(`✅ Mailbox monitor: ${integration.account_email} - ${result.processed} new messages, ${result.skipped} skipped by filters, ${result.created} tasks created, ${result.updated} updated`);
+      }
+    } catch (error) {
+      const consecutiveFailures = (state.consecutive_failures || 0) + 1;
+      const nextRunAt = this.getNextRunAt(consecutiveFailures);
+      console.error(`❌ Mailbox monitor: ${integration.account_email} failed (attempt ${consecutiveFailures}), retrying at ${nextRunAt.toISOString()}:`, error);
+
+      await this.databaseService.completeSyncRun(integration.id, this.instanceId, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        consecutiveFailures,
+        nextRunAt,
+      });
+    }
+  }
+
+  /**
+   * Exponential backoff per integration: interval * 2^failures, capped at maxBackoffMinutes
+   */
+  private getNextRunAt(consecutiveFailures: number): Date {
+    const { intervalMinutes, maxBackoffMinutes } = config.monitor;
+    const delayMinutes = Math.min(intervalMinutes * Math.pow(2, Math.min(consecutiveFailures, 10)), Math.max(intervalMinutes, maxBackoffMinutes));
+    return new Date(Date.now() + delayMinutes * 60 * 1000);
+  }
+}
@@ -0,0 +1,380 @@
+import axios from 'axios';
+import { config } from '../../config';
+import { HealthReport, TokenRefreshResult } from '../gmail/GmailService';
+import { MICROSOFT_SCOPES } from '../auth/OAuthStateService';
+import { htmlToText } from '../../utils/emailContent';
+
+export interface OutlookRecipient {
+  emailAddress: {
+    name?: string;
+    address: string;
+  };
+}
+
+export interface OutlookMessage {
+  id: string;
+  conversationId?: string;
+  internetMessageId?: string;
+  subject?: string;
+  bodyPreview?: string;
+  body?: {
+    contentType: 'text' | 'html';
+    content: string;
+  };
+  from?: OutlookRecipient;
+  toRecipients?: OutlookRecipient[];
+  ccRecipients?: OutlookRecipient[];
+  receivedDateTime: string;
+  webLink?: string;
+  internetMessageHeaders?: { name: string; value: string }[];
+}
+
+export interface OutlookProfile {
+  id: string;
+  displayName?: string;
+  mail?: string;
+  userPrincipalName: string;
+}
+
+export interface OutlookDeltaResult {
+  messageIds: string[];
+  deltaLink: string;
+}
+
+/**
+ * Thrown when the stored Microsoft grant can no longer be used (revoked consent, expired
+ * refresh token, or no refresh token at all). Only the user can fix this by reconnecting.
+ */
+export class OutlookAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutlookAuthError';
+  }
+}
+
+const MESSAGE_FIELDS = 'id,conversationId,internetMessageId,subject,bodyPreview,body,from,toRecipients,ccRecipients,receivedDateTime,webLink,internetMessageHeaders';
+const AUTH_ERROR_CODES = ['InvalidAuthenticationToken', 'ErrorAccessDenied', 'Authorization_RequestDenied', 'AccessDenied'];
+const QUOTA_ERROR_CODES = ['ApplicationThrottled', 'TooManyRequests', 'MailboxConcurrency', 'ErrorExceededMessageLimit', 'QuotaExceeded'];
+
+/**
+ * Map a failed Graph call to an integration health state, like classifyGmailError.
+ * A 404 (deleted message) or 410 (expired delta link) says nothing about the account.
+ */
+export function classifyGraphError(error: unknown): HealthReport | null {
+  if (error instanceof OutlookAuthError) {
+    return { status: 'needs_reauth', message: error.message };
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const code: string | undefined = error.response?.data?.error?.code;
+    const message = error.response?.data?.error?.message || error.message;
+
+    if (status === 404 || status === 410) return null;
+    if (status === 401 || (status === 403 && code && AUTH_ERROR_CODES.includes(code))) {
+      return { status: 'needs_reauth', message };
+    }
+    if (status === 429 || (code && QUOTA_ERROR_CODES.includes(code))) {
+      return { status: 'quota_exceeded', message };
+    }
+    return { status: 'error', message };
+  }
+
+  return { status: 'error', message: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+/**
+ * Outlook / Microsoft 365 mailbox access through Microsoft Graph. Mirrors GmailService:
+ * expired access tokens are refreshed (Microsoft rotates refresh tokens, so the new one is
+ * passed to onTokenRefresh) and every call reports the account's health.
+ */
+export class OutlookService {
+  private accessToken: string;
+  private refreshToken?: string;
+  private onTokenRefresh?: (result: TokenRefreshResult) => Promise<void>;
+  private onHealthChange?: (report: HealthReport) => Promise<void>;
+
+  constructor(
+    accessToken: string,
+    refreshToken?: string,
+    onTokenRefresh?: (result: TokenRefreshResult) => Promise<void>,
+    onHealthChange?: (report: HealthReport) => Promise<void>
+  ) {
+    this.accessToken = accessToken;
+    this.refreshToken = refreshToken;
+    this.onTokenRefresh = onTokenRefresh;
+    this.onHealthChange = onHealthChange;
+  }
+
+  private getHeaders() {
+    return {
+      'Authorization': `Bearer ${this.accessToken}`,
+      'Content-Type': 'application/json',
+      // Ask Graph for plain-text bodies; HTML is still stripped if a server ignores this
+      'Prefer': 'outlook.body-content-type="text", odata.maxpagesize=100',
+    };
+  }
+
+  private async refreshAccessToken(): Promise<string> {
+    if (!this.refreshToken) {
+      throw new OutlookAuthError('No refresh token available');
+    }
+
+    try {
+      console.log('🔄 Refreshing Microsoft access token...');
+
+      const response = await axios.post(
+        `${config.microsoft.authorityUrl}/oauth2/v2.0/token`,
+        new URLSearchParams({
+          client_id: config.microsoft.clientId,
+          client_secret: config.microsoft.clientSecret,
+          refresh_token: this.refreshToken,
+          grant_type: 'refresh_token',
+          scope: MICROSOFT_SCOPES,
+        }).toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+
+      const { access_token, refresh_token, expires_in } = response.data;
+
+      this.accessToken = access_token;
+      if (refresh_token) {
+        this.refreshToken = refresh_token;
+      }
+
+      if (this.onTokenRefresh) {
+        await this.onTokenRefresh({
+          accessToken: access_token,
+          refreshToken: refresh_token,
+          expiresIn: expires_in,
+        });
+      }
+
+      console.log('✅ Microsoft access token refreshed successfully');
+      return access_token;
+    } catch (error) {
+      console.error('❌ Failed to refresh Microsoft access token:', error);
+      // invalid_grant / interaction_required: consent was revoked or the refresh token expired
+      const oauthError = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      if (oauthError === 'invalid_grant' || oauthError === 'interaction_required') {
+        throw new OutlookAuthError(`Microsoft access was revoked or has expired (${oauthError})`);
+      }
+      throw new Error('Failed to refresh access token');
+    }
+  }
+
+  /**
+   * Run a Graph call and report the outcome to onHealthChange
+   */
+  private async makeAuthenticatedRequest<T>(requestFn: () => Promise<T>): Promise<T> {
+    try {
+      const result = await this.sendWithRetry(requestFn);
+      await this.reportHealth({ status: 'ok' });
+      return result;
+    } catch (error) {
+      const report = classifyGraphError(error);
+      if (report) {
+        await this.reportHealth(report);
+      }
+      throw error;
+    }
+  }
+
+  private async reportHealth(report: HealthReport): Promise<void> {
+    if (!this.onHealthChange) return;
+    try {
+      await this.onHealthChange(report);
+    } catch (error) {
+      console.error('❌ Failed to record integration health:', error);
+    }
+  }
+
+  private async sendWithRetry<T>(requestFn: () => Promise<T>): Promise<T> {
+    try {
+      return await requestFn();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 401) {
+          console.log('🔄 401 Unauthorized from Graph, attempting token refresh...');
+          await this.refreshAccessToken();
+          return await requestFn();
+        } else if (error.response?.status === 429) {
+          const retryAfter = parseInt(error.response.headers['retry-after'] || '5', 10);
+          const backoffTime = Math.min(retryAfter * 1000, 30000); // Max 30 seconds
+          console.log(`⏳ 429 Throttled by Graph, waiting ${backoffTime/1000} seconds before retry...`);
+          await new Promise(resolve => setTimeout(resolve, backoffTime));
+          return await requestFn();
+        }
+      }
+      throw error;
+    }
+  }
+
+  async getProfile(): Promise<OutlookProfile> {
+    return this.makeAuthenticatedRequest(async () => {
+      const response = await axios.get(
+        `${config.microsoft.graphBaseUrl}/me?$select=id,displayName,mail,userPrincipalName`,
+        { headers: this.getHeaders() }
+      );
+      return response.data;
+    });
+  }
+
+  async getInboxMessageCount(): Promise<number> {
+    return this.makeAuthenticatedRequest(async () => {
+      const response = await axios.get(
+        `${config.microsoft.graphBaseUrl}/me/mailFolders/inbox?$select=totalItemCount`,
+        { headers: this.getHeaders() }
+      );
+      return response.data.totalItemCount || 0;
+    });
+  }
+
+  /**
+   * Most recent inbox messages, newest first
+   */
+  async getMessages(maxResults: number = 10): Promise<OutlookMessage[]> {
+    return this.makeAuthenticatedRequest(async () => {
+      const params = new URLSearchParams({
+        $top: String(maxResults),
+        $orderby: 'receivedDateTime desc',
+        $select: MESSAGE_FIELDS,
+      });
+      const response = await axios.get(
+        `${config.microsoft.graphBaseUrl}/me/mailFolders/inbox/messages?${params.toString()}`,
+        { headers: this.getHeaders() }
+      );
+      return response.data.value || [];
+    });
+  }
+
+  async getMessage(messageId: string): Promise<OutlookMessage> {
+    return this.makeAuthenticatedRequest(async () => {
+      const response = await axios.get(
+        `${config.microsoft.graphBaseUrl}/me/messages/${encodeURIComponent(messageId)}?$select=${MESSAGE_FIELDS}`,
+        { headers: this.getHeaders() }
+      );
+      return response.data;
+    });
+  }
+
+  /**
+   * List IDs of inbox messages added since the given delta link. Without a link, starts a
+   * new delta query over the last `sinceDays` days. Returns null when Graph has expired the
+   * link (410 Gone), in which case the caller has to start over without one.
+   */
+  async getInboxDelta(deltaLink: string | undefined, sinceDays: number): Promise<OutlookDeltaResult | null> {
+    const messageIds = new Set<string>();
+    let url = deltaLink;
+
+    if (!url) {
+      const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000).toISOString();
+      const params = new URLSearchParams({
+        $select: 'id,receivedDateTime',
+        $filter: `receivedDateTime ge ${since}`,
+      });
+      url = `${config.microsoft.graphBaseUrl}/me/mailFolders/inbox/messages/delta?${params.toString()}`;
+    }
+
+    try {
+      while (url) {
+        const pageUrl: string = url;
+        const data = await this.makeAuthenticatedRequest(async () => {
+          const response = await axios.get(pageUrl, { headers: this.getHeaders() });
+          return response.data;
+        });
+
+        for (const item of data.value || []) {
+          // Deletions and moves out of the inbox show up as @removed entries
+          if (!item['@removed']) {
+            messageIds.add(item.id);
+          }
+        }
+
+        if (data['@odata.deltaLink']) {
+          return { messageIds: Array.from(messageIds), deltaLink: data['@odata.deltaLink'] };
+        }
+        url = data['@odata.nextLink'];
+      }
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 410) {
+        console.log('🔄 Outlook delta link has expired, full resync required');
+        return null;
+      }
+      throw error;
+    }
+
+    throw new Error('Graph delta query ended without a delta link');
+  }
+
+  /**
+   * Fetch full messages in small chunks. Messages deleted since they were listed are skipped.
+   */
+  async getMessagesByIds(messageIds: string[], chunkSize: number = 10): Promise<OutlookMessage[]> {
+    const messages: OutlookMessage[] = [];
+
+    for (let i = 0; i < messageIds.length; i += chunkSize) {
+      const chunk = messageIds.slice(i, i + chunkSize);
+      const chunkMessages = await Promise.all(chunk.map(async (messageId) => {
+        try {
+          return await this.getMessage(messageId);
+        } catch (error) {
+          if (axios.isAxiosError(error) && error.response?.status === 404) {
+            console.log(`Message ${messageId} no longer exists, skipping`);
+            return null;
+          }
+          throw error;
+        }
+      }));
+
+      messages.push(...chunkMessages.filter((message): message is OutlookMessage => message !== null));
+    }
+
+    return messages;
+  }
+
+  // Helper method to extract email content
+  extractEmailContent(message: OutlookMessage): string {
+    let content = message.body?.content || '';
+
+    if (content && message.body?.contentType === 'html') {
+      content = htmlToText(content);
+    }
+
+    return content || message.bodyPreview || '';
+  }
+
+  // Helper method to get sender, formatted like a From header
+  getSenderEmail(message: OutlookMessage): string {
+    return message.from ? this.formatAddress(message.from) : '';
+  }
+
+  getSubject(message: OutlookMessage): string {
+    return message.subject || '';
+  }
+
+  // Helper method to get recipients (to + cc)
+  getRecipients(message: OutlookMessage): string {
+    return [...(message.toRecipients || []), ...(message.ccRecipients || [])]
+      .map(recipient => this.formatAddress(recipient))
+      .join(', ');
+  }
+
+  getInternetMessageId(message: OutlookMessage): string | undefined {
+    return message.internetMessageId || undefined;
+  }
+
+  // A header of the message by name (case-insensitive)
+  getHeader(message: OutlookMessage, name: string): string | undefined {
+    return message.internetMessageHeaders?.find(header => header.name.toLowerCase() === name.toLowerCase())?.value || undefined;
+  }
+
+  getDate(message: OutlookMessage): Date {
+    return new Date(message.receivedDateTime);
+  }
+
+  private formatAddress(recipient: OutlookRecipient): string {
+    const { name, address } = recipient.emailAddress;
+    return name && name !== address ? `${name} <${address}>` : address;
+  }
+}
@@ -0,0 +1,15 @@
+import { DatabaseService, Integration } from '../database/DatabaseService';
+import { persistRefreshedTokens, trackIntegrationHealth } from '../integrations/integrationHealth';
+import { OutlookService } from './OutlookService';
+
+/**
+ * Create an Outlook client for an integration; see createIntegrationGmailService
+ */
+export function createIntegrationOutlookService(integration: Integration, databaseService: DatabaseService): OutlookService {
+  return new OutlookService(
+    integration.access_token,
+    integration.refresh_token,
+    persistRefreshedTokens(integration, databaseService),
+    trackIntegrationHealth(integration, databaseService)
+  );
+}
@@ -0,0 +1,399 @@
+import axios from 'axios';
+import { config } from '../../config';
+import { HealthReport, TokenRefreshResult } from '../gmail/GmailService';
+
+export interface SlackMessage {
+  type: string;
+  subtype?: string;
+  ts: string;
+  thread_ts?: string;
+  reply_count?: number; // Set on thread parents
+  latest_reply?: string;
+  user?: string;
+  bot_id?: string;
+  text?: string;
+}
+
+export interface SlackConversation {
+  id: string;
+  name?: string; // Channel name; DMs only have `user`
+  user?: string; // The other member of a DM
+  is_channel?: boolean;
+  is_group?: boolean;
+  is_im?: boolean;
+  is_mpim?: boolean;
+  is_private?: boolean;
+}
+
+export interface SlackIdentity {
+  userId: string;
+  teamId: string;
+  teamName: string;
+  teamUrl: string;
+}
+
+export interface SlackUser {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+/**
+ * A Slack Web API call that came back with `ok: false`. Slack reports most failures
+ * (including revoked tokens) with HTTP 200 and an error code in the body.
+ */
+export class SlackApiError extends Error {
+  code: string;
+
+  constructor(code: string) {
+    super(`Slack API error: ${code}`);
+    this.name = 'SlackApiError';
+    this.code = code;
+  }
+}
+
+const AUTH_ERROR_CODES = ['invalid_auth', 'not_authed', 'token_revoked', 'token_expired', 'account_inactive', 'missing_scope', 'invalid_refresh_token'];
+
+// Plain messages and the subtypes that still carry something a person wrote
+const CONTENT_SUBTYPES = [undefined, 'thread_broadcast', 'file_share', 'me_message'];
+
+/**
+ * Map a failed Slack call to an integration health state, like classifyGmailError.
+ * Messages and channels that no longer exist say nothing about the account.
+ */
+export function classifySlackError(error: unknown): HealthReport | null {
+  if (error instanceof SlackApiError) {
+    if (error.code === 'channel_not_found' || error.code === 'message_not_found') return null;
+    if (AUTH_ERROR_CODES.includes(error.code)) {
+      return { status: 'needs_reauth', message: error.message };
+    }
+    if (error.code === 'ratelimited') {
+      return { status: 'quota_exceeded', message: error.message };
+    }
+    return { status: 'error', message: error.message };
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response?.status === 429) {
+      return { status: 'quota_exceeded', message: 'Slack rate limit exceeded' };
+    }
+    return { status: 'error', message: error.message };
+  }
+
+  return { status: 'error', message: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+/**
+ * Whether a conversation is watched for tasks. `selectedIds` is the user's choice from
+ * integration.metadata.slackChannels; until they make one, all DMs and group DMs are watched.
+ */
+export function isMonitoredConversation(conversation: SlackConversation, selectedIds?: string[]): boolean {
+  if (selectedIds) {
+    return selectedIds.includes(conversation.id);
+  }
+  return !!(conversation.is_im || conversation.is_mpim);
+}
+
+/**
+ * Revoke a Slack token (auth.revoke). A token Slack already considers invalid counts as revoked.
+ */
+export async function revokeSlackToken(token: string): Promise<void> {
+  const response = await axios.post(`${config.slack.apiBaseUrl}/auth.revoke`, '', {
+    headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+    timeout: 10000,
+  });
+
+  if (!response.data.ok) {
+    if (AUTH_ERROR_CODES.includes(response.data.error)) {
+      console.log(`🔍 [DEBUG] Slack token already invalid (${response.data.error}), nothing to revoke`);
+      return;
+    }
+    throw new SlackApiError(response.data.error);
+  }
+}
+
+/**
+ * Slack workspace access with a user token. Mirrors GmailService: tokens from workspaces
+ * with token rotation enabled are refreshed when they expire, and every call reports the
+ * account's health.
+ */
+export class SlackService {
+  private accessToken: string;
+  private refreshToken?: string;
+  private onTokenRefresh?: (result: TokenRefreshResult) => Promise<void>;
+  private onHealthChange?: (report: HealthReport) => Promise<void>;
+  private userCache = new Map<string, SlackUser>();
+
+  constructor(
+    accessToken: string,
+    refreshToken?: string,
+    onTokenRefresh?: (result: TokenRefreshResult) => Promise<void>,
+    onHealthChange?: (report: HealthReport) => Promise<void>
+  ) {
+    this.accessToken = accessToken;
+    this.refreshToken = refreshToken;
+    this.onTokenRefresh = onTokenRefresh;
+    this.onHealthChange = onHealthChange;
+  }
+
+  private async refreshAccessToken(): Promise<string> {
+    if (!this.refreshToken) {
+      throw new SlackApiError('token_expired');
+    }
+
+    console.log('🔄 Refreshing Slack access token...');
+
+    const response = await axios.post(
+      `${config.slack.apiBaseUrl}/oauth.v2.access`,
+      new URLSearchParams({
+        client_id: config.slack.clientId,
+        client_secret: config.slack.clientSecret,
+        grant_type: 'refresh_token',
+        refresh_token: this.refreshToken,
+      }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+    );
+
+    if (!response.data.ok) {
+      console.error('❌ Failed to refresh Slack access token:', response.data.error);
+      throw new SlackApiError(response.data.error);
+    }
+
+    const { access_token, refresh_token, expires_in } = response.data;
+    this.accessToken = access_token;
+    this.refreshToken = refresh_token || this.refreshToken;
+
+    if (this.onTokenRefresh) {
+      await this.onTokenRefresh({
+        accessToken: access_token,
+        refreshToken: refresh_token,
+        expiresIn: expires_in,
+      });
+    }
+
+    console.log('✅ Slack access token refreshed successfully');
+    return access_token;
+  }
+
+  /**
+   * Call a Web API method and report the outcome to onHealthChange
+   */
+  private async call<T = any>(method: string, params: Record<string, string | number | boolean | undefined> = {}): Promise<T> {
+    try {
+      const result = await this.sendWithRetry<T>(method, params);
+      await this.reportHealth({ status: 'ok' });
+      return result;
+    } catch (error) {
+      const report = classifySlackError(error);
+      if (report) {
+        await this.reportHealth(report);
+      }
+      throw error;
+    }
+  }
+
+  private async reportHealth(report: HealthReport): Promise<void> {
+    if (!this.onHealthChange) return;
+    try {
+      await this.onHealthChange(report);
+    } catch (error) {
+      console.error('❌ Failed to record integration health:', error);
+    }
+  }
+
+  private async sendWithRetry<T>(method: string, params: Record<string, string | number | boolean | undefined>): Promise<T> {
+    try {
+      return await this.send<T>(method, params);
+    } catch (error) {
+      if (error instanceof SlackApiError && error.code === 'token_expired' && this.refreshToken) {
+        console.log('🔄 Slack token expired, attempting token refresh...');
+        await this.refreshAccessToken();
+        return await this.send<T>(method, params);
+      }
+      if (axios.isAxiosError(error) && error.response?.status === 429) {
+        const retryAfter = parseInt(error.response.headers['retry-after'] || '5', 10);
+        const backoffTime = Math.min(retryAfter * 1000, 30000); // Max 30 seconds
+        console.log(`⏳ 429 Rate limited by Slack, waiting ${backoffTime/1000} seconds before retry...`);
+        await new Promise(resolve => setTimeout(resolve, backoffTime));
+        return await this.send<T>(method, params);
+      }
+      throw error;
+    }
+  }
+
+  private async send<T>(method: string, params: Record<string, string | number | boolean | undefined>): Promise<T> {
+    const body = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) body.append(key, String(value));
+    }
+
+    const response = await axios.post(`${config.slack.apiBaseUrl}/${method}`, body.toString(), {
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+    });
+
+    if (!response.data.ok) {
+      throw new SlackApiError(response.data.error || 'unknown_error');
+    }
+    return response.data;
+  }
+
+  /**
+   * The token's user and workspace (auth.test)
+   */
+  async getIdentity(): Promise<SlackIdentity> {
+    const data = await this.call('auth.test');
+    return {
+      userId: data.user_id,
+      teamId: data.team_id,
+      teamName: data.team,
+      teamUrl: data.url,
+    };
+  }
+
+  async getUser(userId: string): Promise<SlackUser> {
+    const cached = this.userCache.get(userId);
+    if (cached) return cached;
+
+    const data = await this.call('users.info', { user: userId });
+    const profile = data.user?.profile || {};
+    const user: SlackUser = {
+      id: userId,
+      name: profile.display_name || profile.real_name || data.user?.name || userId,
+      email: profile.email,
+    };
+    this.userCache.set(userId, user);
+    return user;
+  }
+
+  /**
+   * Channels, private channels, DMs and group DMs the user is a member of
+   */
+  async listConversations(): Promise<SlackConversation[]> {
+    const conversations: SlackConversation[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const data = await this.call('users.conversations', {
+        types: 'public_channel,private_channel,im,mpim',
+        exclude_archived: true,
+        limit: 200,
+        cursor,
+      });
+      conversations.push(...(data.channels || []));
+      cursor = data.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+
+    return conversations;
+  }
+
+  /**
+   * Messages posted to a conversation after `oldest` (a Slack ts), oldest first
+   */
+  async getHistory(channelId: string, oldest: string): Promise<SlackMessage[]> {
+    const messages: SlackMessage[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const data = await this.call('conversations.history', {
+        channel: channelId,
+        oldest,
+        limit: 200,
+        cursor,
+      });
+      messages.push(...(data.messages || []));
+      cursor = data.has_more ? data.response_metadata?.next_cursor || undefined : undefined;
+    } while (cursor);
+
+    return messages.sort((a, b) => parseFloat(a.ts) - parseFloat(b.ts));
+  }
+
+  /**
+   * Replies posted to a thread after `oldest`, oldest first. The history only has thread
+   * parents (and replies also sent to the channel), so replies are read per thread.
+   */
+  async getReplies(channelId: string, threadTs: string, oldest: string): Promise<SlackMessage[]> {
+    const messages: SlackMessage[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const data = await this.call('conversations.replies', {
+        channel: channelId,
+        ts: threadTs,
+        oldest,
+        limit: 200,
+        cursor,
+      });
+      messages.push(...(data.messages || []));
+      cursor = data.has_more ? data.response_metadata?.next_cursor || undefined : undefined;
+    } while (cursor);
+
+    // The parent always comes first, whatever `oldest` says
+    return messages
+      .filter(message => message.ts !== threadTs && parseFloat(message.ts) > parseFloat(oldest))
+      .sort((a, b) => parseFloat(a.ts) - parseFloat(b.ts));
+  }
+
+  /**
+   * A single message by conversation and ts, or null if it has been deleted. Thread
+   * replies need their thread's ts, as conversations.history doesn't list them.
+   */
+  async getMessage(channelId: string, ts: string, threadTs?: string): Promise<SlackMessage | null> {
+    const data = threadTs
+      ? await this.call('conversations.replies', { channel: channelId, ts: threadTs, oldest: ts, latest: ts, inclusive: true })
+      : await this.call('conversations.history', { channel: channelId, latest: ts, inclusive: true, limit: 1 });
+    const message: SlackMessage | undefined = (data.messages || []).find((candidate: SlackMessage) => candidate.ts === ts);
+    return message || null;
+  }
+
+  async getPermalink(channelId: string, ts: string): Promise<string> {
+    const data = await this.call('chat.getPermalink', { channel: channelId, message_ts: ts });
+    return data.permalink;
+  }
+
+  /**
+   * Whether a message was written by a person (not a bot, join notice, edit, ...)
+   */
+  isUserMessage(message: SlackMessage): boolean {
+    return message.type === 'message' && !!message.user && !message.bot_id && CONTENT_SUBTYPES.includes(message.subtype);
+  }
+
+  mentionsUser(message: SlackMessage, userId: string): boolean {
+    return (message.text || '').includes(`<@${userId}>`);
+  }
+
+  /**
+   * Turn Slack's mrkdwn into readable text: resolve user mentions to names, and unwrap
+   * channel references and links
+   */
+  async formatText(text: string): Promise<string> {
+    let formatted = text;
+
+    const mentionedUserIds = Array.from(new Set(Array.from(text.matchAll(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g), match => match[1])));
+    for (const userId of mentionedUserIds) {
+      let name = userId;
+      try {
+        name = (await this.getUser(userId)).name;
+      } catch (error) {
+        console.warn(`⚠️ Could not resolve Slack user ${userId}:`, error);
+      }
+      formatted = formatted.replace(new RegExp(`<@${userId}(?:\\|[^>]*)?>`, 'g'), `@${name}`);
+    }
+
+    return formatted
+      .replace(/<#[A-Z0-9]+\|([^>]*)>/g, '#$1')
+      .replace(/<!(here|channel|everyone)>/g, '@$1')
+      .replace(/<([^>|]+)\|([^>]+)>/g, '$2')
+      .replace(/<([^>]+)>/g, '$1')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+
+  // Slack timestamps are seconds since the epoch with a per-message suffix
+  getDate(message: SlackMessage): Date {
+    return new Date(parseFloat(message.ts) * 1000);
+  }
+}
@@ -0,0 +1,15 @@
+import { DatabaseService, Integration } from '../database/DatabaseService';
+import { persistRefreshedTokens, trackIntegrationHealth } from '../integrations/integrationHealth';
+import { SlackService } from './SlackService';
+
+/**
+ * Create a Slack client for an integration; see createIntegrationGmailService
+ */
+export function createIntegrationSlackService(integration: Integration, databaseService: DatabaseService): SlackService {
+  return new SlackService(
+    integration.access_token,
+    integration.refresh_token,
+    persistRefreshedTokens(integration, databaseService),
+    trackIntegrationHealth(integration, databaseService)
+  );
+}
@@ -0,0 +1,124 @@
+import { DatabaseService, Message, Task } from '../database/DatabaseService';
+import { DuplicateService, normalizeTitle, titleSimilarity } from './DuplicateService';
+
+jest.mock('../database/DatabaseService', () => ({ DatabaseService: jest.fn() }));
+jest.mock('../../ai/embeddings', () => ({ isEmbeddingEnabled: () => false }));
+
+function makeTask(id: string, title: string): Task {
+  return { id, title, user_id: 'user-1', integration_id: 'integration-1' } as Task;
+}
+
+describe('normalizeTitle', () => {
+  it('lowercases, drops punctuation and collapses whitespace', () => {
+    expect(normalizeTitle('  Send the Q3 report!! ')).toBe('send the q3 report');
+    expect(normalizeTitle('Review: "Budget" – draft #2')).toBe('review budget draft 2');
+  });
+
+  it('keeps letters outside ASCII', () => {
+    expect(normalizeTitle('Reçu für Café')).toBe('reçu für café');
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('is 1 for titles that only differ in case, punctuation or spacing', () => {
+    expect(titleSimilarity('Send the Q3 report', 'send the q3 report.')).toBe(1);
+    expect(titleSimilarity('Book  flights', 'Book flights!')).toBe(1);
+  });
+
+  it('ignores word order', () => {
+    expect(titleSimilarity('Review budget draft', 'Draft budget review')).toBe(1);
+  });
+
+  it('stays high for small wording changes and low for different tasks', () => {
+    expect(titleSimilarity('Send the Q3 report to Ann', 'Send Q3 report to Ann')).toBeGreaterThanOrEqual(0.8);
+    expect(titleSimilarity('Send the Q3 report', 'Book flights to Berlin')).toBeLessThan(0.3);
+  });
+
+  it('is 0 when a title has nothing left after normalization', () => {
+    expect(titleSimilarity('!!!', 'Send the report')).toBe(0);
+    expect(titleSimilarity('', '')).toBe(0);
+  });
+});
+
+describe('DuplicateService.recordPossibleDuplicates', () => {
+  let database: {
+    findTasksBySourceMessage: jest.Mock;
+    findDuplicateCandidates: jest.Mock;
+    createTaskDuplicate: jest.Mock;
+  };
+
+  beforeEach(() => {
+    database = {
+      findTasksBySourceMessage: jest.fn(async () => []),
+      findDuplicateCandidates: jest.fn(async () => []),
+      createTaskDuplicate: jest.fn(async () => undefined),
+    };
+    (DatabaseService as unknown as jest.Mock).mockImplementation(() => database);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const flagged = () => database.createTaskDuplicate.mock.calls.map(([pair]) => [pair.duplicate_of, pair.reason]);
+
+  it('flags recent tasks whose titles reach the similarity threshold', async () => {
+    database.findDuplicateCandidates.mockResolvedValue([
+      makeTask('same', 'Send the Q3 report to Ann'),
+      makeTask('close', 'Send Q3 report to Ann'),
+      makeTask('different', 'Send the Q4 invoice to Bob'),
+    ]);
+
+    const count = await new DuplicateService().recordPossibleDuplicates(makeTask('new', 'Send the Q3 report to Ann!'));
+
+    expect(count).toBe(2);
+    expect(flagged()).toEqual([['same', 'title'], ['close', 'title']]);
+  });
+
+  it('uses the lower threshold for tasks from the same email', async () => {
+    database.findTasksBySourceMessage.mockResolvedValue([
+      makeTask('new', 'Send the report'),
+      makeTask('reworded', 'Send over the final report'),
+      makeTask('other', 'Book a meeting room'),
+    ]);
+
+    const message = { source_id: 'gmail-1', internet_message_id: '<a@example.com>' } as Message;
+    await new DuplicateService().recordPossibleDuplicates(makeTask('new', 'Send the report'), message);
+
+    expect(database.findTasksBySourceMessage).toHaveBeenCalledWith('user-1', 'integration-1', 'gmail-1', '<a@example.com>');
+    expect(flagged()).toEqual([['reworded', 'message_id']]);
+  });
+
+  it('keeps the same-message reason when a task also matches on title', async () => {
+    const earlier = makeTask('earlier', 'Send the report');
+    database.findTasksBySourceMessage.mockResolvedValue([earlier]);
+    database.findDuplicateCandidates.mockResolvedValue([earlier]);
+
+    await new DuplicateService().recordPossibleDuplicates(makeTask('new', 'Send the report'), {} as Message);
+
+    expect(flagged()).toEqual([['earlier', 'message_id']]);
+  });
+
+  it('records at most three matches, best first', async () => {
+    database.findDuplicateCandidates.mockResolvedValue([
+      makeTask('a', 'Renew the passport now'),
+      makeTask('b', 'Renew the passport'),
+      makeTask('c', 'Renew passport'),
+      makeTask('d', 'renew the passport.'),
+      makeTask('e', 'Renew the passports'),
+    ]);
+
+    await new DuplicateService().recordPossibleDuplicates(makeTask('new', 'Renew the passport'));
+
+    expect(flagged().map(([id]) => id)).toEqual(['b', 'd', 'e']);
+  });
+
+  it('does not throw when detection fails', async () => {
+    database.findDuplicateCandidates.mockRejectedValue(new Error('connection lost'));
+
+    await expect(new DuplicateService().recordPossibleDuplicates(makeTask('new', 'Send the report'))).resolves.toBe(0);
+    expect(database.createTaskDuplicate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,256 @@
+import { DatabaseService, Message, Task, TaskDuplicate, TaskSource } from '../database/DatabaseService';
+import { cosineSimilarity, embedTexts, isEmbeddingEnabled } from '../../ai/embeddings';
+import { config } from '../../config';
+
+// Recent tasks a new task is compared against
+const MAX_CANDIDATES = 200;
+// Possible duplicates recorded per new task, best first
+const MAX_MATCHES = 3;
+// Tasks from the same email are only flagged when their titles are at least this close;
+// one email often asks for several different things
+const SAME_MESSAGE_TITLE_SIMILARITY = 0.5;
+
+export type TaskWithSources = Task & { sources: TaskSource[] };
+
+// A pending pair for the possible-duplicates view
+export interface PossibleDuplicate {
+  id: string;
+  reason: TaskDuplicate['reason'];
+  score: number;
+  created_at: string;
+  task: TaskWithSources; // The newer task
+  duplicate_of: TaskWithSources;
+}
+
+interface DuplicateMatch {
+  task: Task;
+  reason: TaskDuplicate['reason'];
+  score: number;
+}
+
+export function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+// Character bigrams of each word of the normalized title, padded so word starts and ends count
+function toBigrams(title: string): Map<string, number> {
+  const bigrams = new Map<string, number>();
+  const normalized = normalizeTitle(title);
+  if (!normalized) return bigrams;
+
+  for (const word of normalized.split(' ')) {
+    const padded = ` ${word} `;
+    for (let i = 0; i < padded.length - 1; i++) {
+      const bigram = padded.slice(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+  }
+  return bigrams;
+}
+
+/**
+ * How alike two task titles are, from 0 to 1: the Dice coefficient of their word bigrams,
+ * so word order, punctuation and small wording changes count for little
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const first = toBigrams(a);
+  const second = toBigrams(b);
+
+  let total = 0;
+  let shared = 0;
+  for (const count of first.values()) {
+    total += count;
+  }
+  for (const [bigram, count] of second) {
+    total += count;
+    shared += Math.min(count, first.get(bigram) || 0);
+  }
+
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * Finds tasks that were extracted more than once (an email parsed again after its tracking
+ * was reset, the same email in two connected accounts, or the same request in different
+ * words) and merges them on the user's request
+ */
+export class DuplicateService {
+  private databaseService: DatabaseService;
+
+  constructor() {
+    this.databaseService = new DatabaseService();
+  }
+
+  /**
+   * A task the user already has from this email with the same title, whether it came from
+   * this integration's copy or another account's (matched on the RFC 822 Message-ID). The
+   * extracted task is then linked to it instead of created again.
+   */
+  async findSameMessageTask(userId: string, integrationId: string, message: Message, title: string): Promise<Task | null> {
+    const tasks = await this.databaseService.findTasksBySourceMessage(userId, integrationId, message.source_id, message.internet_message_id);
+    const normalizedTitle = normalizeTitle(title);
+    return tasks.find(task => normalizeTitle(task.title) === normalizedTitle) || null;
+  }
+
+  /**
+   * Compare a newly created task with the user's recent open tasks and flag the closest
+   * matches for review. Detection is best effort: failures are logged, never thrown, so
+   * they can't interrupt extraction. Returns the number of pairs flagged.
+   */
+  async recordPossibleDuplicates(task: Task, message?: Message): Promise<number> {
+    try {
+      const matches = await this.findPossibleDuplicates(task, message);
+
+      for (const match of matches) {
+        await this.databaseService.createTaskDuplicate({
+          user_id: task.user_id,
+          task_id: task.id,
+          duplicate_of: match.task.id,
+          reason: match.reason,
+          score: Math.round(match.score * 1000) / 1000,
+        });
+        console.log(`🔍 [DEBUG] "${task.title}" may duplicate "${match.task.title}" (${match.reason}, ${match.score.toFixed(2)})`);
+      }
+
+      return matches.length;
+    } catch (error) {
+      console.warn(`⚠️ [DEBUG] Duplicate detection failed for task ${task.id}:`, error);
+      return 0;
+    }
+  }
+
+  async getPossibleDuplicates(userId: string): Promise<PossibleDuplicate[]> {
+    const pairs = await this.databaseService.findPendingTaskDuplicates(userId);
+    const taskIds = pairs.flatMap(pair => [pair.task_id, pair.duplicate_of]);
+    const sources = await this.databaseService.findTaskSourcesByTaskIds(Array.from(new Set(taskIds)));
+
+    const withSources = (task: Task): TaskWithSources => ({
+      ...task,
+      sources: sources.filter(source => source.task_id === task.id),
+    });
+
+    return pairs.map(pair => ({
+      id: pair.id,
+      reason: pair.reason,
+      score: Number(pair.score),
+      created_at: pair.created_at,
+      task: withSources(pair.task),
+      duplicate_of: withSources(pair.duplicate_task),
+    }));
+  }
+
+  /**
+   * Merge a pending pair, keeping either its newer task ('task') or the earlier one
+   * ('duplicate_of'). The kept task gains the other's source links and empty fields; the
+   * other is deleted. Returns null if there is no pending pair with this ID for the user.
+   */
+  async mergeDuplicate(userId: string, duplicateId: string, keep: 'task' | 'duplicate_of'): Promise<Task | null> {
+    const duplicate = await this.databaseService.findTaskDuplicateById(duplicateId);
+    if (!duplicate || duplicate.user_id !== userId || duplicate.status !== 'pending') {
+      return null;
+    }
+
+    const [keepId, removeId] = keep === 'task'
+      ? [duplicate.task_id, duplicate.duplicate_of]
+      : [duplicate.duplicate_of, duplicate.task_id];
+
+    return await this.databaseService.mergeTasks(keepId, removeId);
+  }
+
+  /**
+   * Mark a pair as not duplicates; it isn't flagged again. Returns false if there is no
+   * pending pair with this ID for the user.
+   */
+  async dismissDuplicate(userId: string, duplicateId: string): Promise<boolean> {
+    const duplicate = await this.databaseService.findTaskDuplicateById(duplicateId);
+    if (!duplicate || duplicate.user_id !== userId) {
+      return false;
+    }
+
+    return await this.databaseService.dismissTaskDuplicate(duplicateId);
+  }
+
+  async getTaskSources(taskId: string): Promise<TaskSource[]> {
+    return await this.databaseService.findTaskSourcesByTaskIds([taskId]);
+  }
+
+  private async findPossibleDuplicates(task: Task, message?: Message): Promise<DuplicateMatch[]> {
+    const matches = new Map<string, DuplicateMatch>();
+    // The first reason found for a task is kept; the checks run from strongest to weakest
+    const addMatch = (match: DuplicateMatch) => {
+      if (!matches.has(match.task.id)) {
+        matches.set(match.task.id, match);
+      }
+    };
+
+    // The same email (in another account, or parsed again) worded into a slightly different task
+    if (message) {
+      const sameMessageTasks = await this.databaseService.findTasksBySourceMessage(
+        task.user_id, task.integration_id, message.source_id, message.internet_message_id
+      );
+      for (const candidate of sameMessageTasks) {
+        if (candidate.id === task.id) continue;
+        const score = titleSimilarity(task.title, candidate.title);
+        if (score >= SAME_MESSAGE_TITLE_SIMILARITY) {
+          addMatch({ task: candidate, reason: 'message_id', score });
+        }
+      }
+    }
+
+    const createdSince = new Date(Date.now() - config.duplicates.windowDays * 24 * 60 * 60 * 1000).toISOString();
+    const candidates = await this.databaseService.findDuplicateCandidates(task.user_id, task.id, createdSince, MAX_CANDIDATES);
+
+    for (const candidate of candidates) {
+      const score = titleSimilarity(task.title, candidate.title);
+      if (score >= config.duplicates.titleSimilarity) {
+        addMatch({ task: candidate, reason: 'title', score });
+      }
+    }
+
+    if (isEmbeddingEnabled()) {
+      const unmatched = candidates.filter(candidate => !matches.has(candidate.id));
+      for (const match of await this.findSimilarByEmbedding(task, unmatched)) {
+        addMatch(match);
+      }
+    }
+
+    return Array.from(matches.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_MATCHES);
+  }
+
+  private async findSimilarByEmbedding(task: Task, candidates: Task[]): Promise<DuplicateMatch[]> {
+    if (candidates.length === 0) return [];
+
+    const embeddings = await this.getTitleEmbeddings([task, ...candidates]);
+    const taskEmbedding = embeddings.get(task.id)!;
+
+    return candidates
+      .map(candidate => ({
+        task: candidate,
+        reason: 'embedding' as const,
+        score: cosineSimilarity(taskEmbedding, embeddings.get(candidate.id)!),
+      }))
+      .filter(match => match.score >= config.duplicates.embeddingSimilarity);
+  }
+
+  /**
+   * Title embeddings by task ID. Stored ones are reused while the model and title are
+   * unchanged; the rest are computed in one request and stored.
+   */
+  private async getTitleEmbeddings(tasks: Task[]): Promise<Map<string, number[]>> {
+    const model = config.ai.ollama.embeddingModel;
+    const embeddings = await this.databaseService.findTaskEmbeddings(tasks, model);
+
+    const missingTasks = tasks.filter(task => !embeddings.has(task.id));
+    if (missingTasks.length > 0) {
+      const vectors = await embedTexts(missingTasks.map(task => task.title));
+      for (let i = 0; i < missingTasks.length; i++) {
+        embeddings.set(missingTasks[i].id, vectors[i]);
+        await this.databaseService.saveTaskEmbedding(missingTasks[i].id, model, missingTasks[i].title, vectors[i]);
+      }
+    }
+
+    return embeddings;
+  }
+}
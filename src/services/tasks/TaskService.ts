@@ -1,21 +1,103 @@
-import { DatabaseService, Task } from '../database/DatabaseService';
-import { OllamaProvider } from '../../ai/providers/ollama';
-import { GmailService } from '../gmail/GmailService';
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService, Task, Integration, Message, ThreadTaskUpdates, TaskEdits, TaskUpdates, TaskQuery, TaskPage, TaskSearchResult, TaskSource, SenderRule, SyncRunOutcome } from '../database/DatabaseService';
+import { IAIProvider, BatchMessage } from '../../ai/interfaces/IAIProvider';
+import { createAIProvider } from '../../ai/registry';
+import { getIntegrationSkipReason } from '../integrations/integrationHealth';
+import { MessageSource, SyncCursor, openMessageSource } from '../messages/MessageSource';
+import { MessageFilterService } from '../messages/MessageFilterService';
+import { DuplicateService, PossibleDuplicate, normalizeTitle } from './DuplicateService';
+import { DEFAULT_TIMEZONE, ResolvedDueDate, describeSendTime, resolveDueDate } from '../../utils/dueDates';
+import { extractReplyText } from '../../utils/emailContent';
+import { config } from '../../config';
+
+// Earlier messages of a conversation given to the model as context
+const THREAD_CONTEXT_MESSAGES = 5;
+// New messages of one conversation extracted from in a single prompt
+const MAX_MESSAGES_PER_CONVERSATION = 3;
+
+export interface ParseResult {
+  extracted: number;
+  created: number;
+  updated: number;
+  processed: number;
+  skipped: number;
+  failed: number;
+}
+
+// New messages of one conversation, extracted together; a message without a thread is its own
+interface Conversation {
+  threadId?: string;
+  messages: Message[]; // Oldest first; tasks link to the newest
+}
 
 export class TaskService {
   private databaseService: DatabaseService;
-  private ollamaProvider: OllamaProvider;
+  private duplicateService: DuplicateService;
+  private messageFilterService: MessageFilterService;
+  private aiProvider: IAIProvider;
+  private instanceId: string;
 
   constructor() {
     this.databaseService = new DatabaseService();
-    this.ollamaProvider = new OllamaProvider();
+    this.duplicateService = new DuplicateService();
+    this.messageFilterService = new MessageFilterService();
+    this.aiProvider = createAIProvider();
+    this.instanceId = `${os.hostname()}:${process.pid}:${uuidv4()}`;
+  }
+
+  /**
+   * Extract tasks for a user-triggered sync under the same lease the mailbox monitor takes, so
+   * the two never process an integration at once. `onStart` is called once the lease is held.
+   * Returns null without running while another run holds the lease.
+   */
+  async runManualSync(
+    userId: string,
+    integrationId: string,
+    onStart: () => void,
+    progressCallback?: (progress: any) => void
+  ): Promise<ParseResult | null> {
+    const integration = await this.databaseService.findIntegrationById(integrationId);
+    if (!integration || integration.user_id !== userId) {
+      throw new Error('Integration not found');
+    }
+
+    const leaseUntil = new Date(Date.now() + config.monitor.leaseMinutes * 60 * 1000);
+    const state = await this.databaseService.acquireSyncLease(integrationId, this.instanceId, leaseUntil, { ignoreSchedule: true });
+    if (!state) {
+      return null;
+    }
+
+    onStart();
+
+    let result: ParseResult;
+    try {
+      result = await this.parseGmailForTasks(userId, integrationId, progressCallback);
+    } catch (error) {
+      // A failed manual run keeps the monitor's schedule and backoff as they were
+      await this.releaseSyncLease(integrationId, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        consecutiveFailures: state.consecutive_failures || 0,
+        nextRunAt: new Date(state.next_run_at),
+      });
+      throw error;
+    }
+
+    await this.releaseSyncLease(integrationId, {
+      status: 'ok',
+      result,
+      consecutiveFailures: 0,
+      nextRunAt: new Date(Date.now() + config.monitor.intervalMinutes * 60 * 1000),
+    });
+    return result;
   }
 
   async parseGmailForTasks(
     userId: string, 
     integrationId: string, 
     progressCallback?: (progress: any) => void
-  ): Promise<{ extracted: number; created: number; processed: number }> {
+  ): Promise<ParseResult> {
     try {
       // Get integration details
       const integration = await this.databaseService.findIntegrationById(integrationId);
@@ -31,66 +113,98 @@ export class TaskService {
         throw new Error('Integration is not active');
       }
 
+      const skipReason = getIntegrationSkipReason(integration);
+      if (skipReason) {
+        throw new Error(skipReason);
+      }
+
       console.log(`🔍 [DEBUG] Starting task extraction for user ${userId}, integration ${integrationId}`);
 
-      // Check if Ollama is available
-      console.log(`🔍 [DEBUG] Checking Ollama availability...`);
-      const isOllamaAvailable = await this.ollamaProvider.isAvailable();
-      if (!isOllamaAvailable) {
-        console.error(`❌ [DEBUG] Ollama is not available`);
-        throw new Error('Ollama AI service is not available');
+      // Check if the AI provider is available
+      console.log(`🔍 [DEBUG] Checking ${this.aiProvider.name} availability...`);
+      const isAIAvailable = await this.aiProvider.isAvailable();
+      if (!isAIAvailable) {
+        console.error(`❌ [DEBUG] ${this.aiProvider.name} is not available`);
+        throw new Error(`AI service (${this.aiProvider.name}) is not available`);
       }
-      console.log(`✅ [DEBUG] Ollama is available`);
-
-      // Get recent Gmail messages
-      console.log(`🔍 [DEBUG] Creating Gmail service and fetching messages...`);
-      const gmailService = new GmailService(integration.access_token);
-      const messages = await gmailService.getMessages(50, 'label:INBOX -label:archive -label:trash -label:spam'); // Get last 50 inbox messages (excluding archived, trash, spam)
-      console.log(`✅ [DEBUG] Fetched ${messages.length} messages from Gmail`);
-      
-      // Debug: Log labels for first few messages to see what we're getting
-      if (messages.length > 0) {
-        console.log(`🔍 [DEBUG] Sample message labels:`);
-        messages.slice(0, 3).forEach((msg, index) => {
-          console.log(`  Message ${index + 1}: ${msg.labelIds?.join(', ') || 'No labels'}`);
-        });
+      console.log(`✅ [DEBUG] ${this.aiProvider.name} is available`);
+
+      // Find messages added since the last sync
+      console.log(`🔍 [DEBUG] Opening ${integration.provider} mailbox and checking for new messages...`);
+      const messageSource = openMessageSource(integration, this.databaseService);
+      const { messageIds: newMessageIds, cursor } = await messageSource.findNewMessageIds();
+      console.log(`✅ [DEBUG] Found ${newMessageIds.length} candidate messages in ${integration.account_email}`);
+
+      // Messages whose extraction failed earlier won't show up in history again, so retry them here
+      const retryableMessageIds = await this.databaseService.getRetryableMessageIds(userId, integrationId, config.ai.maxParseAttempts);
+      if (retryableMessageIds.length > 0) {
+        console.log(`🔍 [DEBUG] Retrying ${retryableMessageIds.length} messages that failed extraction`);
       }
-
-      // Add a small delay after fetching messages to avoid immediate rate limiting
-      console.log(`🔍 [DEBUG] Waiting 1 second before processing messages...`);
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const messageIds = Array.from(new Set([...newMessageIds, ...retryableMessageIds]));
 
       let extractedCount = 0;
       let createdCount = 0;
+      let updatedCount = 0;
+      let duplicateCount = 0;
       let processedCount = 0;
+      let failedCount = 0;
 
       // Filter out already parsed messages efficiently
       console.log(`🔍 [DEBUG] Getting parsed message IDs...`);
-      const parsedMessageIds = await this.databaseService.getParsedMessageIds(userId, integrationId);
+      const parsedMessageIds = await this.databaseService.getParsedMessageIds(userId, integrationId, config.ai.maxParseAttempts);
       console.log(`🔍 [DEBUG] Found ${parsedMessageIds.size} already parsed messages`);
       
-      const unparsedMessages = messages.filter(message => !parsedMessageIds.has(message.id));
-      const skippedCount = messages.length - unparsedMessages.length;
+      const unparsedMessageIds = messageIds.filter(messageId => !parsedMessageIds.has(messageId));
+      const skippedCount = messageIds.length - unparsedMessageIds.length;
       
       if (skippedCount > 0) {
         console.log(`🔍 [DEBUG] Skipping ${skippedCount} already parsed messages`);
       }
 
-      if (unparsedMessages.length === 0) {
+      if (unparsedMessageIds.length === 0) {
         console.log('No new messages to process');
-        return { extracted: 0, created: 0, processed: 0 };
+        await this.saveSyncCursor(integration, messageSource.cursorKey, cursor);
+        return { extracted: 0, created: 0, updated: 0, processed: 0, skipped: 0, failed: 0 };
       }
 
-      console.log(`🔍 [DEBUG] Processing ${unparsedMessages.length} unparsed messages`);
+      const loadedMessages = await this.loadMessages(userId, integration, messageSource, unparsedMessageIds);
+
+      // Bulk mail and senders the user filtered out never reach the model
+      const skipReasons = await this.messageFilterService.getSkipReasons(userId, loadedMessages);
+      for (const [messageId, reason] of skipReasons) {
+        await this.databaseService.createParsedMessage({
+          user_id: userId,
+          integration_id: integrationId,
+          gmail_message_id: messageId,
+          tasks_extracted: 0,
+          status: 'skipped',
+          skip_reason: reason,
+        });
+      }
+      const skippedByFilterCount = skipReasons.size;
+      if (skippedByFilterCount > 0) {
+        console.log(`🔍 [DEBUG] Filter rules skipped ${skippedByFilterCount} of ${loadedMessages.length} messages`);
+      }
+
+      const unparsedMessages = loadedMessages.filter(message => !skipReasons.has(message.source_id));
+
+      // Relative due dates ("by Friday") are resolved in the user's timezone
+      const user = await this.databaseService.findUserById(userId);
+      const timezone = user?.timezone || DEFAULT_TIMEZONE;
+
+      // New messages of the same conversation are extracted together, with the thread as context
+      const conversations = this.groupByThread(unparsedMessages);
 
-      // Process messages in batches for efficiency
-      const BATCH_SIZE = 2; // Process 2 messages at a time (reduced to avoid prompt length issues)
+      console.log(`🔍 [DEBUG] Processing ${unparsedMessages.length} unparsed messages in ${conversations.length} conversations`);
+
+      // Process conversations in batches for efficiency
+      const BATCH_SIZE = 2; // Process 2 conversations at a time (reduced to avoid prompt length issues)
       const batches = [];
-      for (let i = 0; i < unparsedMessages.length; i += BATCH_SIZE) {
-        batches.push(unparsedMessages.slice(i, i + BATCH_SIZE));
+      for (let i = 0; i < conversations.length; i += BATCH_SIZE) {
+        batches.push(conversations.slice(i, i + BATCH_SIZE));
       }
       
-      console.log(`🔍 [DEBUG] Processing ${unparsedMessages.length} messages in ${batches.length} batches of ${BATCH_SIZE}`);
+      console.log(`🔍 [DEBUG] Processing ${conversations.length} conversations in ${batches.length} batches of ${BATCH_SIZE}`);
       
       if (progressCallback) {
         progressCallback({ 
@@ -105,12 +219,12 @@ export class TaskService {
       
       for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
         const batch = batches[batchIndex];
-        console.log(`🔍 [DEBUG] Processing batch ${batchIndex + 1}/${batches.length} with ${batch.length} messages`);
+        console.log(`🔍 [DEBUG] Processing batch ${batchIndex + 1}/${batches.length} with ${batch.length} conversations`);
         
         if (progressCallback) {
           progressCallback({ 
             type: 'batch', 
-            message: `Processing batch ${batchIndex + 1}/${batches.length} (${batch.length} messages)`,
+            message: `Processing batch ${batchIndex + 1}/${batches.length} (${batch.length} conversations)`,
             current: currentMessageIndex,
             total: unparsedMessages.length,
             batchIndex: batchIndex + 1,
@@ -118,51 +232,55 @@ export class TaskService {
           });
         }
         
+        // Conversations already counted and messages already recorded, so that a failure part
+        // way through the batch leaves them alone
+        const countedConversations = new Set<Conversation>();
+        const recordedMessageIds = new Set<string>();
+
         try {
-          // Prepare batch content for AI processing
-          const batchContent = [];
-          const batchMetadata = [];
+          // Prepare batch messages for AI processing, keyed by the provider ID of each conversation's newest message
+          const batchMessages: BatchMessage[] = [];
+          const threadTasks = new Map<Conversation, Task[]>();
           
-          for (const message of batch) {
-            const content = gmailService.extractEmailContent(message);
-            const subject = gmailService.getSubject(message);
-            const sender = gmailService.getSenderEmail(message);
-            
-            // Clean and truncate content more intelligently
-            const cleanedContent = this.cleanEmailContent(content);
-            const truncatedContent = this.truncateForAI(cleanedContent, 800); // Limit to 800 chars per message
+          for (const conversation of batch) {
+            const latestMessage = conversation.messages[conversation.messages.length - 1];
+            const tasks = conversation.threadId
+              ? await this.databaseService.findTasksByThread(userId, integrationId, conversation.threadId)
+              : [];
+            threadTasks.set(conversation, tasks);
+
+            // Only the newest few new messages are extracted from; older ones become context
+            const includedMessages = conversation.messages.slice(-MAX_MESSAGES_PER_CONVERSATION);
             
-            batchContent.push(`--- Message ${batchContent.length + 1} ---\nSubject: ${subject}\nFrom: ${sender}\n\n${truncatedContent}`);
-            batchMetadata.push({
-              messageId: message.id,
-              senderEmail: sender,
-              emailReceivedAt: new Date(parseInt(message.internalDate)).toISOString(),
-              recipients: gmailService.getRecipients(message)
+            batchMessages.push({
+              id: latestMessage.source_id,
+              content: this.formatMessagesForAI(includedMessages),
+              subject: latestMessage.subject || '',
+              sender: latestMessage.sender || '',
+              sentAt: describeSendTime(new Date(latestMessage.timestamp), timezone),
+              conversation: await this.getThreadContext(integrationId, messageSource, conversation, includedMessages),
+              existingTasks: tasks.filter(task => task.review_status !== 'rejected').map(task => task.title),
             });
           }
           
-          const fullBatchContent = batchContent.join('\n\n');
-          
           // Process batch with AI
-          console.log(`🔍 [DEBUG] Processing batch ${batchIndex + 1} with Ollama...`);
-          const batchResult = await this.ollamaProvider.extractTasks(fullBatchContent);
-          
-          console.log(`🔍 [DEBUG] Batch ${batchIndex + 1} - Extracted ${batchResult.tasks.length} total tasks`);
+          console.log(`🔍 [DEBUG] Processing batch ${batchIndex + 1} with ${this.aiProvider.name}...`);
+          const batchResults = await this.aiProvider.extractTasksBatch(batchMessages);
+          const resultsByMessageId = new Map(batchResults.map(batchResult => [batchResult.messageId, batchResult.result]));
           
-          // Distribute tasks across messages in the batch
-          const tasksPerMessage = Math.ceil(batchResult.tasks.length / batch.length);
-          let taskIndex = 0;
+          console.log(`🔍 [DEBUG] Batch ${batchIndex + 1} - Extracted ${batchResults.reduce((total, batchResult) => total + batchResult.result.tasks.length, 0)} total tasks`);
           
-          for (let messageIndex = 0; messageIndex < batch.length; messageIndex++) {
-            const message = batch[messageIndex];
-            const messageMetadata = batchMetadata[messageIndex];
-            currentMessageIndex++;
+          for (const conversation of batch) {
+
+            const latestMessage = conversation.messages[conversation.messages.length - 1];
+            currentMessageIndex += conversation.messages.length;
+            countedConversations.add(conversation);
             
-            // Assign tasks to this message (distribute evenly)
-            const messageTasks = batchResult.tasks.slice(taskIndex, taskIndex + tasksPerMessage);
-            taskIndex += tasksPerMessage;
+            const result = resultsByMessageId.get(latestMessage.source_id);
+            const extractionError = !result ? 'No extraction result returned' : result.error;
+            const messageTasks = extractionError ? [] : result!.tasks;
             
-            console.log(`🔍 [DEBUG] Message ${currentMessageIndex}/${unparsedMessages.length} (${message.id}) - Assigned ${messageTasks.length} tasks`);
+            console.log(`🔍 [DEBUG] Message ${currentMessageIndex}/${unparsedMessages.length} (${latestMessage.source_id}) - Extracted ${messageTasks.length} tasks`);
             
             if (progressCallback) {
               progressCallback({ 
@@ -170,31 +288,70 @@ export class TaskService {
                 message: `Processed message ${currentMessageIndex}/${unparsedMessages.length}`,
                 current: currentMessageIndex,
                 total: unparsedMessages.length,
-                messageId: message.id,
+                messageId: latestMessage.source_id,
                 extracted: messageTasks.length
               });
             }
             
+            processedCount += conversation.messages.length;
+
+            if (extractionError) {
+              // Leave the messages retryable instead of marking them parsed with no tasks
+              console.warn(`⚠️ [DEBUG] Extraction failed for message ${latestMessage.source_id}: ${extractionError}`);
+              for (const message of conversation.messages) {
+                await this.recordParseFailure(userId, integrationId, message.source_id, extractionError);
+                recordedMessageIds.add(message.source_id);
+              }
+              failedCount += conversation.messages.length;
+              continue;
+            }
+
             extractedCount += messageTasks.length;
-            processedCount++;
 
-            // Create tasks in database for this message
+            // Don't bring back suggestions the user already rejected for this message or conversation
+            const tasks = threadTasks.get(conversation)!;
+            const rejectedTitles = new Set([
+              ...tasks.filter(task => task.review_status === 'rejected').map(task => task.title),
+              ...await this.databaseService.findRejectedTaskTitles(userId, integrationId, latestMessage.source_id),
+            ].map(title => normalizeTitle(title)));
+
+            // Tasks the conversation already produced are updated instead of created again
+            const openTasksByTitle = new Map(
+              tasks.filter(task => task.review_status !== 'rejected').map(task => [normalizeTitle(task.title), task])
+            );
+
+            // Create task suggestions in database for this conversation
             for (const aiTask of messageTasks) {
-              // Validate and parse due date
-              let dueDate: string | undefined = undefined;
-              if (aiTask.dueDate) {
-                try {
-                  if (aiTask.dueDate instanceof Date && !isNaN(aiTask.dueDate.getTime())) {
-                    dueDate = aiTask.dueDate.toISOString();
-                  } else if (typeof aiTask.dueDate === 'string' && aiTask.dueDate !== 'YYYY-MM-DD') {
-                    const parsedDate = new Date(aiTask.dueDate);
-                    if (!isNaN(parsedDate.getTime())) {
-                      dueDate = parsedDate.toISOString();
-                    }
-                  }
-                } catch (error) {
-                  console.warn(`Invalid due date for task "${aiTask.title}": ${aiTask.dueDate}`);
-                }
+              if (rejectedTitles.has(normalizeTitle(aiTask.title))) {
+                console.log(`🔍 [DEBUG] Skipping previously rejected suggestion: "${aiTask.title}"`);
+                continue;
+              }
+
+              // Resolve the deadline against when the email was sent rather than trusting the model's date
+              const due = resolveDueDate(aiTask.due, new Date(latestMessage.timestamp), timezone);
+              if (aiTask.due?.date && due.due_date !== aiTask.due.date) {
+                console.log(`🔍 [DEBUG] Due date for "${aiTask.title}" resolved to ${due.due_date} from "${due.due_phrase}" (model said ${aiTask.due.date})`);
+              }
+
+              const existingTask = openTasksByTitle.get(normalizeTitle(aiTask.title));
+              if (existingTask) {
+                await this.updateThreadTask(existingTask, integration, latestMessage, {
+                  description: aiTask.description,
+                  priority: aiTask.priority,
+                  ...due,
+                  confidence: result!.confidence,
+                });
+                updatedCount++;
+                console.log(`✅ [DEBUG] Updated task "${existingTask.title}" from a later message in its conversation`);
+                continue;
+              }
+
+              // The email was parsed before (tracking reset) or reached another connected account too
+              const sameMessageTask = await this.duplicateService.findSameMessageTask(userId, integrationId, latestMessage, aiTask.title);
+              if (sameMessageTask) {
+                await this.databaseService.addTaskSource(this.toTaskSource(sameMessageTask.id, integration, latestMessage));
+                console.log(`🔍 [DEBUG] Skipping duplicate of "${sameMessageTask.title}" from the same email; linked it to message ${latestMessage.source_id}`);
+                continue;
               }
 
               const taskData: Omit<Task, 'id' | 'created_at' | 'updated_at'> = {
@@ -204,29 +361,43 @@ export class TaskService {
                 description: aiTask.description,
                 status: 'PENDING',
                 priority: aiTask.priority || 'MEDIUM',
-                due_date: dueDate,
-                source: 'gmail',
-                source_id: message.id,
-                message_id: message.id,
+                due_date: due.due_date,
+                due_at: due.due_at,
+                due_phrase: due.due_phrase,
+                source: messageSource.source,
+                source_id: latestMessage.source_id,
+                source_url: latestMessage.url,
+                message_id: latestMessage.id,
+                thread_id: conversation.threadId,
                 account_email: integration.account_email,
                 account_name: integration.account_name,
-                email_received_at: messageMetadata.emailReceivedAt,
-                email_sender: messageMetadata.senderEmail,
-                email_recipients: messageMetadata.recipients,
+                email_received_at: latestMessage.timestamp,
+                email_sender: latestMessage.sender,
+                email_subject: latestMessage.subject,
+                email_recipients: latestMessage.recipients,
+                confidence: result!.confidence,
+                review_status: 'suggested',
               };
 
               const createdTask = await this.databaseService.createTask(taskData);
+              await this.databaseService.addTaskSource(this.toTaskSource(createdTask.id, integration, latestMessage));
+              openTasksByTitle.set(normalizeTitle(createdTask.title), createdTask);
               createdCount++;
-              console.log(`✅ [DEBUG] Created task: "${createdTask.title}" (Priority: ${createdTask.priority})`);
+              console.log(`✅ [DEBUG] Created task suggestion: "${createdTask.title}" (Priority: ${createdTask.priority})`);
+
+              duplicateCount += await this.duplicateService.recordPossibleDuplicates(createdTask, latestMessage);
             }
 
-            // Mark message as parsed
-            await this.databaseService.createParsedMessage({
-              user_id: userId,
-              integration_id: integrationId,
-              gmail_message_id: message.id,
-              tasks_extracted: messageTasks.length
-            });
+            // Mark the conversation's messages as parsed; its tasks are counted on the newest
+            for (const message of conversation.messages) {
+              await this.databaseService.createParsedMessage({
+                user_id: userId,
+                integration_id: integrationId,
+                gmail_message_id: message.source_id,
+                tasks_extracted: message === latestMessage ? messageTasks.length : 0
+              });
+              recordedMessageIds.add(message.source_id);
+            }
           }
 
           // Add a small delay between batches to avoid rate limiting
@@ -237,27 +408,33 @@ export class TaskService {
 
         } catch (error) {
           console.error(`❌ [DEBUG] Error processing batch ${batchIndex + 1}:`, error);
-          // Mark all messages in this batch as parsed with 0 tasks to avoid reprocessing
-          for (const message of batch) {
-            try {
-              await this.databaseService.createParsedMessage({
-                user_id: userId,
-                integration_id: integrationId,
-                gmail_message_id: message.id,
-                tasks_extracted: 0
-              });
-              currentMessageIndex++;
-              processedCount++;
-            } catch (parseError) {
-              console.error(`❌ [DEBUG] Error marking message ${message.id} as parsed:`, parseError);
+          // Record the failure on the messages of this batch that weren't recorded yet, so they are
+          // retried on a later run. Messages already marked parsed keep their tasks and aren't retried.
+          const batchError = error instanceof Error ? error.message : 'Unknown error';
+          for (const conversation of batch) {
+            const counted = countedConversations.has(conversation);
+            for (const message of conversation.messages) {
+              if (recordedMessageIds.has(message.source_id)) continue;
+              try {
+                await this.recordParseFailure(userId, integrationId, message.source_id, batchError);
+                if (!counted) {
+                  currentMessageIndex++;
+                  processedCount++;
+                }
+                failedCount++;
+              } catch (parseError) {
+                console.error(`❌ [DEBUG] Error recording failure for message ${message.source_id}:`, parseError);
+              }
             }
           }
         }
       }
 
-      console.log(`✅ [DEBUG] Task extraction completed: ${extractedCount} tasks extracted, ${createdCount} tasks created, ${processedCount} messages processed`);
+      await this.saveSyncCursor(integration, messageSource.cursorKey, cursor);
+
+      console.log(`✅ [DEBUG] Task extraction completed: ${extractedCount} tasks extracted, ${createdCount} tasks created, ${updatedCount} updated, ${duplicateCount} possible duplicates, ${processedCount} messages processed, ${skippedByFilterCount} skipped by filters, ${failedCount} failed`);
       
-      return { extracted: extractedCount, created: createdCount, processed: processedCount };
+      return { extracted: extractedCount, created: createdCount, updated: updatedCount, processed: processedCount, skipped: skippedByFilterCount, failed: failedCount };
 
     } catch (error) {
       console.error('❌ [DEBUG] Task extraction failed:', error);
@@ -267,25 +444,18 @@ export class TaskService {
 
   async getUnparsedMessageCount(userId: string, integrationId: string): Promise<number> {
     try {
-      const gmailService = new GmailService('');
       const integration = await this.databaseService.findIntegrationById(integrationId);
       
-      if (!integration || integration.user_id !== userId) {
+      if (!integration || integration.user_id !== userId || getIntegrationSkipReason(integration)) {
         return 0;
       }
 
-      const gmail = new GmailService(integration.access_token);
-      const messages = await gmail.getMessages(50, 'label:INBOX -label:archive -label:trash -label:spam');
+      // Only message IDs are listed here; full messages are fetched when parsing
+      const { messageIds } = await openMessageSource(integration, this.databaseService).findNewMessageIds();
+      const retryableMessageIds = await this.databaseService.getRetryableMessageIds(userId, integrationId, config.ai.maxParseAttempts);
+      const parsedMessageIds = await this.databaseService.getParsedMessageIds(userId, integrationId, config.ai.maxParseAttempts);
       
-      let unparsedCount = 0;
-      for (const message of messages) {
-        const isAlreadyParsed = await this.databaseService.isMessageParsed(userId, integrationId, message.id);
-        if (!isAlreadyParsed) {
-          unparsedCount++;
-        }
-      }
-      
-      return unparsedCount;
+      return Array.from(new Set([...messageIds, ...retryableMessageIds])).filter(messageId => !parsedMessageIds.has(messageId)).length;
     } catch (error) {
       console.error('Error getting unparsed message count:', error);
       return 0;
@@ -296,13 +466,176 @@ export class TaskService {
     return await this.databaseService.findTasksByUserId(userId);
   }
 
-  async updateTask(userId: string, taskId: string, updates: Partial<Task>): Promise<Task> {
+  async queryTasks(userId: string, taskQuery: TaskQuery): Promise<TaskPage> {
+    return await this.databaseService.queryTasks(userId, taskQuery);
+  }
+
+  /**
+   * Full-text search over the user's tasks, best matches first
+   */
+  async searchTasks(userId: string, text: string, limit: number): Promise<TaskSearchResult[]> {
+    return await this.databaseService.searchTasks(userId, text, limit);
+  }
+
+  /**
+   * Task totals by status, priority and account, for filter badges
+   */
+  async getTaskCounts(userId: string): Promise<{
+    total: number;
+    byStatus: Record<string, number>;
+    byPriority: Record<string, number>;
+    byAccount: Record<string, number>;
+  }> {
+    const rows = await this.databaseService.countTasksByUserId(userId);
+    const counts = { total: 0, byStatus: {} as Record<string, number>, byPriority: {} as Record<string, number>, byAccount: {} as Record<string, number> };
+
+    for (const row of rows) {
+      counts.total += row.count;
+      counts.byStatus[row.status] = (counts.byStatus[row.status] || 0) + row.count;
+      counts.byPriority[row.priority] = (counts.byPriority[row.priority] || 0) + row.count;
+      if (row.account_email) {
+        counts.byAccount[row.account_email] = (counts.byAccount[row.account_email] || 0) + row.count;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Create a task entered by hand (source 'manual'); it skips the review queue but is
+   * checked for duplicates like extracted tasks
+   */
+  async createManualTask(userId: string, fields: TaskEdits & { title: string; due_at?: string }): Promise<Task> {
+    const task = await this.databaseService.createTask({
+      user_id: userId,
+      title: fields.title,
+      description: fields.description || undefined,
+      status: 'PENDING',
+      priority: fields.priority || 'MEDIUM',
+      due_date: fields.due_date || undefined,
+      due_at: fields.due_at,
+      notes: fields.notes || undefined,
+      source: 'manual',
+      review_status: 'accepted',
+    });
+
+    await this.duplicateService.recordPossibleDuplicates(task);
+    return task;
+  }
+
+  async getTaskSuggestions(userId: string): Promise<Task[]> {
+    return await this.databaseService.findTaskSuggestionsByUserId(userId);
+  }
+
+  /**
+   * Accept a suggested task (optionally edited during review). Returns null if there is
+   * no pending suggestion with this ID for the user.
+   */
+  async acceptSuggestion(userId: string, taskId: string, edits: TaskEdits = {}): Promise<Task | null> {
+    const task = await this.databaseService.findTaskById(taskId);
+    if (!task || task.user_id !== userId || task.review_status !== 'suggested') {
+      return null;
+    }
+
+    return await this.databaseService.acceptTaskSuggestion(taskId, edits);
+  }
+
+  /**
+   * Reject a suggested task. The row is kept so the same suggestion isn't recreated when
+   * its message is parsed again.
+   */
+  async rejectSuggestion(userId: string, taskId: string): Promise<Task | null> {
+    const task = await this.databaseService.findTaskById(taskId);
+    if (!task || task.user_id !== userId || task.review_status !== 'suggested') {
+      return null;
+    }
+
+    return await this.databaseService.rejectTaskSuggestion(taskId);
+  }
+
+  /**
+   * Pairs of tasks flagged as possible duplicates, with the source messages of both
+   */
+  async getPossibleDuplicates(userId: string): Promise<PossibleDuplicate[]> {
+    return await this.duplicateService.getPossibleDuplicates(userId);
+  }
+
+  async mergeDuplicate(userId: string, duplicateId: string, keep: 'task' | 'duplicate_of'): Promise<Task | null> {
+    return await this.duplicateService.mergeDuplicate(userId, duplicateId, keep);
+  }
+
+  async dismissDuplicate(userId: string, duplicateId: string): Promise<boolean> {
+    return await this.duplicateService.dismissDuplicate(userId, duplicateId);
+  }
+
+  /**
+   * Every message a task was extracted from. Returns null if the task doesn't exist for the user.
+   */
+  async getTaskSources(userId: string, taskId: string): Promise<TaskSource[] | null> {
+    const task = await this.databaseService.findTaskById(taskId);
+    if (!task || task.user_id !== userId) {
+      return null;
+    }
+
+    return await this.duplicateService.getTaskSources(taskId);
+  }
+
+  async getSenderRules(userId: string): Promise<SenderRule[]> {
+    return await this.messageFilterService.getSenderRules(userId);
+  }
+
+  /**
+   * Always (allow) or never (deny) extract from an address or domain. Returns null if the
+   * pattern is neither. Messages already skipped are only looked at again after a tracking reset.
+   */
+  async saveSenderRule(userId: string, pattern: string, action: SenderRule['action']): Promise<SenderRule | null> {
+    return await this.messageFilterService.saveSenderRule(userId, pattern, action);
+  }
+
+  async deleteSenderRule(userId: string, ruleId: string): Promise<boolean> {
+    return await this.messageFilterService.deleteSenderRule(userId, ruleId);
+  }
+
+  async updateTask(userId: string, taskId: string, updates: TaskUpdates): Promise<Task> {
     const task = await this.databaseService.findTaskById(taskId);
     if (!task || task.user_id !== userId) {
       throw new Error('Task not found or does not belong to user');
     }
     
-    return await this.databaseService.updateTask(taskId, updates);
+    const updatedTask = await this.databaseService.updateTask(taskId, updates);
+    if (!updatedTask) {
+      throw new Error('Failed to update task');
+    }
+
+    return updatedTask;
+  }
+
+  /**
+   * Apply user edits to a task, guarded by the updated_at the client last saw.
+   * Returns null if the task doesn't exist for this user; on a concurrent edit
+   * `conflict` is set and `task` holds the current version.
+   */
+  async editTask(
+    userId: string,
+    taskId: string,
+    edits: TaskEdits,
+    expectedUpdatedAt: string
+  ): Promise<{ task: Task; conflict: boolean } | null> {
+    const task = await this.databaseService.findTaskById(taskId);
+    if (!task || task.user_id !== userId || task.review_status === 'rejected') {
+      return null;
+    }
+
+    const updatedTask = await this.databaseService.updateTask(taskId, edits, expectedUpdatedAt);
+    if (!updatedTask) {
+      const currentTask = await this.databaseService.findTaskById(taskId);
+      if (!currentTask) {
+        return null;
+      }
+      return { task: currentTask, conflict: true };
+    }
+
+    return { task: updatedTask, conflict: false };
   }
 
   async deleteTask(userId: string, taskId: string): Promise<void> {
@@ -319,58 +652,262 @@ export class TaskService {
     return await this.getTasksByUserId(userId);
   }
 
-  async updateTaskStatus(taskId: string, status: string): Promise<Task> {
-    // For backward compatibility, we'll need the userId from the task
-    const task = await this.databaseService.findTaskById(taskId);
-    if (!task) {
-      throw new Error('Task not found');
-    }
-    
-    return await this.updateTask(task.user_id, taskId, { status: status as any });
+  async updateTaskStatus(userId: string, taskId: string, status: Task['status']): Promise<Task> {
+    return await this.updateTask(userId, taskId, { status });
   }
 
   async resetMessageTracking(userId: string, integrationId: string): Promise<void> {
     await this.databaseService.clearParsedMessages(userId, integrationId);
+
+    // Drop the sync cursor too, so the next parse does a full resync of the inbox
+    const integration = await this.databaseService.findIntegrationById(integrationId);
+    const cursorKeys = ['gmailHistoryId', 'outlookDeltaLink', 'slackCursors', 'imapCursor'];
+    if (integration && integration.user_id === userId && cursorKeys.some(key => integration.metadata?.[key])) {
+      const metadata = { ...integration.metadata };
+      for (const key of cursorKeys) {
+        delete metadata[key];
+      }
+      await this.databaseService.updateIntegration(integrationId, { metadata });
+    }
   }
 
   async getIntegrationsForUser(userId: string): Promise<any[]> {
     return await this.databaseService.findIntegrationsByUserId(userId);
   }
 
-  async isOllamaAvailable(): Promise<boolean> {
-    return await this.ollamaProvider.isAvailable();
+  async isAIAvailable(): Promise<boolean> {
+    return await this.aiProvider.isAvailable();
+  }
+
+  getAIProviderName(): string {
+    return this.aiProvider.name;
+  }
+
+  // Record a manual run's outcome; the lease expires on its own if this fails
+  private async releaseSyncLease(integrationId: string, outcome: SyncRunOutcome): Promise<void> {
+    try {
+      await this.databaseService.completeSyncRun(integrationId, this.instanceId, outcome);
+    } catch (error) {
+      console.error(`❌ Failed to release sync lease for integration ${integrationId}:`, error);
+    }
   }
 
-  // Helper methods for content processing
-  private cleanEmailContent(content: string): string {
+  /**
+   * Load messages for extraction by provider message ID. Messages stored by an earlier run
+   * (such as ones being retried) are read from the `messages` table; the rest are fetched
+   * from the source and stored first. Messages the source no longer has are left out and
+   * recorded as failed.
+   */
+  private async loadMessages(
+    userId: string,
+    integration: Integration,
+    messageSource: MessageSource,
+    messageIds: string[]
+  ): Promise<Message[]> {
+    const storedMessages = await this.databaseService.findMessagesBySourceIds(integration.id, messageIds);
+    const messagesBySourceId = new Map(storedMessages.map(message => [message.source_id, message]));
+
+    const missingIds = messageIds.filter(messageId => !messagesBySourceId.has(messageId));
+    if (missingIds.length > 0) {
+      console.log(`🔍 [DEBUG] Fetching ${missingIds.length} messages from ${messageSource.source} (${storedMessages.length} already stored)`);
+      for (const sourceMessage of await messageSource.getMessages(missingIds)) {
+        const message = await this.databaseService.createMessage({
+          user_id: userId,
+          integration_id: integration.id,
+          source: messageSource.source,
+          source_id: sourceMessage.id,
+          thread_id: sourceMessage.threadId,
+          content: sourceMessage.content,
+          sender: sourceMessage.sender,
+          recipients: sourceMessage.recipients,
+          subject: sourceMessage.subject,
+          url: sourceMessage.url,
+          internet_message_id: sourceMessage.internetMessageId,
+          timestamp: sourceMessage.receivedAt,
+          metadata: sourceMessage.signals ? { signals: sourceMessage.signals } : undefined,
+        });
+        messagesBySourceId.set(message.source_id, message);
+      }
+
+      // Messages the source no longer returns (deleted, moved) count as failed attempts, so they
+      // stop being fetched once AI_MAX_PARSE_ATTEMPTS is reached
+      const unavailableIds = missingIds.filter(messageId => !messagesBySourceId.has(messageId));
+      if (unavailableIds.length > 0) {
+        console.warn(`⚠️ [DEBUG] ${unavailableIds.length} messages are no longer available from ${messageSource.source}`);
+        for (const messageId of unavailableIds) {
+          await this.recordParseFailure(userId, integration.id, messageId, `Message no longer available from ${messageSource.source}`);
+        }
+      }
+    }
+
+    return messageIds
+      .map(messageId => messagesBySourceId.get(messageId))
+      .filter((message): message is Message => message !== undefined);
+  }
+
+  /**
+   * Group messages into conversations by thread, oldest message first
+   */
+  private groupByThread(messages: Message[]): Conversation[] {
+    const conversations: Conversation[] = [];
+    const conversationsByThread = new Map<string, Conversation>();
+    const sortedMessages = [...messages].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    for (const message of sortedMessages) {
+      if (!message.thread_id) {
+        conversations.push({ messages: [message] });
+        continue;
+      }
+
+      let conversation = conversationsByThread.get(message.thread_id);
+      if (!conversation) {
+        conversation = { threadId: message.thread_id, messages: [] };
+        conversationsByThread.set(message.thread_id, conversation);
+        conversations.push(conversation);
+      }
+      conversation.messages.push(message);
+    }
+
+    return conversations;
+  }
+
+  /**
+   * The content tasks are extracted from: one message, or several new messages of a
+   * conversation, each with its sender
+   */
+  private formatMessagesForAI(messages: Message[]): string {
+    if (messages.length === 1) {
+      return this.truncateForAI(this.cleanEmailContent(messages[0].content, messages[0].subject), 800); // Limit to 800 chars per message
+    }
+
+    return messages
+      .map(message => `${message.sender || 'Unknown sender'}: ${this.truncateForAI(this.cleanEmailContent(message.content, message.subject), 180)}`)
+      .join('\n');
+  }
+
+  /**
+   * The part of a conversation before the messages being extracted from, as context for the
+   * model. Sources that can fetch whole threads (Gmail) also return the user's own replies;
+   * for the others the stored messages of the thread are used.
+   */
+  private async getThreadContext(
+    integrationId: string,
+    messageSource: MessageSource,
+    conversation: Conversation,
+    includedMessages: Message[]
+  ): Promise<string | undefined> {
+    if (!conversation.threadId) return undefined;
+
+    const includedIds = new Set(includedMessages.map(message => message.source_id));
+    const firstIncludedAt = new Date(includedMessages[0].timestamp).getTime();
+
+    let earlierMessages: { sender?: string; subject?: string; content: string }[];
+    try {
+      if (messageSource.getThread) {
+        earlierMessages = (await messageSource.getThread(conversation.threadId))
+          .filter(message => !includedIds.has(message.id) && new Date(message.receivedAt).getTime() <= firstIncludedAt);
+      } else {
+        earlierMessages = (await this.databaseService.findMessagesByThreadId(integrationId, conversation.threadId))
+          .filter(message => !includedIds.has(message.source_id) && new Date(message.timestamp).getTime() <= firstIncludedAt);
+      }
+    } catch (error) {
+      console.warn(`⚠️ [DEBUG] Could not load conversation ${conversation.threadId}, extracting without context:`, error);
+      return undefined;
+    }
+
+    if (earlierMessages.length === 0) return undefined;
+
+    return earlierMessages
+      .slice(-THREAD_CONTEXT_MESSAGES)
+      .map(message => `${message.sender || 'Unknown sender'}: ${this.truncateForAI(this.cleanEmailContent(message.content, message.subject), 300)}`)
+      .join('\n');
+  }
+
+  /**
+   * Apply a task extracted again from a later message of its conversation, and link it to
+   * that message. Suggestions take the new description, priority and due date; accepted
+   * tasks keep the user's version and only gain a due date if they had none. A new due date
+   * replaces the due time and phrase of the old one.
+   */
+  private async updateThreadTask(
+    task: Task,
+    integration: Integration,
+    message: Message,
+    extracted: Pick<ThreadTaskUpdates, 'description' | 'priority' | 'confidence'> & ResolvedDueDate
+  ): Promise<void> {
+    const isSuggestion = task.review_status === 'suggested';
+
+    await this.databaseService.updateTaskFromThread(task.id, {
+      ...(isSuggestion ? { description: extracted.description, priority: extracted.priority, confidence: extracted.confidence } : {}),
+      ...(extracted.due_date && (isSuggestion || !task.due_date)
+        ? { due_date: extracted.due_date, due_at: extracted.due_at ?? null, due_phrase: extracted.due_phrase ?? null }
+        : {}),
+      source_id: message.source_id,
+      source_url: message.url,
+      message_id: message.id,
+      email_received_at: message.timestamp,
+      email_sender: message.sender,
+      email_subject: message.subject,
+      email_recipients: message.recipients,
+    });
+    await this.databaseService.addTaskSource(this.toTaskSource(task.id, integration, message));
+  }
+
+  private toTaskSource(taskId: string, integration: Integration, message: Message): Omit<TaskSource, 'id' | 'created_at'> {
+    return {
+      task_id: taskId,
+      message_id: message.id,
+      integration_id: integration.id,
+      source: message.source,
+      source_id: message.source_id,
+      source_url: message.url,
+      account_email: integration.account_email,
+      email_sender: message.sender,
+      email_subject: message.subject,
+      email_received_at: message.timestamp,
+    };
+  }
+
+  /**
+   * Record a failed extraction; the message is retried until config.ai.maxParseAttempts is reached
+   */
+  private async recordParseFailure(userId: string, integrationId: string, messageId: string, error: string): Promise<void> {
+    await this.databaseService.createParsedMessage({
+      user_id: userId,
+      integration_id: integrationId,
+      gmail_message_id: messageId,
+      tasks_extracted: 0,
+      status: 'failed',
+      error,
+    });
+  }
+
+  private async saveSyncCursor(integration: Integration, cursorKey: string, cursor: SyncCursor): Promise<void> {
+    if (!cursor || JSON.stringify(integration.metadata?.[cursorKey]) === JSON.stringify(cursor)) {
+      return;
+    }
+
+    // Re-read so metadata written since this run started isn't overwritten
+    const latest = await this.databaseService.findIntegrationById(integration.id);
+    await this.databaseService.updateIntegration(integration.id, {
+      metadata: {
+        ...(latest?.metadata || integration.metadata),
+        [cursorKey]: cursor,
+      },
+    });
+  }
+
+  /**
+   * The new text of a message for the model: quoted replies and signatures are dropped, and
+   * forwarded originals kept (see extractReplyText). Whitespace within lines is collapsed.
+   */
+  private cleanEmailContent(content: string, subject?: string): string {
     if (!content) return '';
-    
-    // Remove common email clutter
-    let cleaned = content
-      .replace(/--\s*\n[\s\S]*$/g, '') // Remove signature blocks
-      .replace(/On .* wrote:/g, '') // Remove reply headers
-      .replace(/From:.*\n/g, '') // Remove From headers
-      .replace(/Sent:.*\n/g, '') // Remove Sent headers
-      .replace(/To:.*\n/g, '') // Remove To headers
-      .replace(/Subject:.*\n/g, '') // Remove Subject headers
-      .replace(/Date:.*\n/g, '') // Remove Date headers
-      .replace(/This email.*\n/g, '') // Remove email disclaimers
-      .replace(/Confidential.*\n/g, '') // Remove confidentiality notices
-      .replace(/Please.*\n.*recycle/g, '') // Remove recycling notices
-      .replace(/\[.*\]/g, '') // Remove bracketed content
-      .replace(/<[^>]*>/g, '') // Remove HTML tags
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
-    
-    // Remove excessive punctuation and formatting
-    cleaned = cleaned
-      .replace(/[=]{3,}/g, '') // Remove separator lines
-      .replace(/[-]{3,}/g, '') // Remove dashes
-      .replace(/[.]{3,}/g, '') // Remove excessive dots
-      .replace(/\n{3,}/g, '\n\n') // Limit consecutive newlines
+
+    return extractReplyText(content, subject)
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n /g, '\n')
       .trim();
-    
-    return cleaned;
   }
 
   private truncateForAI(content: string, maxLength: number): string {
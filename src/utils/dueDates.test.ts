@@ -0,0 +1,41 @@
+import { resolveDueDate } from './dueDates';
+
+// Monday 2026-10-19 09:30 in Berlin
+const SENT_AT = new Date('2026-10-19T07:30:00Z');
+const TIMEZONE = 'Europe/Berlin';
+
+describe('resolveDueDate', () => {
+  it('resolves date phrases against the day the message was sent', () => {
+    expect(resolveDueDate({ phrase: 'by tomorrow', date: '2026-11-01' }, SENT_AT, TIMEZONE)).toEqual({
+      due_date: '2026-10-20',
+      due_at: undefined,
+      due_phrase: 'by tomorrow',
+    });
+  });
+
+  it('gives a phrase with a time of day an exact moment', () => {
+    expect(resolveDueDate({ phrase: 'by 3pm next Friday' }, SENT_AT, TIMEZONE)).toEqual({
+      due_date: '2026-10-30',
+      due_at: '2026-10-30T14:00:00.000Z',
+      due_phrase: 'by 3pm next Friday',
+    });
+  });
+
+  it('keeps the model date when the phrase is more than a date', () => {
+    expect(resolveDueDate({ phrase: 'decide 2 options', date: '2026-10-23' }, SENT_AT, TIMEZONE).due_date).toBe('2026-10-23');
+    expect(resolveDueDate({ phrase: 'decide 2 options' }, SENT_AT, TIMEZONE)).toEqual({ due_phrase: 'decide 2 options' });
+    expect(resolveDueDate({ phrase: 'call Bob tomorrow', date: '2026-10-21' }, SENT_AT, TIMEZONE).due_date).toBe('2026-10-21');
+  });
+
+  it('leaves end-of-period phrases to the model', () => {
+    expect(resolveDueDate({ phrase: 'end of next week', date: '2026-10-30', allDay: true }, SENT_AT, TIMEZONE).due_date).toBe('2026-10-30');
+  });
+
+  it('puts a time without a date on the send day', () => {
+    expect(resolveDueDate({ phrase: 'by 5pm' }, SENT_AT, TIMEZONE)).toEqual({
+      due_date: '2026-10-19',
+      due_at: '2026-10-19T15:00:00.000Z',
+      due_phrase: 'by 5pm',
+    });
+  });
+});
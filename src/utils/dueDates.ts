@@ -0,0 +1,119 @@
+/**
+ * Due dates extracted from messages, resolved in the user's timezone. Relative deadlines
+ * ("tomorrow", "next Friday") count from the day the message was sent there, not from when
+ * it is parsed, and a time of day ("by 3pm") makes the deadline an exact moment.
+ */
+
+import { DueDate } from '../ai/interfaces/IAIProvider';
+import { extractTimeOfDay, resolveDatePhrase } from './quickAdd';
+
+// Users who haven't set a timezone
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export interface ResolvedDueDate {
+  due_date?: string; // YYYY-MM-DD in the user's timezone
+  due_at?: string; // ISO timestamp, only when a time of day is known
+  due_phrase?: string;
+}
+
+interface LocalDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  weekday: string;
+}
+
+// "End of next week" is the start of the week to the quick-add rules, so such phrases are left to the model
+const END_OF_PERIOD_PATTERN = /\bend\s+of\b/i;
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toLocalDateTime(at: Date, timezone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'long',
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+    weekday: part('weekday'),
+  };
+}
+
+/**
+ * When a message was sent, as the model is shown it: "Friday 2025-09-12 09:30 (Europe/Berlin)"
+ */
+export function describeSendTime(sentAt: Date, timezone: string): string {
+  const local = toLocalDateTime(sentAt, timezone);
+  return `${local.weekday} ${local.date} ${local.time} (${timezone})`;
+}
+
+/**
+ * The instant a wall-clock date and time in a timezone refers to
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const [hour, minute] = time.split(':').map(part => parseInt(part, 10));
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The zone's offset is looked up twice: the first guess can land on the other side of a DST change
+  let instant = wallClock - offsetAt(wallClock, timezone);
+  instant = wallClock - offsetAt(instant, timezone);
+  return new Date(instant);
+}
+
+function offsetAt(instant: number, timezone: string): number {
+  const local = toLocalDateTime(new Date(instant), timezone);
+  const [year, month, day] = local.date.split('-').map(part => parseInt(part, 10));
+  const [hour, minute] = local.time.split(':').map(part => parseInt(part, 10));
+  return Date.UTC(year, month - 1, day, hour, minute) - (instant - (instant % 60000));
+}
+
+function isCalendarDate(date: string | undefined): date is string {
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+}
+
+/**
+ * Resolve a deadline the model read from a message sent at `sentAt`. A phrase that is only a
+ * date and time ("by 3pm next Friday") is resolved with the quick-add rules, since small
+ * models get weekday arithmetic wrong; otherwise the model's date stands. A time without a
+ * date ("by 5pm") is on the day the message was sent.
+ */
+export function resolveDueDate(due: DueDate | undefined, sentAt: Date, timezone: string): ResolvedDueDate {
+  if (!due) return {};
+
+  const sent = toLocalDateTime(sentAt, timezone);
+  const phrase = due.phrase?.trim() || undefined;
+
+  const phraseTime = phrase ? extractTimeOfDay(phrase) : undefined;
+  const phraseDate = phraseTime && !END_OF_PERIOD_PATTERN.test(phraseTime.text) ? resolveDatePhrase(phraseTime.text, sent.date) : undefined;
+  const time = phraseTime?.time || (due.allDay ? undefined : due.time);
+  const date = phraseDate || (isCalendarDate(due.date) ? due.date : undefined) || (time ? sent.date : undefined);
+
+  if (!date) {
+    return { due_phrase: phrase };
+  }
+
+  return {
+    due_date: date,
+    due_at: time ? zonedTimeToUtc(date, time, timezone).toISOString() : undefined,
+    due_phrase: phrase,
+  };
+}
@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import { decodeText, extractMimeText, extractReplyText, findForwardedMessage, getMimeHeader, htmlToText, parseMimeMessage } from './emailContent';
+
+const FIXTURES = path.join(__dirname, '__fixtures__', 'emails');
+
+// The body text of a fixture, and the part of it that goes to the model
+function readFixture(name: string): { subject?: string; text: string; reply: string } {
+  const message = parseMimeMessage(fs.readFileSync(path.join(FIXTURES, name)));
+  const subject = getMimeHeader(message, 'Subject');
+  const text = extractMimeText(message).trim();
+  return { subject, text, reply: extractReplyText(text, subject) };
+}
+
+describe('MIME parsing', () => {
+  it('reads the plain text alternative nested in mixed and related parts, without attachments', () => {
+    expect(readFixture('nested-alternative.eml').text).toBe(
+      'Hi Bob,\n\nPlease review the attached budget by Friday.\n\nThanks,\nAnn'
+    );
+  });
+
+  it('decodes quoted-printable ISO-8859-1 bodies and encoded-word headers', () => {
+    const { subject, text } = readFixture('latin1-quoted-printable.eml');
+    expect(subject).toBe('Reçu du café');
+    expect(text).toBe(
+      'Bonjour Claire,\n\n' +
+      "Pourriez-vous envoyer le reçu du café avant jeudi ? Le montant est de 42 EUR et il faut l'envoyer à la comptabilité très rapidement, merci beaucoup.\n\n" +
+      'Cordialement,\nJosé'
+    );
+  });
+
+  it('decodes base64 parts in their own charsets', () => {
+    const { subject, text } = readFixture('base64-charsets.eml');
+    expect(subject).toBe('Отчёт');
+    expect(text).toBe(
+      'Привет, Иван!\n\nПодготовь, пожалуйста, отчёт к понедельнику.\n\n会議の資料を水曜日までに送ってください。'
+    );
+  });
+
+  it('converts HTML-only mail to text with lists, link text and short URLs', () => {
+    expect(readFixture('html-only.eml').text).toBe(
+      'Hi team,\n\n' +
+      'Here’s what we need before the “launch”:\n\n' +
+      '- Update the pricing page <https://docs.example.com/pricing>\n' +
+      '- Sign the vendor contract & return it\n' +
+      '- Plan the demo:\n' +
+      '  1. Write the script\n' +
+      '  2. Record it\n\n' +
+      'Questions? Mail ops@example.com.\n\n' +
+      'Owner Due\nDana Thu'
+    );
+  });
+
+  it('reads Gmail payloads, whose parts are already transfer decoded', () => {
+    const data = (text: string, encoding: BufferEncoding = 'utf8') => Buffer.from(text, encoding).toString('base64url');
+    expect(extractMimeText({
+      mimeType: 'multipart/alternative',
+      parts: [
+        { mimeType: 'text/plain', body: { data: data('   ') } },
+        { mimeType: 'text/html', headers: [{ name: 'Content-Type', value: 'text/html; charset=iso-8859-1' }], body: { data: data('<p>Caf\xe9 at <b>3pm</b></p>', 'latin1') } },
+      ],
+    })).toBe('Café at 3pm');
+  });
+});
+
+describe('reply text', () => {
+  it('drops the quoted message, quoted lines and the signature of a plain-text reply', () => {
+    expect(readFixture('reply-with-signature.eml').reply).toBe(
+      "Sure, I'll send my comments by Thursday.\n\nBooked it for 10am."
+    );
+  });
+
+  it('drops the quoted message below an Outlook reply header', () => {
+    expect(readFixture('outlook-reply.eml').reply).toBe('Paid, thanks. Please send the receipt to accounts.');
+  });
+
+  it('keeps the text of a message that is only a quote', () => {
+    expect(extractReplyText('> Can you send the report?')).toBe('> Can you send the report?');
+  });
+});
+
+describe('forwarded messages', () => {
+  it('keeps the original of an inline forward below the note, without its signature', () => {
+    const { subject, text, reply } = readFixture('forwarded-inline.eml');
+    expect(findForwardedMessage(text, subject)).toEqual({
+      note: 'Bob, can you handle this one?',
+      from: 'Vendor Sales <sales@vendor.example>',
+      date: 'Fri, Oct 16, 2026 at 4:12 PM',
+      subject: 'Contract renewal',
+      body: 'Hi Ann,\n\nPlease sign and return the renewal by October 31.\n\nBest,\nVendor Sales',
+    });
+    expect(reply).toBe(
+      'Bob, can you handle this one?\n\n' +
+      '---------- Forwarded message ---------\n' +
+      'From: Vendor Sales <sales@vendor.example>\n' +
+      'Date: Fri, Oct 16, 2026 at 4:12 PM\n' +
+      'Subject: Contract renewal\n\n' +
+      'Hi Ann,\n\nPlease sign and return the renewal by October 31.\n\nBest,\nVendor Sales'
+    );
+  });
+
+  it('writes out a message attached as message/rfc822 as a forward', () => {
+    const { subject, text } = readFixture('forwarded-attachment.eml');
+    expect(findForwardedMessage(text, subject)).toEqual({
+      note: 'See below, please reply to Jonas.',
+      from: 'Jonas Müller <jonas@example.de>',
+      date: 'Thu, 15 Oct 2026 11:00:00 +0200',
+      subject: 'Rückfrage zur Rechnung',
+      body: 'Hallo Ann,\n\nkönnten Sie mir die Rechnung bis Freitag schicken?',
+    });
+  });
+
+  it('treats an Outlook header block as a forward only when the subject says so', () => {
+    const text = 'Please handle this.\n\n________________________________\nFrom: Carol <carol@example.com>\nSent: Monday, October 19, 2026 9:00 AM\nSubject: Invoice\n\nPlease pay invoice 42.';
+    expect(findForwardedMessage(text, 'RE: Invoice')).toBeNull();
+    expect(findForwardedMessage(text, 'FW: Invoice')?.body).toBe('Please pay invoice 42.');
+  });
+
+  it('unquotes Apple Mail forwards', () => {
+    const text = 'Begin forwarded message:\n\n> From: Carol <carol@example.com>\n> Subject: Invoice\n> Date: 19 October 2026\n>\n> Please pay invoice 42.';
+    expect(findForwardedMessage(text, 'Fwd: Invoice')).toEqual({
+      note: '',
+      from: 'Carol <carol@example.com>',
+      date: '19 October 2026',
+      subject: 'Invoice',
+      body: 'Please pay invoice 42.',
+    });
+  });
+});
+
+describe('htmlToText', () => {
+  it('quotes blockquotes and skips styles, comments and hidden elements', () => {
+    expect(htmlToText('<style>p{}</style><!-- x --><div style="display: none"><div>preview</div>text</div><p>Hi<br><br>there</p><blockquote>Earlier<br>message</blockquote>')).toBe(
+      'Hi\n\nthere\n\n> Earlier\n> message'
+    );
+  });
+});
+
+describe('decodeText', () => {
+  it('falls back to UTF-8 for unknown charsets', () => {
+    expect(decodeText(Buffer.from('héllo'), 'x-unknown')).toBe('héllo');
+    expect(decodeText(Buffer.from([0x80, 0x93, 0x94]), 'windows-1252')).toBe('€“”');
+  });
+});
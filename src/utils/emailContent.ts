@@ -0,0 +1,561 @@
+/**
+ * Readable text from email bodies: MIME parsing and charset decoding, HTML to text, and the
+ * part of a message that is new (without quoted replies and signatures). Forwarded messages
+ * are kept, with the original's sender, date and subject, since the request is usually in
+ * the original.
+ */
+
+// A node of a message's MIME tree, in the shape of Gmail's message payloads. Multipart and
+// attached message nodes have parts; the others have a body.
+export interface MimePart {
+  mimeType?: string;
+  filename?: string;
+  headers?: Array<{
+    name: string;
+    value: string; // Encoded words decoded
+  }>;
+  body?: {
+    data?: string; // Base64 of the content with its transfer encoding removed, in the charset of the Content-Type
+    attachmentId?: string;
+  };
+  parts?: MimePart[];
+}
+
+export interface ForwardedMessage {
+  note: string; // What the forwarder wrote above the original, if anything
+  from?: string;
+  date?: string;
+  subject?: string;
+  body: string;
+}
+
+// Written before an attached or inline forwarded message, like Gmail does
+const FORWARD_MARKER = '---------- Forwarded message ---------';
+
+// What an <hr> becomes; Outlook separates a reply from the quoted message with one
+const RULE_LINE = '________________________________';
+
+// Links whose URL is longer than this keep only their text (tracking links)
+const MAX_LINK_LENGTH = 100;
+
+const SKIPPED_TAGS = new Set(['head', 'title', 'style', 'script', 'noscript', 'template', 'svg']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'center', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'table', 'tr', 'ul',
+]);
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+// Blocks set off by a blank line rather than a line break
+const PARAGRAPH_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'blockquote', 'pre']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ensp: ' ', emsp: ' ', thinsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”',
+  bdquo: '„', laquo: '«', raquo: '»', bull: '•', middot: '·', copy: '©', reg: '®', trade: '™',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', deg: '°', times: '×', divide: '÷', para: '¶', sect: '§',
+  shy: '', zwnj: '', zwj: '', lrm: '', rlm: '',
+};
+
+// Comments, CDATA, doctypes, closing tags, opening tags (attribute values may contain ">"), text
+const HTML_TOKEN = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\/([a-zA-Z][\w:-]*)[^>]*>|<([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g;
+// Zero-width and soft hyphen characters, used to pad newsletter preheaders
+const INVISIBLE_CHARACTERS = /[\u200b-\u200d\u2060\ufeff\u034f\u00ad]/g;
+const HTML_ATTRIBUTE = /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+// Node's TextDecoder drops bytes 0x80-0x9f of windows-1252 and the labels that mean it (Latin-1
+// and ASCII are read as windows-1252, as browsers do), so those are decoded by hand
+const WINDOWS_1252_LABELS = new Set([
+  'windows-1252', 'cp1252', 'x-cp1252', 'iso-8859-1', 'iso8859-1', 'iso_8859-1', 'latin1', 'l1', 'cp819',
+  'ibm819', 'csisolatin1', 'us-ascii', 'ascii', 'ansi_x3.4-1968',
+]);
+const WINDOWS_1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+// "On Mon, 1 Sep 2025 at 10:00, Bob <bob@example.com> wrote:" and its translations
+const REPLY_HEADER = /^(On|Am|Le|El|Il|Op|Em)\s.*(wrote|schrieb|a écrit|escribió|ha scritto|schreef|escreveu)\s*:$/i;
+const ORIGINAL_MESSAGE = /^-{2,}\s*Original Message\s*-{2,}$/i;
+const FORWARD_HEADER = /^(-{2,}\s*Forwarded message\s*-{2,}|Begin forwarded message:?)$/i;
+const FORWARD_SUBJECT = /^\s*(fwd?|fw)\s*:/i;
+const HEADER_LINE = /^\*?(From|Sent|Date|To|Cc|Subject|Von|Gesendet|An|Betreff|De|Envoyé|À|Objet)\s*:\*?\s*(.*)$/i;
+const MOBILE_FOOTER = /^(Sent from my \S+|Sent from (Mail|Outlook|Yahoo Mail) for \S+|Get Outlook for (iOS|Android))/i;
+
+/**
+ * Decode body bytes in the charset of their Content-Type. Unknown charsets are read as UTF-8.
+ */
+export function decodeText(bytes: Buffer, charset?: string): string {
+  const label = (charset || 'utf-8').trim().replace(/^["']|["']$/g, '').toLowerCase();
+  if (WINDOWS_1252_LABELS.has(label)) {
+    return bytes.toString('latin1').replace(/[\x80-\x9f]/g, char => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80]);
+  }
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+/**
+ * The charset parameter of a Content-Type header value
+ */
+export function getCharset(contentType: string | undefined): string | undefined {
+  const match = contentType?.match(/charset\s*=\s*"?([^";\s]+)"?/i);
+  return match ? match[1] : undefined;
+}
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);?/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    const decoded = NAMED_ENTITIES[name.toLowerCase()];
+    return decoded !== undefined ? decoded : entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(HTML_ATTRIBUTE)) {
+    attributes[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+// "=?utf-8?Q?Caf=C3=A9?=" encoded words in header values (RFC 2047)
+export function decodeHeaderWords(value: string): string {
+  return value
+    .replace(/(=\?[^?\s]+\?[bq]\?[^?\s]*\?=)\s+(?==\?[^?\s]+\?[bq]\?)/gi, '$1')
+    .replace(/=\?([^?\s]+)\?([bq])\?([^?\s]*)\?=/gi, (_word, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toLowerCase() === 'b'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(text.replace(/_/g, ' ').replace(/=([0-9a-f]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+      return decodeText(bytes, charset.split('*')[0]);
+    });
+}
+
+function parseHeaderBlock(block: string): Array<{ name: string; value: string }> {
+  const headers: Array<{ name: string; value: string }> = [];
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    // Unencoded 8-bit header values are taken to be UTF-8
+    const raw = line.substring(separator + 1).trim();
+    const value = /[\x80-\xff]/.test(raw) ? Buffer.from(raw, 'latin1').toString('utf8') : raw;
+    headers.push({ name: line.substring(0, separator).trim(), value: decodeHeaderWords(value) });
+  }
+  return headers;
+}
+
+export function getMimeHeader(part: MimePart, name: string): string | undefined {
+  return part.headers?.find(header => header.name.toLowerCase() === name.toLowerCase())?.value;
+}
+
+// A structured header value such as `text/plain; charset="utf-8"`: the value and its parameters
+function parseParameterizedHeader(header: string): { value: string; params: Record<string, string> } {
+  const params: Record<string, string> = {};
+  for (const match of header.matchAll(/;\s*([^=;\s]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g)) {
+    let name = match[1].toLowerCase();
+    let value = match[2].trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1');
+
+    // RFC 2231 extended values: filename*=utf-8''na%C3%AFve.pdf
+    if (name.endsWith('*')) {
+      name = name.slice(0, -1);
+      const [charset, , encoded] = value.split("'");
+      if (encoded !== undefined) {
+        value = decodeText(Buffer.from(encoded.replace(/%([0-9a-f]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1'), charset);
+      }
+    }
+    params[name] = value;
+  }
+  return { value: header.split(';')[0].trim(), params };
+}
+
+function decodeTransferEncoding(body: string, encoding: string | undefined): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/[ \t]+$/gm, '')
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9a-f]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      );
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+// The bodies between the boundary lines of a multipart body. A message cut short keeps the
+// part it ends in.
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === delimiter || trimmed === `${delimiter}--`) {
+      if (current) parts.push(current.join('\n'));
+      if (trimmed !== delimiter) return parts;
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  if (current) parts.push(current.join('\n'));
+  return parts;
+}
+
+function parseMimeEntity(source: string): MimePart {
+  const separator = /^\r?\n|\r?\n\r?\n/.exec(source);
+  const headers = parseHeaderBlock(separator ? source.substring(0, separator.index) : source);
+  const body = separator ? source.substring(separator.index + separator[0].length) : '';
+
+  const part: MimePart = { headers };
+  const contentType = parseParameterizedHeader(getMimeHeader(part, 'Content-Type') || 'text/plain');
+  const disposition = parseParameterizedHeader(getMimeHeader(part, 'Content-Disposition') || '');
+  part.mimeType = contentType.value.toLowerCase();
+  part.filename = disposition.params.filename || contentType.params.name || '';
+
+  if (part.mimeType.startsWith('multipart/') && contentType.params.boundary) {
+    part.parts = splitMultipart(body, contentType.params.boundary).map(parseMimeEntity);
+  } else if (part.mimeType === 'message/rfc822') {
+    part.parts = [parseMimeEntity(body)];
+  } else {
+    part.body = { data: decodeTransferEncoding(body, getMimeHeader(part, 'Content-Transfer-Encoding')).toString('base64') };
+  }
+  return part;
+}
+
+/**
+ * Parse a raw RFC 822 message (as fetched over IMAP, or an .eml file) into its MIME tree,
+ * with transfer encodings removed
+ */
+export function parseMimeMessage(raw: Buffer | string): MimePart {
+  // Latin-1 keeps every byte as one character, so 8-bit bodies survive until they are decoded
+  return parseMimeEntity(typeof raw === 'string' ? raw : raw.toString('latin1'));
+}
+
+/**
+ * The readable text of a MIME part, from any depth of nesting. Alternatives use the plain
+ * text version when it has any text, else the richest one; mixed and related parts join
+ * their inline text parts. Attached messages are written out as forwarded messages.
+ */
+export function extractMimeText(part: MimePart): string {
+  const mimeType = (part.mimeType || '').toLowerCase();
+  const isAttachment = !!part.filename || /^attachment/i.test(getMimeHeader(part, 'Content-Disposition') || '');
+  if (isAttachment && mimeType !== 'message/rfc822') {
+    return '';
+  }
+
+  if (mimeType === 'multipart/alternative') {
+    const alternatives = (part.parts || []).map(child => ({
+      mimeType: (child.mimeType || '').toLowerCase(),
+      text: extractMimeText(child).trim(),
+    }));
+    const plain = alternatives.find(alternative => alternative.mimeType === 'text/plain' && alternative.text);
+    return plain?.text || alternatives.reverse().find(alternative => alternative.text)?.text || '';
+  }
+
+  if (mimeType === 'message/rfc822') {
+    // The attached message's own headers are on its top part
+    const inner = part.parts?.[0];
+    const header = (name: string) => (inner && getMimeHeader(inner, name)) || getMimeHeader(part, name);
+    const lines = [
+      FORWARD_MARKER,
+      header('From') && `From: ${header('From')}`,
+      header('Date') && `Date: ${header('Date')}`,
+      header('Subject') && `Subject: ${header('Subject')}`,
+    ].filter(Boolean);
+    const body = (part.parts || []).map(child => extractMimeText(child).trim()).filter(Boolean).join('\n\n');
+    return `${lines.join('\n')}\n\n${body}`;
+  }
+
+  if (mimeType.startsWith('multipart/') || part.parts?.length) {
+    return (part.parts || []).map(child => extractMimeText(child).trim()).filter(Boolean).join('\n\n');
+  }
+
+  if ((mimeType === 'text/plain' || mimeType === 'text/html') && part.body?.data) {
+    const text = decodeText(Buffer.from(part.body.data, 'base64'), getCharset(getMimeHeader(part, 'Content-Type')));
+    return mimeType === 'text/html' ? htmlToText(text) : text.replace(/\r\n?/g, '\n');
+  }
+
+  return '';
+}
+
+/**
+ * Convert an HTML body to plain text. Paragraphs and line breaks are kept, list items get
+ * "-" or their number, links keep their text (and short URLs), and blockquotes are quoted
+ * with ">" like in plain-text mail. Styles, scripts and hidden elements (preheaders) go.
+ */
+export function htmlToText(html: string): string {
+  const lines: string[] = [];
+  let line = '';
+  let lineStarted = false;
+  let pendingBreak: 0 | 1 | 2 = 0; // Line break, or blank line, before the next text
+  let quoteDepth = 0;
+  let preDepth = 0;
+  let skipping: { tag: string; depth: number } | null = null; // Inside a skipped or hidden element
+  const lists: { ordered: boolean; index: number }[] = [];
+  const links: { href: string; text: string }[] = [];
+
+  const endLine = () => {
+    lines.push(line.trimEnd());
+    line = '';
+    lineStarted = false;
+  };
+
+  const requestBreak = (size: 1 | 2) => {
+    if (lineStarted) {
+      pendingBreak = Math.max(pendingBreak, size) as 1 | 2;
+    } else if (lines.length > 0 && size === 2) {
+      pendingBreak = 2;
+    }
+  };
+
+  const startLine = () => {
+    if (pendingBreak) {
+      if (lineStarted) endLine();
+      if (pendingBreak === 2 && lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+      pendingBreak = 0;
+    }
+    if (!lineStarted) {
+      line = '> '.repeat(quoteDepth);
+      lineStarted = true;
+      return true;
+    }
+    return false;
+  };
+
+  const write = (text: string) => {
+    if (!preDepth) {
+      text = text.replace(/\s+/g, ' ');
+      if ((!lineStarted || pendingBreak || line.endsWith(' ')) && text.startsWith(' ')) text = text.substring(1);
+    }
+    if (!text) return;
+
+    if (preDepth && text.includes('\n')) {
+      const [first, ...rest] = text.split('\n');
+      write(first);
+      for (const part of rest) {
+        pendingBreak = Math.max(pendingBreak, 1) as 1 | 2;
+        if (!lineStarted) startLine();
+        write(part);
+      }
+      return;
+    }
+
+    if (startLine() && !preDepth) text = text.trimStart();
+    line += text;
+    for (const link of links) link.text += text;
+  };
+
+  for (const token of html.matchAll(HTML_TOKEN)) {
+    const [raw, cdata, closingTag, openingTag, attributeSource] = token;
+
+    if (skipping) {
+      if (openingTag?.toLowerCase() === skipping.tag && !raw.endsWith('/>')) skipping.depth++;
+      if (closingTag?.toLowerCase() === skipping.tag && --skipping.depth === 0) skipping = null;
+      continue;
+    }
+
+    if (cdata !== undefined) {
+      write(cdata);
+    } else if (closingTag) {
+      const tag = closingTag.toLowerCase();
+      if (tag === 'a') {
+        const link = links.pop();
+        const text = link?.text.trim() || '';
+        const bareUrl = link?.href.replace(/^https?:\/\//i, '').replace(/\/$/, '');
+        if (link && bareUrl && /^https?:\/\//i.test(link.href) && link.href.length <= MAX_LINK_LENGTH && text && !text.includes(bareUrl)) {
+          write(` <${link.href}>`);
+        }
+      } else if (tag === 'ul' || tag === 'ol') {
+        lists.pop();
+        requestBreak(lists.length > 0 ? 1 : 2);
+      } else if (tag === 'blockquote') {
+        requestBreak(2);
+        quoteDepth = Math.max(0, quoteDepth - 1);
+      } else if (tag === 'pre') {
+        preDepth = Math.max(0, preDepth - 1);
+        requestBreak(2);
+      } else if (tag === 'li') {
+        requestBreak(1);
+      } else if (BLOCK_TAGS.has(tag)) {
+        requestBreak(PARAGRAPH_TAGS.has(tag) ? 2 : 1);
+      }
+    } else if (openingTag) {
+      const tag = openingTag.toLowerCase();
+      const selfClosing = raw.endsWith('/>');
+
+      const hidden = /display\s*:\s*none/i.test(parseAttributes(attributeSource || '').style || '');
+
+      if (SKIPPED_TAGS.has(tag) || hidden) {
+        if (!selfClosing && !VOID_TAGS.has(tag)) skipping = { tag, depth: 1 };
+      } else if (tag === 'br') {
+        // A second <br> in a row starts an empty line
+        if (!lineStarted || pendingBreak) startLine();
+        pendingBreak = 1;
+      } else if (tag === 'hr') {
+        requestBreak(1);
+        write(RULE_LINE);
+        requestBreak(1);
+      } else if (tag === 'a') {
+        links.push({ href: parseAttributes(attributeSource || '').href || '', text: '' });
+      } else if (tag === 'img') {
+        const alt = parseAttributes(attributeSource || '').alt;
+        if (alt) write(` ${alt} `);
+      } else if (tag === 'td' || tag === 'th') {
+        if (lineStarted && !pendingBreak) write(' ');
+      } else if (tag === 'ul' || tag === 'ol') {
+        requestBreak(lists.length > 0 ? 1 : 2);
+        lists.push({ ordered: tag === 'ol', index: 0 });
+      } else if (tag === 'li') {
+        const list = lists[lists.length - 1];
+        requestBreak(1);
+        startLine();
+        line += '  '.repeat(Math.max(0, lists.length - 1)) + (list?.ordered ? `${++list.index}. ` : '- ');
+      } else if (tag === 'blockquote') {
+        requestBreak(2);
+        quoteDepth++;
+      } else if (tag === 'pre') {
+        requestBreak(2);
+        preDepth++;
+      } else if (BLOCK_TAGS.has(tag)) {
+        requestBreak(PARAGRAPH_TAGS.has(tag) ? 2 : 1);
+      }
+    } else if (!raw.startsWith('<!')) {
+      // Text, and stray "<" characters that don't start a tag
+      write(decodeHtmlEntities(raw).replace(INVISIBLE_CHARACTERS, ''));
+    }
+  }
+  if (lineStarted) endLine();
+
+  return normalizeText(lines.join('\n'));
+}
+
+// Trailing spaces and runs of blank lines removed
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function isRuleLine(line: string): boolean {
+  return /^_{10,}$/.test(line) || /^-{10,}$/.test(line);
+}
+
+// Whether a header block ("From: ...", then "Sent:" or "Date:") starts at this line
+function startsHeaderBlock(lines: string[], index: number): boolean {
+  const from = lines[index]?.match(HEADER_LINE);
+  if (!from || !/^(from|von|de)$/i.test(from[1])) return false;
+  return lines.slice(index + 1, index + 4).some(next => /^(sent|date|gesendet|envoyé)$/i.test(next.match(HEADER_LINE)?.[1] || ''));
+}
+
+/**
+ * Where the quoted earlier message starts: its header ("On ... wrote:", "-----Original
+ * Message-----", an Outlook "From:/Sent:" block) or forward marker. Returns the line
+ * index and whether the header introduces a forwarded message.
+ */
+function findQuoteStart(lines: string[]): { index: number; headerEnd: number; forwarded: boolean } | null {
+  const trimmed = lines.map(line => line.trim());
+
+  for (let i = 0; i < trimmed.length; i++) {
+    const line = trimmed[i];
+    const unquoted = line.replace(/^(>\s?)+/, '');
+
+    if (FORWARD_HEADER.test(unquoted)) {
+      return { index: i, headerEnd: i + 1, forwarded: true };
+    }
+    if (ORIGINAL_MESSAGE.test(unquoted)) {
+      return { index: i, headerEnd: i + 1, forwarded: false };
+    }
+    // Gmail wraps long reply headers: "On Mon, ... Bob <" / "bob@example.com> wrote:"
+    if (REPLY_HEADER.test(line)) {
+      return { index: i, headerEnd: i + 1, forwarded: false };
+    }
+    if (/^(On|Am|Le|El|Il|Op|Em)\s/i.test(line) && REPLY_HEADER.test(`${line} ${trimmed[i + 1] || ''}`)) {
+      return { index: i, headerEnd: i + 2, forwarded: false };
+    }
+    if (isRuleLine(line) && startsHeaderBlock(trimmed, i + 1)) {
+      return { index: i, headerEnd: i + 1, forwarded: false };
+    }
+    if (startsHeaderBlock(trimmed, i)) {
+      return { index: i, headerEnd: i, forwarded: false };
+    }
+  }
+  return null;
+}
+
+// Drop the signature: everything from a "-- " delimiter line, and phone client footers
+function stripSignature(lines: string[]): string[] {
+  const delimiter = lines.findIndex(line => line === '-- ' || line === '--');
+  const body = delimiter >= 0 ? lines.slice(0, delimiter) : lines;
+  return body.filter(line => !MOBILE_FOOTER.test(line.trim()));
+}
+
+/**
+ * The original of a forwarded message: after a forward marker, or (when the subject says
+ * Fwd/FW) after the first quoted header block. Null if the message isn't a forward.
+ */
+export function findForwardedMessage(text: string, subject?: string): ForwardedMessage | null {
+  const lines = normalizeText(text).split('\n');
+  const start = findQuoteStart(lines);
+  if (!start || (!start.forwarded && !FORWARD_SUBJECT.test(subject || ''))) return null;
+
+  const forwarded: ForwardedMessage = {
+    note: normalizeText(stripSignature(lines.slice(0, start.index)).join('\n')),
+    body: '',
+  };
+
+  // The original's headers run until the first blank line
+  let i = start.headerEnd;
+  while (i < lines.length && !lines[i].trim()) i++;
+  for (; i < lines.length && lines[i].trim(); i++) {
+    const header = lines[i].trim().replace(/^(>\s?)+/, '').match(HEADER_LINE);
+    if (!header) break;
+    const name = header[1].toLowerCase();
+    if (['from', 'von', 'de'].includes(name)) forwarded.from = header[2].trim();
+    else if (['date', 'sent', 'gesendet', 'envoyé'].includes(name)) forwarded.date = header[2].trim();
+    else if (['subject', 'betreff', 'objet'].includes(name)) forwarded.subject = header[2].trim();
+  }
+
+  // Apple Mail quotes the forwarded message
+  const original = lines.slice(i);
+  const quoted = original.filter(line => line.trim()).every(line => line.startsWith('>'));
+  forwarded.body = extractReplyText(quoted ? original.map(line => line.replace(/^>\s?/, '')).join('\n') : original.join('\n'));
+  return forwarded;
+}
+
+/**
+ * The new part of a message for task extraction: without the quoted message it replies to,
+ * quoted lines of inline replies and the signature. A forwarded original is kept, after the
+ * forwarder's note, as it usually holds the request.
+ */
+export function extractReplyText(text: string, subject?: string): string {
+  const forwarded = findForwardedMessage(text, subject);
+  if (forwarded) {
+    const header = [
+      FORWARD_MARKER,
+      forwarded.from && `From: ${forwarded.from}`,
+      forwarded.date && `Date: ${forwarded.date}`,
+      forwarded.subject && `Subject: ${forwarded.subject}`,
+    ].filter(Boolean).join('\n');
+    return normalizeText([forwarded.note, `${header}\n\n${forwarded.body}`].filter(Boolean).join('\n\n'));
+  }
+
+  let lines = normalizeText(text).split('\n');
+  const start = findQuoteStart(lines);
+  if (start) {
+    lines = lines.slice(0, start.index);
+  }
+
+  const reply = normalizeText(stripSignature(lines.filter(line => !line.startsWith('>'))).join('\n'));
+  // A message that is nothing but quotes keeps its text
+  return reply || normalizeText(text);
+}
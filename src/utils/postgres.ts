@@ -1,4 +1,8 @@
-import { Pool, Client } from 'pg';
+import { Pool, Client, types } from 'pg';
+
+// DATE columns (due dates) are calendar days, not instants: keep them as YYYY-MM-DD instead of
+// a Date at midnight in the server's timezone, which shifts the day once serialized
+types.setTypeParser(types.builtins.DATE, (value: string) => value);
 
 const pool = new Pool({
   host: process.env.DATABASE_HOST || 'post-db.local',
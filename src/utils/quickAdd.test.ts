@@ -0,0 +1,66 @@
+import { parseQuickAdd, resolveDatePhrase } from './quickAdd';
+
+// A Monday
+const TODAY = '2026-10-19';
+
+describe('parseQuickAdd', () => {
+  it('reads relative dates and a trailing priority', () => {
+    expect(parseQuickAdd('Call Bob tomorrow 3pm high', TODAY)).toEqual({
+      title: 'Call Bob',
+      dueDate: '2026-10-20',
+      dueTime: '15:00',
+      priority: 'HIGH',
+    });
+    expect(parseQuickAdd('Send report by next friday', TODAY).dueDate).toBe('2026-10-30');
+    expect(parseQuickAdd('Renew passport in 2 weeks', TODAY).dueDate).toBe('2026-11-02');
+  });
+
+  it('reads a time of day into the due time', () => {
+    expect(parseQuickAdd('Lunch with Ann friday at 12:30', TODAY)).toEqual({
+      title: 'Lunch with Ann',
+      dueDate: '2026-10-23',
+      dueTime: '12:30',
+      priority: undefined,
+    });
+    expect(parseQuickAdd('Pay rent dec 2 noon', TODAY)).toMatchObject({ title: 'Pay rent', dueDate: '2026-12-02', dueTime: '12:00' });
+    expect(parseQuickAdd('Standup 9:15am p2', TODAY)).toEqual({ title: 'Standup', dueDate: TODAY, dueTime: '09:15', priority: 'HIGH' });
+    expect(parseQuickAdd('Read 13 chapters', TODAY)).toEqual({ title: 'Read 13 chapters', dueDate: undefined, dueTime: undefined, priority: undefined });
+  });
+
+  it('reads month names and their abbreviations', () => {
+    expect(parseQuickAdd('Pay rent dec 2', TODAY)).toEqual({ title: 'Pay rent', dueDate: '2026-12-02', priority: undefined });
+    expect(parseQuickAdd('Pay rent Dec. 2', TODAY).dueDate).toBe('2026-12-02');
+    expect(parseQuickAdd('Pay rent December 2', TODAY).dueDate).toBe('2026-12-02');
+    expect(parseQuickAdd('Book flights sept 5', TODAY).dueDate).toBe('2027-09-05');
+    expect(parseQuickAdd('Book flights 5th of June 2027', TODAY).dueDate).toBe('2027-06-05');
+    expect(parseQuickAdd('File taxes jan 5', TODAY).dueDate).toBe('2027-01-05');
+  });
+
+  it('leaves words that only start like a month in the title', () => {
+    expect(parseQuickAdd('Decide 2 vendors', TODAY)).toEqual({ title: 'Decide 2 vendors', dueDate: undefined, priority: undefined });
+    expect(parseQuickAdd('Marketing 5 posts', TODAY)).toEqual({ title: 'Marketing 5 posts', dueDate: undefined, priority: undefined });
+    expect(parseQuickAdd('Junk 4 emails low', TODAY)).toEqual({ title: 'Junk 4 emails', dueDate: undefined, priority: 'LOW' });
+    expect(parseQuickAdd('Write 3 Octopus facts', TODAY).dueDate).toBeUndefined();
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseQuickAdd('Plan party 2/30', TODAY).dueDate).toBeUndefined();
+  });
+});
+
+describe('resolveDatePhrase', () => {
+  it('resolves date phrases against the reference day', () => {
+    expect(resolveDatePhrase('by tomorrow', TODAY)).toBe('2026-10-20');
+    expect(resolveDatePhrase('due Mar 3', TODAY)).toBe('2027-03-03');
+  });
+
+  it('finds no date in ordinary words', () => {
+    expect(resolveDatePhrase('decide 2 options', TODAY)).toBeUndefined();
+  });
+
+  it('only resolves phrases that are nothing but a date', () => {
+    expect(resolveDatePhrase('no later than Friday', TODAY)).toBe('2026-10-23');
+    expect(resolveDatePhrase('tomorrow morning', TODAY)).toBe('2026-10-20');
+    expect(resolveDatePhrase('send the report tomorrow', TODAY)).toBeUndefined();
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Natural-language quick-add parsing, e.g. "Call Bob tomorrow 3pm high" becomes
+ * { title: 'Call Bob', dueDate: <tomorrow>, dueTime: '15:00', priority: 'HIGH' }.
+ * Dates are resolved against `today` (YYYY-MM-DD in the user's timezone).
+ */
+
+export type QuickAddPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+
+export interface QuickAddResult {
+  title: string;
+  dueDate?: string; // YYYY-MM-DD
+  dueTime?: string; // HH:MM on dueDate
+  priority?: QuickAddPriority;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_PATTERN = '(sunday|monday|tuesday|wednesday|thursday|friday|saturday)';
+// Abbreviations like "sun" or "sat" are ordinary words too, so they need a lead-in ("by fri")
+const WEEKDAY_ABBREVIATION_PATTERN = '(sun|mon|tues|tue|wed|thurs|thur|thu|fri|sat)';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Full month names and their abbreviations only, so words like "decide" or "junk" aren't months
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)(?:\\.|\\b)';
+const PRIORITY_WORDS: Record<string, QuickAddPriority> = { urgent: 'URGENT', high: 'HIGH', medium: 'MEDIUM', low: 'LOW' };
+const NUMBERED_PRIORITIES: Record<string, QuickAddPriority> = { p1: 'URGENT', p2: 'HIGH', p3: 'MEDIUM', p4: 'LOW' };
+
+// What may surround the date in a deadline phrase besides a time ("by ... at the latest", "tomorrow morning")
+const DEADLINE_WORDS = /^(?:[\s,.;:!-]|\b(?:due|by|on|before|until|till|no|later|than|at|the|latest|morning|afternoon|evening|night)\b)*$/i;
+
+// Times of day ("3pm", "at 9:30 am", "17:30", "noon") as [hour, minute]
+const TIME_RULES: { pattern: RegExp; resolve: (match: RegExpMatchArray) => [number, number] | null }[] = [
+  {
+    pattern: /(?:\bat\s+)?\b(\d{1,2})(?::([0-5]\d))?\s*([ap])\.?m\b/i,
+    resolve: (m) => {
+      const hour = parseInt(m[1], 10);
+      if (hour < 1 || hour > 12) return null;
+      return [(hour % 12) + (m[3].toLowerCase() === 'p' ? 12 : 0), m[2] ? parseInt(m[2], 10) : 0];
+    },
+  },
+  {
+    pattern: /(?:\bat\s+)?\b([01]?\d|2[0-3]):([0-5]\d)\b/,
+    resolve: (m) => [parseInt(m[1], 10), parseInt(m[2], 10)],
+  },
+  {
+    pattern: /(?:\bat\s+)?\b(noon|midday)\b/i,
+    resolve: () => [12, 0],
+  },
+];
+
+// Optional lead-in word before a date ("due friday", "by tomorrow", "on 9/5")
+const LEAD = '(?:(?:due|by|on|before)\\s+)?';
+
+interface DateRule {
+  pattern: RegExp;
+  resolve: (match: RegExpMatchArray, today: Date) => Date | null;
+}
+
+const DATE_RULES: DateRule[] = [
+  {
+    pattern: new RegExp(`\\b${LEAD}(\\d{4})-(\\d{2})-(\\d{2})\\b`, 'i'),
+    resolve: (m) => makeDate(parseInt(m[1], 10), parseInt(m[2], 10), parseInt(m[3], 10)),
+  },
+  {
+    pattern: new RegExp(`\\b${LEAD}(today|tonight|eod)\\b`, 'i'),
+    resolve: (_m, today) => today,
+  },
+  {
+    pattern: new RegExp(`\\b${LEAD}(tomorrow|tmrw|tmr)\\b`, 'i'),
+    resolve: (_m, today) => addDays(today, 1),
+  },
+  {
+    pattern: /\bin\s+(\d{1,3})\s+(day|days|week|weeks)\b/i,
+    resolve: (m, today) => addDays(today, parseInt(m[1], 10) * (m[2].toLowerCase().startsWith('week') ? 7 : 1)),
+  },
+  {
+    pattern: new RegExp(`\\b${LEAD}next\\s+week\\b`, 'i'),
+    resolve: (_m, today) => weekdayNextWeek(today, 1),
+  },
+  {
+    pattern: new RegExp(`\\b${LEAD}(next\\s+|this\\s+)?${WEEKDAY_PATTERN}\\b`, 'i'),
+    resolve: (m, today) => resolveWeekday(today, m[2], m[1]),
+  },
+  {
+    pattern: new RegExp(`\\b(?:due|by|on|before|next|this)\\s+${WEEKDAY_ABBREVIATION_PATTERN}\\b`, 'i'),
+    resolve: (m, today) => resolveWeekday(today, m[1], m[0].toLowerCase().startsWith('next') ? 'next' : undefined),
+  },
+  {
+    pattern: new RegExp(`\\b${LEAD}${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'i'),
+    resolve: (m, today) => resolveMonthDay(today, MONTHS.indexOf(m[1].toLowerCase().substring(0, 3)) + 1, parseInt(m[2], 10), m[3]),
+  },
+  {
+    pattern: new RegExp(`\\b${LEAD}(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?\\b`, 'i'),
+    resolve: (m, today) => resolveMonthDay(today, MONTHS.indexOf(m[2].toLowerCase().substring(0, 3)) + 1, parseInt(m[1], 10), m[3]),
+  },
+  {
+    pattern: new RegExp(`\\b${LEAD}(\\d{1,2})/(\\d{1,2})(?:/(\\d{2}|\\d{4}))?\\b`, 'i'),
+    resolve: (m, today) => resolveMonthDay(today, parseInt(m[1], 10), parseInt(m[2], 10), m[3]),
+  },
+];
+
+function makeDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject overflow such as 2/30
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * "friday" / "this friday" is the next Friday after today; "next friday" is the
+ * Friday of next week (weeks start on Monday).
+ */
+function resolveWeekday(today: Date, name: string, qualifier?: string): Date {
+  const weekday = WEEKDAYS.findIndex(day => day.startsWith(name.toLowerCase().substring(0, 3)));
+  if (qualifier && qualifier.trim().toLowerCase() === 'next') {
+    return weekdayNextWeek(today, weekday);
+  }
+  return addDays(today, (weekday - today.getUTCDay() + 7) % 7 || 7);
+}
+
+function weekdayNextWeek(today: Date, weekday: number): Date {
+  const nextMonday = addDays(today, (8 - today.getUTCDay()) % 7 || 7);
+  return addDays(nextMonday, (weekday + 6) % 7);
+}
+
+/**
+ * Month/day without a year means the next occurrence, so "jan 5" in December is next year
+ */
+function resolveMonthDay(today: Date, month: number, day: number, yearText?: string): Date | null {
+  if (yearText) {
+    const year = parseInt(yearText, 10);
+    return makeDate(year < 100 ? 2000 + year : year, month, day);
+  }
+
+  const thisYear = makeDate(today.getUTCFullYear(), month, day);
+  if (thisYear && thisYear.getTime() < today.getTime()) {
+    return makeDate(today.getUTCFullYear() + 1, month, day);
+  }
+  return thisYear;
+}
+
+function extractPriority(text: string): { text: string; priority?: QuickAddPriority } {
+  const patterns: [RegExp, (m: RegExpMatchArray) => QuickAddPriority][] = [
+    [/(?:^|\s)!(urgent|high|medium|low)\b/i, m => PRIORITY_WORDS[m[1].toLowerCase()]],
+    [/\b(urgent|high|medium|low)\s+priority\b/i, m => PRIORITY_WORDS[m[1].toLowerCase()]],
+    [/\bpriority:?\s+(urgent|high|medium|low)\b/i, m => PRIORITY_WORDS[m[1].toLowerCase()]],
+    [/\b(p[1-4])\b/i, m => NUMBERED_PRIORITIES[m[1].toLowerCase()]],
+    [/!{3}/, () => 'URGENT'],
+    // A bare priority word only counts at the very end ("... tomorrow high")
+    [/\b(urgent|high|medium|low)\s*$/i, m => PRIORITY_WORDS[m[1].toLowerCase()]],
+  ];
+
+  for (const [pattern, toPriority] of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return { text: text.replace(pattern, ' '), priority: toPriority(match) };
+    }
+  }
+
+  return { text };
+}
+
+function extractDueDate(text: string, today: Date): { text: string; dueDate?: string } {
+  for (const rule of DATE_RULES) {
+    const match = text.match(rule.pattern);
+    if (!match) continue;
+
+    const date = rule.resolve(match, today);
+    if (date) {
+      return { text: text.replace(rule.pattern, ' '), dueDate: date.toISOString().substring(0, 10) };
+    }
+  }
+
+  return { text };
+}
+
+/**
+ * Find a time of day such as "3pm", "at 17:30" or "noon" (as HH:MM) and remove it from the text
+ */
+export function extractTimeOfDay(text: string): { text: string; time?: string } {
+  for (const rule of TIME_RULES) {
+    const match = text.match(rule.pattern);
+    const time = match && rule.resolve(match);
+    if (time) {
+      return {
+        text: text.replace(rule.pattern, ' '),
+        time: `${String(time[0]).padStart(2, '0')}:${String(time[1]).padStart(2, '0')}`,
+      };
+    }
+  }
+
+  return { text };
+}
+
+function parseReferenceDate(today: string): Date {
+  const [year, month, day] = today.split('-').map(part => parseInt(part, 10));
+  const todayDate = makeDate(year, month, day);
+  if (!todayDate) {
+    throw new Error(`Invalid reference date: ${today}`);
+  }
+  return todayDate;
+}
+
+/**
+ * Parse quick-add text. `today` is the user's current date as YYYY-MM-DD.
+ */
+export function parseQuickAdd(input: string, today: string): QuickAddResult {
+  const todayDate = parseReferenceDate(today);
+
+  // Dates first so that e.g. "3/5" isn't mistaken for anything else; the priority
+  // word is then usually the last one left
+  const withoutDate = extractDueDate(input.trim(), todayDate);
+  const withoutTime = extractTimeOfDay(withoutDate.text);
+  const withoutPriority = extractPriority(withoutTime.text.trim());
+
+  const title = withoutPriority.text
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.;:])/g, '$1')
+    .replace(/^[\s,.;:-]+|[\s,;:-]+$/g, '')
+    .trim();
+
+  return {
+    title,
+    // A time without a date is today
+    dueDate: withoutDate.dueDate || (withoutTime.time ? today : undefined),
+    dueTime: withoutTime.time,
+    priority: withoutPriority.priority,
+  };
+}
+
+/**
+ * The date (YYYY-MM-DD) a deadline phrase such as "by next Friday" or "due 9/5" refers to,
+ * counted from `today` (YYYY-MM-DD). Undefined unless the whole phrase is a date the rules
+ * above know, apart from lead-in words; times of day should be removed first.
+ */
+export function resolveDatePhrase(phrase: string, today: string): string | undefined {
+  const { text, dueDate } = extractDueDate(phrase, parseReferenceDate(today));
+  return dueDate && DEADLINE_WORDS.test(text) ? dueDate : undefined;
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in an IANA timezone. Throws a RangeError for unknown zones.
+ */
+export function todayInTimezone(timezone?: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone || undefined,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date());
+}
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { config } from '../config';
+
+/**
+ * Envelope encryption for integration OAuth tokens.
+ *
+ * Each integration row gets its own random 256-bit data key. The tokens are encrypted
+ * with the data key (AES-256-GCM) and the data key is stored wrapped (encrypted) with a
+ * master key from TOKEN_ENCRYPTION_KEYS. `key_version` records which master key wrapped it,
+ * so old rows stay readable while `npm run rotate-token-keys` moves them to the current key.
+ *
+ * Ciphertexts are stored as `<iv>.<auth tag>.<ciphertext>`, each part base64url.
+ */
+
+export interface EncryptedTokens {
+  access_token: string | null;
+  refresh_token: string | null;
+  encrypted_data_key: string | null;
+  key_version: number | null;
+}
+
+interface PlainTokens {
+  access_token?: string | null;
+  refresh_token?: string | null;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+let masterKeys: Map<number, Buffer> | null = null;
+let warnedUnencrypted = false;
+
+/**
+ * Parse TOKEN_ENCRYPTION_KEYS ("1:<base64 key>,2:<base64 key>") once. Each key must decode
+ * to exactly 32 bytes, e.g. the output of `openssl rand -base64 32`.
+ */
+function getMasterKeys(): Map<number, Buffer> {
+  if (masterKeys) return masterKeys;
+
+  const keys = new Map<number, Buffer>();
+  for (const entry of config.tokenEncryption.keys.split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const version = parseInt(entry.substring(0, separator), 10);
+    const key = Buffer.from(entry.substring(separator + 1), 'base64');
+
+    if (separator < 1 || isNaN(version) || version < 1) {
+      throw new Error('TOKEN_ENCRYPTION_KEYS entries must look like <version>:<base64 key>');
+    }
+    if (key.length !== 32) {
+      throw new Error(`Token encryption key version ${version} must be 32 bytes (base64 encoded)`);
+    }
+    keys.set(version, key);
+  }
+
+  masterKeys = keys;
+  return keys;
+}
+
+/**
+ * The master key version new data keys are wrapped with: TOKEN_ENCRYPTION_KEY_VERSION,
+ * or the highest configured version. Null when encryption is not configured.
+ */
+export function getCurrentKeyVersion(): number | null {
+  const keys = getMasterKeys();
+  if (keys.size === 0) return null;
+
+  const version = config.tokenEncryption.currentVersion || Math.max(...keys.keys());
+  if (!keys.has(version)) {
+    throw new Error(`TOKEN_ENCRYPTION_KEY_VERSION ${version} is not in TOKEN_ENCRYPTION_KEYS`);
+  }
+  return version;
+}
+
+function encrypt(plaintext: Buffer, key: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+function decrypt(value: string, key: Buffer): Buffer {
+  const [iv, tag, ciphertext] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Encrypt a row's tokens under a fresh data key. Without configured master keys the
+ * tokens are returned unchanged (key_version null) and a warning is logged once.
+ */
+export function encryptTokens(tokens: PlainTokens): EncryptedTokens {
+  const version = getCurrentKeyVersion();
+  if (version === null) {
+    if (!warnedUnencrypted) {
+      console.warn('⚠️ TOKEN_ENCRYPTION_KEYS is not set; integration tokens are stored unencrypted');
+      warnedUnencrypted = true;
+    }
+    return {
+      access_token: tokens.access_token ?? null,
+      refresh_token: tokens.refresh_token ?? null,
+      encrypted_data_key: null,
+      key_version: null,
+    };
+  }
+
+  const dataKey = crypto.randomBytes(32);
+  return {
+    access_token: tokens.access_token ? encrypt(Buffer.from(tokens.access_token, 'utf8'), dataKey) : null,
+    refresh_token: tokens.refresh_token ? encrypt(Buffer.from(tokens.refresh_token, 'utf8'), dataKey) : null,
+    encrypted_data_key: encrypt(dataKey, getMasterKeys().get(version)!),
+    key_version: version,
+  };
+}
+
+/**
+ * Decrypt a row's tokens. Rows without a key version predate encryption and are
+ * returned as stored.
+ */
+export function decryptTokens(row: EncryptedTokens): { access_token: string | null; refresh_token: string | null } {
+  if (row.key_version === null || row.key_version === undefined || !row.encrypted_data_key) {
+    return { access_token: row.access_token, refresh_token: row.refresh_token };
+  }
+
+  const masterKey = getMasterKeys().get(row.key_version);
+  if (!masterKey) {
+    throw new Error(`Token encryption key version ${row.key_version} is not configured`);
+  }
+
+  const dataKey = decrypt(row.encrypted_data_key, masterKey);
+  return {
+    access_token: row.access_token ? decrypt(row.access_token, dataKey).toString('utf8') : null,
+    refresh_token: row.refresh_token ? decrypt(row.refresh_token, dataKey).toString('utf8') : null,
+  };
+}
+
+/**
+ * A secret kept outside the token columns (IMAP credentials in integration metadata).
+ * It carries its own data key, wrapped with a master key like a row's token data key.
+ */
+export interface EncryptedSecret {
+  ciphertext: string;
+  encrypted_data_key: string | null;
+  key_version: number | null;
+}
+
+export function encryptSecret(plaintext: string): EncryptedSecret {
+  const { access_token, encrypted_data_key, key_version } = encryptTokens({ access_token: plaintext });
+  return { ciphertext: access_token || '', encrypted_data_key, key_version };
+}
+
+export function decryptSecret(secret: EncryptedSecret): string {
+  return decryptTokens({
+    access_token: secret.ciphertext,
+    refresh_token: null,
+    encrypted_data_key: secret.encrypted_data_key,
+    key_version: secret.key_version,
+  }).access_token || '';
+}
@@ -44,7 +44,7 @@ CREATE TABLE IF NOT EXISTS tasks (
 CREATE TABLE IF NOT EXISTS integrations (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    provider VARCHAR(50) NOT NULL CHECK (provider IN ('google', 'microsoft', 'slack')),
+    provider VARCHAR(50) NOT NULL CHECK (provider IN ('google', 'microsoft', 'slack', 'imap')),
     account_name VARCHAR(255) NOT NULL, -- User-friendly name for the account
     account_email VARCHAR(255) NOT NULL, -- Email associated with the integration
     access_token TEXT NOT NULL,
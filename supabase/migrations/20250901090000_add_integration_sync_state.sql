@@ -0,0 +1,20 @@
+-- Migration: Add integration sync state for the background mailbox monitor
+-- Date: 2025-09-01
+-- Description: Track per-integration last-run status, failure backoff and the lease
+-- that keeps multiple server instances from processing the same mailbox
+
+CREATE TABLE IF NOT EXISTS integration_sync_state (
+  integration_id UUID PRIMARY KEY REFERENCES integrations(id) ON DELETE CASCADE,
+  status VARCHAR(20) CHECK (status IN ('idle', 'running', 'ok', 'error')) DEFAULT 'idle',
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_success_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_result JSONB DEFAULT '{}',
+  consecutive_failures INTEGER DEFAULT 0,
+  next_run_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  locked_by VARCHAR(255),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_integration_sync_state_next_run_at ON integration_sync_state(next_run_at);
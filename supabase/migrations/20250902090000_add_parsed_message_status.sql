@@ -0,0 +1,8 @@
+-- Migration: Record extraction failures on parsed messages
+-- Date: 2025-09-02
+-- Description: Messages whose AI output could not be parsed or validated are stored as
+-- 'failed' with the error and an attempt count, so they are retried instead of skipped
+
+ALTER TABLE parsed_messages ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'parsed' CHECK (status IN ('parsed', 'failed'));
+ALTER TABLE parsed_messages ADD COLUMN IF NOT EXISTS error TEXT;
+ALTER TABLE parsed_messages ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 1;
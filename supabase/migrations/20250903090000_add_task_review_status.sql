@@ -0,0 +1,9 @@
+-- Migration: Add review status to tasks
+-- Date: 2025-09-03
+-- Description: AI-extracted tasks are created as 'suggested' and only show up as tasks once
+-- accepted. Rejected suggestions are kept so re-parsing the same message doesn't recreate them
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS review_status VARCHAR(20) CHECK (review_status IN ('suggested', 'accepted', 'rejected')) DEFAULT 'accepted';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_user_review_status ON tasks(user_id, review_status);
+CREATE INDEX IF NOT EXISTS idx_tasks_message_id ON tasks(message_id);
@@ -0,0 +1,5 @@
+-- Migration: Add notes to tasks
+-- Date: 2025-09-04
+-- Description: Free-form user notes, editable through PATCH /api/tasks/:taskId
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS notes TEXT;
@@ -0,0 +1,13 @@
+-- Migration: Add indexes for server-side task querying
+-- Date: 2025-09-05
+-- Description: Support GET /api/tasks filters (status, priority, account, source, due date)
+-- and keyset pagination ordered by created_at, due_date (either direction) or email_received_at
+
+CREATE INDEX IF NOT EXISTS idx_tasks_user_created_at ON tasks(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_due_date ON tasks(user_id, (COALESCE(due_date, 'infinity'::date)), id);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_due_date_desc ON tasks(user_id, (COALESCE(due_date, '-infinity'::date)) DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_email_received_at ON tasks(user_id, (COALESCE(email_received_at, created_at)) DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_status ON tasks(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_priority ON tasks(user_id, priority);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_account_email ON tasks(user_id, account_email);
+CREATE INDEX IF NOT EXISTS idx_tasks_user_source ON tasks(user_id, source);
@@ -0,0 +1,8 @@
+-- Migration: Add full-text search over tasks
+-- Date: 2025-09-06
+-- Description: Store the source email subject on tasks and add a GIN index over title,
+-- subject, description and sender for GET /api/tasks/search
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS email_subject TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search_vector ON tasks USING GIN ((setweight(to_tsvector('english', COALESCE(title, '')), 'A') || setweight(to_tsvector('english', COALESCE(email_subject, '')), 'B') || setweight(to_tsvector('english', COALESCE(description, '')), 'C') || setweight(to_tsvector('english', COALESCE(email_sender, '') || ' ' || regexp_replace(COALESCE(email_sender, ''), '[@._+-]+', ' ', 'g')), 'D')));
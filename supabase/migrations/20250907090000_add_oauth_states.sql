@@ -0,0 +1,16 @@
+-- Migration: Add OAuth state storage
+-- Date: 2025-09-07
+-- Description: Server-side, single-use OAuth state nonces with PKCE verifiers. The
+-- add-account flow now binds the new mailbox to the user who started it instead of
+-- trusting a user ID from the state parameter
+
+CREATE TABLE IF NOT EXISTS oauth_states (
+  nonce VARCHAR(64) PRIMARY KEY,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('login', 'add-account')),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  code_verifier VARCHAR(128) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_states_expires_at ON oauth_states(expires_at);
@@ -0,0 +1,8 @@
+-- Migration: Add envelope encryption columns for integration tokens
+-- Date: 2025-09-08
+-- Description: access_token and refresh_token are encrypted with a per-row data key,
+-- stored wrapped with the master key identified by key_version. Existing rows stay
+-- plaintext (key_version NULL) until `npm run rotate-token-keys` encrypts them
+
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS encrypted_data_key TEXT;
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS key_version INTEGER;
@@ -0,0 +1,9 @@
+-- Migration: Add integration health state
+-- Date: 2025-09-09
+-- Description: Track whether an account's provider connection works (ok, needs_reauth,
+-- quota_exceeded, error) with the time and message of the last error, so revoked
+-- grants can be skipped by background sync and surfaced for reconnection
+
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS health_status VARCHAR(20) DEFAULT 'ok' CHECK (health_status IN ('ok', 'needs_reauth', 'quota_exceeded', 'error'));
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS last_error_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS last_error_message TEXT;
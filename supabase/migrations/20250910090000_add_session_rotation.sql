@@ -0,0 +1,17 @@
+-- Migration: Add session metadata and refresh token rotation
+-- Date: 2025-09-10
+-- Description: Sessions get a short-lived access token, a rotating refresh token (stored
+-- hashed, with the previous hash kept to detect reuse), a sliding expiry capped by an
+-- absolute lifetime, and device/IP/last-seen details for the session list
+
+-- Access tokens carry a jti now and no longer reliably fit in 255 characters
+ALTER TABLE sessions ALTER COLUMN token TYPE TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS access_expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS refresh_token_hash VARCHAR(64) UNIQUE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS previous_refresh_token_hash VARCHAR(64);
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS absolute_expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ip_address VARCHAR(64);
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_refresh_token_hash ON sessions(previous_refresh_token_hash);
@@ -0,0 +1,6 @@
+-- Migration: Add provider to OAuth states
+-- Date: 2025-09-12
+-- Description: Record which identity provider (Google or Microsoft) an OAuth flow was started
+-- for, so a state issued for one provider's callback can't be replayed on the other's
+
+ALTER TABLE oauth_states ADD COLUMN IF NOT EXISTS provider VARCHAR(20) NOT NULL DEFAULT 'google' CHECK (provider IN ('google', 'microsoft'));
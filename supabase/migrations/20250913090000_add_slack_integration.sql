@@ -0,0 +1,9 @@
+-- Migration: Add Slack integration
+-- Date: 2025-09-13
+-- Description: Allow OAuth states for the Slack add-account flow, and store a link back to
+-- the source message on tasks (Slack permalinks can't be built from the message ID)
+
+ALTER TABLE oauth_states DROP CONSTRAINT IF EXISTS oauth_states_provider_check;
+ALTER TABLE oauth_states ADD CONSTRAINT oauth_states_provider_check CHECK (provider IN ('google', 'microsoft', 'slack'));
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS source_url TEXT;
@@ -0,0 +1,7 @@
+-- Migration: Add IMAP integrations
+-- Date: 2025-09-13
+-- Description: Allow generic IMAP mailboxes as integrations. Their credentials are stored
+-- encrypted in metadata, so access_token stays empty.
+
+ALTER TABLE integrations DROP CONSTRAINT IF EXISTS integrations_provider_check;
+ALTER TABLE integrations ADD CONSTRAINT integrations_provider_check CHECK (provider IN ('google', 'microsoft', 'slack', 'imap'));
@@ -0,0 +1,20 @@
+-- Migration: Store normalized messages before extraction
+-- Date: 2025-09-14
+-- Description: Messages from every provider are stored in the messages table (per integration,
+-- with recipients, subject, thread and link) and tasks.message_id points at the stored message.
+-- The provider message ID stays in tasks.source_id.
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS integration_id UUID REFERENCES integrations(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS thread_id VARCHAR(255);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS recipients TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS subject TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS url TEXT;
+ALTER TABLE messages ALTER COLUMN sender TYPE TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_integration_source_id ON messages(integration_id, source_id);
+CREATE INDEX IF NOT EXISTS idx_messages_integration_thread_id ON messages(integration_id, thread_id);
+
+UPDATE tasks SET message_id = NULL WHERE message_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM messages WHERE messages.id::text = tasks.message_id::text);
+ALTER TABLE tasks ALTER COLUMN message_id TYPE UUID USING message_id::uuid;
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_message_id_fkey;
+ALTER TABLE tasks ADD CONSTRAINT tasks_message_id_fkey FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE SET NULL;
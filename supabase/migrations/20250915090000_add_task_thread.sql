@@ -0,0 +1,8 @@
+-- Migration: Tie tasks to their conversation
+-- Date: 2025-09-15
+-- Description: Store the thread a task was extracted from, so replies later in the
+-- conversation update the task instead of creating a duplicate
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS thread_id VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_integration_thread_id ON tasks(integration_id, thread_id);
@@ -0,0 +1,55 @@
+-- Migration: Detect and merge duplicate tasks
+-- Date: 2025-09-16
+-- Description: Store the RFC 822 Message-ID of each message, every source message of a task
+-- (task_sources, kept when duplicates are merged), pairs of tasks that look like duplicates
+-- and, optionally, title embeddings used to find them
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS internet_message_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_messages_user_internet_message_id ON messages(user_id, internet_message_id);
+
+CREATE TABLE IF NOT EXISTS task_sources (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  integration_id UUID REFERENCES integrations(id) ON DELETE SET NULL,
+  source VARCHAR(50) NOT NULL,
+  source_id VARCHAR(255) NOT NULL,
+  source_url TEXT,
+  account_email VARCHAR(255),
+  email_sender TEXT,
+  email_subject TEXT,
+  email_received_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(task_id, source, source_id)
+);
+
+INSERT INTO task_sources (task_id, message_id, integration_id, source, source_id, source_url, account_email, email_sender, email_subject, email_received_at, created_at)
+SELECT id, message_id, integration_id, source, source_id, source_url, account_email, email_sender, email_subject, email_received_at, created_at
+FROM tasks WHERE source_id IS NOT NULL
+ON CONFLICT (task_id, source, source_id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS task_duplicates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  duplicate_of UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('message_id', 'title', 'embedding')),
+  score DECIMAL(4,3),
+  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(task_id, duplicate_of)
+);
+
+CREATE TABLE IF NOT EXISTS task_embeddings (
+  task_id UUID PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+  model VARCHAR(255) NOT NULL,
+  title VARCHAR(500) NOT NULL,
+  embedding REAL[] NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_sources_task_id ON task_sources(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_sources_integration_source_id ON task_sources(integration_id, source_id);
+CREATE INDEX IF NOT EXISTS idx_task_sources_message_id ON task_sources(message_id);
+CREATE INDEX IF NOT EXISTS idx_task_duplicates_user_status ON task_duplicates(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_task_duplicates_duplicate_of ON task_duplicates(duplicate_of);
@@ -0,0 +1,9 @@
+-- Migration: Resolve extracted due dates in the user's timezone
+-- Date: 2025-09-17
+-- Description: Store each user's timezone, the deadline phrase a task was extracted from and,
+-- when the phrase names a time of day, the exact due time
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_phrase TEXT;
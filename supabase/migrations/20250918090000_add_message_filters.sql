@@ -0,0 +1,17 @@
+-- Migration: Filter messages before AI extraction
+-- Date: 2025-09-18
+-- Description: Record messages skipped by the filter rules (bulk mail, denied senders) in
+-- parsed_messages with the reason, and store each user's sender allow/deny rules
+
+ALTER TABLE parsed_messages ADD COLUMN IF NOT EXISTS skip_reason TEXT;
+ALTER TABLE parsed_messages DROP CONSTRAINT IF EXISTS parsed_messages_status_check;
+ALTER TABLE parsed_messages ADD CONSTRAINT parsed_messages_status_check CHECK (status IN ('parsed', 'failed', 'skipped'));
+
+CREATE TABLE IF NOT EXISTS sender_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pattern VARCHAR(255) NOT NULL,
+  action VARCHAR(10) NOT NULL CHECK (action IN ('allow', 'deny')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, pattern)
+);